@@ -5,6 +5,7 @@ import { queryClient } from "./lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Navbar from "@/components/Navbar";
+import PaymentIssueBanner from "@/components/PaymentIssueBanner";
 import Login from "@/pages/login";
 import Dashboard from "@/pages/dashboard";
 import NotFound from "@/pages/not-found";
@@ -12,7 +13,9 @@ import Profile from "@/pages/profile";
 import Pricing from "@/pages/pricing";
 import Settings from "@/pages/settings";
 import Files from "@/pages/files";
+import Trash from "@/pages/trash";
 import AIChat from "@/pages/ai-chat";
+import EmailPreferences from "@/pages/email-preferences";
 
 class ErrorBoundary extends Component<
   { children: ReactNode },
@@ -56,6 +59,7 @@ function Router() {
   return (
     <div className="min-h-screen flex flex-col">
       <Navbar />
+      <PaymentIssueBanner />
       <div className="flex-1">
         <Switch>
           <Route path="/" component={Dashboard} />
@@ -64,7 +68,9 @@ function Router() {
           <Route path="/profile" component={Profile} />
           <Route path="/settings" component={Settings} />
           <Route path="/files" component={Files} />
+          <Route path="/trash" component={Trash} />
           <Route path="/ai-chat" component={AIChat} />
+          <Route path="/email-preferences" component={EmailPreferences} />
           <Route component={NotFound} />
         </Switch>
       </div>
@@ -0,0 +1,117 @@
+import { Badge } from "@/components/ui/badge";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { TagChip } from "@/components/TagChip";
+import { PRIORITY_LABELS, type EditableItem } from "@/components/ItemEditDialog";
+import { describeRecurrence, parseRecurrence } from "@shared/recurrence";
+import { formatDueDate } from "@shared/dates";
+import { useItemHistory, type ItemEvent, type ItemEventType } from "@/hooks/useItemHistory";
+
+export interface DetailItem extends EditableItem {
+  status?: string;
+}
+
+const EVENT_LABELS: Record<ItemEventType, string> = {
+  created: "Created",
+  status_changed: "Status changed",
+  edited: "Edited",
+  deleted: "Moved to trash",
+  restored: "Restored",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  item: "Item",
+  status: "Status",
+  description: "Description",
+  dueDate: "Due date",
+  priority: "Priority",
+  recurrence: "Repeats",
+};
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "none";
+  if (field === "dueDate") return formatDueDate(String(value));
+  if (field === "status") return String(value).replace("_", " ");
+  if (field === "recurrence") return describeRecurrence(parseRecurrence(String(value)));
+  return String(value);
+}
+
+function EventChanges({ event }: { event: ItemEvent }) {
+  if (!event.changes) return null;
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+      {Object.entries(event.changes).map(([field, change]) => (
+        <li key={field} className="break-words">
+          <span className="font-medium">{FIELD_LABELS[field] ?? field}:</span>{" "}
+          {"from" in change && <><span className="line-through">{formatValue(field, change.from)}</span> → </>}
+          {formatValue(field, change.to)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface ItemDetailDrawerProps {
+  item: DetailItem | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ItemDetailDrawer({ item, onOpenChange }: ItemDetailDrawerProps) {
+  const { events, loading } = useItemHistory(item?.id ?? null);
+
+  return (
+    <Sheet open={!!item} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto">
+        {item && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="break-words">{item.item}</SheetTitle>
+              <SheetDescription>#{item.id}</SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-4 space-y-2 text-sm">
+              {item.description && <p className="whitespace-pre-wrap">{item.description}</p>}
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground">
+                {item.status && <span>Status: {formatValue("status", item.status)}</span>}
+                {item.priority && <span>Priority: {PRIORITY_LABELS[item.priority]}</span>}
+                {item.dueDate && <span>Due: {formatDueDate(item.dueDate)}</span>}
+                {item.recurrence && <span>Repeats: {formatValue("recurrence", item.recurrence)}</span>}
+              </div>
+              {item.tags && item.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {item.tags.map((tag) => (
+                    <TagChip key={tag.id} tag={tag} />
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <h3 className="mt-6 mb-2 text-sm font-semibold">History</h3>
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading history...</p>
+            ) : events.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No history yet.</p>
+            ) : (
+              <ol className="relative border-l pl-4 space-y-4">
+                {events.map((event) => (
+                  <li key={event.id}>
+                    <span className="absolute -left-1 mt-1.5 h-2 w-2 rounded-full bg-primary" />
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="font-medium">{EVENT_LABELS[event.type] ?? event.type}</span>
+                      <Badge variant={event.source === "agent" ? "secondary" : "outline"}>
+                        {event.source === "agent" ? "Agent" : "UI"}
+                      </Badge>
+                    </div>
+                    <time className="text-xs text-muted-foreground" dateTime={event.createdAt}>
+                      {new Date(event.createdAt).toLocaleString()}
+                    </time>
+                    <EventChanges event={event} />
+                  </li>
+                ))}
+              </ol>
+            )}
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,296 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TagChip } from "@/components/TagChip";
+import { SubtaskChecklist } from "@/components/SubtaskChecklist";
+import { useToast } from "@/hooks/useToast";
+import { useTags, type TagItem } from "@/hooks/useTags";
+import { apiRequest } from "@/lib/queryClient";
+import { WEEKDAYS, parseRecurrence, type RecurrenceFrequency, type RecurrenceRule, type Weekday } from "@shared/recurrence";
+
+export type ItemPriority = "low" | "medium" | "high";
+
+export interface EditableItem {
+  id: number;
+  item: string;
+  description?: string | null;
+  dueDate?: string | null;
+  priority?: ItemPriority | null;
+  recurrence?: string | null;
+  tags?: TagItem[];
+}
+
+export const PRIORITY_LABELS: Record<ItemPriority, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: "M",
+  TU: "T",
+  WE: "W",
+  TH: "T",
+  FR: "F",
+  SA: "S",
+  SU: "S",
+};
+
+interface ItemEditDialogProps {
+  item: EditableItem | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+export function ItemEditDialog({ item, onOpenChange, onSaved }: ItemEditDialogProps) {
+  const { toast } = useToast();
+  const [text, setText] = useState("");
+  const [description, setDescription] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [priority, setPriority] = useState<ItemPriority | "none">("none");
+  const [repeat, setRepeat] = useState<RecurrenceFrequency | "none">("none");
+  const [repeatInterval, setRepeatInterval] = useState(1);
+  const [weekdays, setWeekdays] = useState<Weekday[]>([]);
+  const [monthDay, setMonthDay] = useState<number | undefined>(undefined);
+  const [tagIds, setTagIds] = useState<number[]>([]);
+  const [newTag, setNewTag] = useState("");
+  const { tags, createTag, setItemTag } = useTags();
+
+  // Reset the form whenever a different item is opened
+  useEffect(() => {
+    if (!item) return;
+    setText(item.item);
+    setDescription(item.description ?? "");
+    setDueDate(item.dueDate ? new Date(item.dueDate).toISOString().slice(0, 10) : "");
+    setPriority(item.priority ?? "none");
+    const rule = item.recurrence ? parseRecurrence(item.recurrence) : null;
+    setRepeat(rule?.frequency ?? "none");
+    setRepeatInterval(rule?.interval ?? 1);
+    setWeekdays(rule?.weekdays ?? []);
+    setMonthDay(rule?.monthDay);
+    setTagIds(item.tags?.map((tag) => tag.id) ?? []);
+    setNewTag("");
+  }, [item]);
+
+  // Tag changes apply immediately, independent of Save
+  const toggleTag = async (tagId: number) => {
+    if (!item) return;
+    const attached = !tagIds.includes(tagId);
+    await setItemTag(item.id, tagId, attached);
+    setTagIds((ids) => attached ? [...ids, tagId] : ids.filter((id) => id !== tagId));
+  };
+
+  const handleCreateTag = async () => {
+    const name = newTag.trim();
+    if (!item || !name) return;
+    const tag = await createTag({ name });
+    await setItemTag(item.id, tag.id, true);
+    setTagIds((ids) => [...ids, tag.id]);
+    setNewTag("");
+  };
+
+  const toggleWeekday = (day: Weekday) => {
+    setWeekdays((days) => days.includes(day) ? days.filter((d) => d !== day) : [...days, day]);
+  };
+
+  const buildRecurrence = (): RecurrenceRule | null => {
+    if (repeat === "none") return null;
+    return {
+      frequency: repeat,
+      interval: Math.max(1, repeatInterval || 1),
+      ...(repeat === "weekly" && weekdays.length > 0 && { weekdays }),
+      ...(repeat === "monthly" && monthDay !== undefined && { monthDay }),
+    };
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("PATCH", `/api/items/${id}`, {
+        item: text.trim(),
+        description: description.trim() || null,
+        dueDate: dueDate || null,
+        priority: priority === "none" ? null : priority,
+        recurrence: buildRecurrence(),
+      });
+    },
+    onSuccess: () => {
+      onSaved?.();
+      onOpenChange(false);
+      toast({
+        title: "Item updated",
+        description: "Your changes have been saved.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update item",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item || !text.trim()) return;
+    updateMutation.mutate(item.id);
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Item</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="item-text">Item</Label>
+            <Input
+              id="item-text"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              maxLength={1000}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="item-description">Description</Label>
+            <Textarea
+              id="item-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Add more detail..."
+              maxLength={5000}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="item-due-date">Due date</Label>
+              <Input
+                id="item-due-date"
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={priority} onValueChange={(value) => setPriority(value as ItemPriority | "none")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  <SelectItem value="low">{PRIORITY_LABELS.low}</SelectItem>
+                  <SelectItem value="medium">{PRIORITY_LABELS.medium}</SelectItem>
+                  <SelectItem value="high">{PRIORITY_LABELS.high}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Repeat</Label>
+            <div className="flex items-center gap-2">
+              <Select value={repeat} onValueChange={(value) => setRepeat(value as RecurrenceFrequency | "none")}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Does not repeat</SelectItem>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+              {repeat !== "none" && (
+                <>
+                  <Label htmlFor="item-repeat-interval" className="text-sm font-normal">Every</Label>
+                  <Input
+                    id="item-repeat-interval"
+                    type="number"
+                    min={1}
+                    max={365}
+                    value={repeatInterval}
+                    onChange={(e) => setRepeatInterval(Number(e.target.value))}
+                    className="w-20"
+                  />
+                  <span className="text-sm text-muted-foreground">
+                    {repeat === "daily" ? "days" : repeat === "weekly" ? "weeks" : "months"}
+                  </span>
+                </>
+              )}
+            </div>
+            {repeat === "weekly" && (
+              <div className="flex gap-1">
+                {WEEKDAYS.map((day) => (
+                  <Button
+                    key={day}
+                    type="button"
+                    size="sm"
+                    variant={weekdays.includes(day) ? "default" : "outline"}
+                    className="h-8 w-8 p-0"
+                    onClick={() => toggleWeekday(day)}
+                    title={day}
+                  >
+                    {WEEKDAY_LABELS[day]}
+                  </Button>
+                ))}
+              </div>
+            )}
+            {repeat !== "none" && (
+              <p className="text-xs text-muted-foreground">
+                Completing the item creates the next one.
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="item-new-tag">Tags</Label>
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {tags.map((tag) => (
+                  <TagChip
+                    key={tag.id}
+                    tag={tag}
+                    selected={tagIds.includes(tag.id)}
+                    onClick={() => toggleTag(tag.id).catch(() => undefined)}
+                  />
+                ))}
+              </div>
+            )}
+            <Input
+              id="item-new-tag"
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleCreateTag().catch(() => undefined);
+                }
+              }}
+              placeholder="New tag, press Enter to add"
+              maxLength={50}
+            />
+          </div>
+          {item && (
+            <div className="space-y-2">
+              <Label>Checklist</Label>
+              <SubtaskChecklist itemId={item.id} />
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!text.trim() || updateMutation.isPending}>
+              Save
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
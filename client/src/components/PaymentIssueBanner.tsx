@@ -0,0 +1,59 @@
+import { useMutation } from "@tanstack/react-query";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/useToast";
+import { apiPost, apiJson } from "@/lib/queryClient";
+import { useSubscription, describeSubscription, isInGracePeriod } from "@/hooks/useSubscription";
+
+async function createPortalSession(): Promise<{ url: string }> {
+  const response = await apiPost('/api/create-portal-session', {});
+  return apiJson<{ url: string }>(response);
+}
+
+/**
+ * Shown on every page while a failed payment is in its grace period, with a
+ * shortcut to the billing portal to fix it
+ */
+export default function PaymentIssueBanner() {
+  const { toast } = useToast();
+  const { subscription } = useSubscription();
+
+  const portalMutation = useMutation({
+    mutationFn: createPortalSession,
+    onSuccess: (data) => {
+      window.location.href = data.url;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to open billing portal",
+        variant: "destructive",
+      });
+    }
+  });
+
+  if (!isInGracePeriod(subscription)) {
+    return null;
+  }
+
+  return (
+    <div className="container mx-auto px-4 pt-4">
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+          <span>{describeSubscription(subscription)}</span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => portalMutation.mutate()}
+            disabled={portalMutation.isPending}
+          >
+            {portalMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Update payment method
+          </Button>
+        </AlertDescription>
+      </Alert>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { useSubtasks } from "@/hooks/useSubtasks";
+
+interface SubtaskChecklistProps {
+  itemId: number;
+}
+
+export function SubtaskChecklist({ itemId }: SubtaskChecklistProps) {
+  const { subtasks, addSubtask, updateSubtask, deleteSubtask, reorderSubtasks, isAdding } = useSubtasks(itemId);
+  const [title, setTitle] = useState("");
+
+  const handleAdd = () => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    addSubtask(trimmed, { onSuccess: () => setTitle("") });
+  };
+
+  const move = (index: number, offset: number) => {
+    const ids = subtasks.map((subtask) => subtask.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderSubtasks(ids);
+  };
+
+  const completed = subtasks.filter((subtask) => subtask.completed).length;
+
+  return (
+    <div className="space-y-2">
+      {subtasks.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {completed} of {subtasks.length} done
+        </p>
+      )}
+      <ul className="space-y-1">
+        {subtasks.map((subtask, index) => (
+          <li key={subtask.id} className="flex items-center gap-2 group">
+            <Checkbox
+              checked={subtask.completed}
+              onCheckedChange={(checked) => updateSubtask({ id: subtask.id, completed: checked === true })}
+            />
+            <span className={cn("flex-1 text-sm break-words", subtask.completed && "line-through text-muted-foreground")}>
+              {subtask.title}
+            </span>
+            <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+              <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={index === 0} onClick={() => move(index, -1)} title="Move up">
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={index === subtasks.length - 1} onClick={() => move(index, 1)} title="Move down">
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => deleteSubtask(subtask.id)} title="Delete">
+                <Trash2 className="h-3 w-3 text-red-500" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <Input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            handleAdd();
+          }
+        }}
+        placeholder="Add a step, press Enter to add"
+        maxLength={500}
+        disabled={isAdding}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { cn } from "@/lib/utils";
+import type { TagItem } from "@/hooks/useTags";
+
+interface TagChipProps {
+  tag: Pick<TagItem, "name" | "color">;
+  selected?: boolean;
+  onClick?: () => void;
+  className?: string;
+}
+
+export function TagChip({ tag, selected = true, onClick, className }: TagChipProps) {
+  const Component = onClick ? "button" : "span";
+
+  return (
+    <Component
+      type={onClick ? "button" : undefined}
+      onClick={onClick}
+      className={cn(
+        "inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-medium",
+        !selected && "opacity-50",
+        onClick && "hover:opacity-100 transition-opacity",
+        className
+      )}
+      style={{ borderColor: tag.color, color: tag.color, backgroundColor: selected ? `${tag.color}1a` : undefined }}
+    >
+      {tag.name}
+    </Component>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Archive, ArchiveRestore, Check, Clock, MessageSquare, Pencil, Plus, Trash2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { AiThread } from "@/hooks/useAiThreads";
+
+interface ThreadSidebarProps {
+  threads: AiThread[];
+  loading: boolean;
+  activeThreadId: string | null;
+  showArchived: boolean;
+  onShowArchivedChange: (showArchived: boolean) => void;
+  onSelect: (threadId: string | null) => void;
+  onRename: (threadId: string, title: string) => void;
+  onArchive: (threadId: string, archived: boolean) => void;
+  onDelete: (threadId: string) => void;
+}
+
+export function ThreadSidebar({
+  threads,
+  loading,
+  activeThreadId,
+  showArchived,
+  onShowArchivedChange,
+  onSelect,
+  onRename,
+  onArchive,
+  onDelete,
+}: ThreadSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  const startEditing = (thread: AiThread) => {
+    setEditingId(thread.id);
+    setDraftTitle(thread.title);
+  };
+
+  const commitEditing = () => {
+    const title = draftTitle.trim();
+    if (editingId && title) {
+      onRename(editingId, title);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-64 border-r flex flex-col bg-muted/30">
+      <div className="p-4 border-b space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            Chats
+          </h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onSelect(null)}
+            className="h-7 w-7 p-0"
+            title="New chat"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex gap-1 text-xs">
+          <Button
+            variant={!showArchived ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onShowArchivedChange(false)}
+            className="h-7 px-2"
+          >
+            Active
+          </Button>
+          <Button
+            variant={showArchived ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onShowArchivedChange(true)}
+            className="h-7 px-2"
+          >
+            Archived
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Clock className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : threads.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <p className="text-sm">{showArchived ? "No archived chats" : "No saved chats yet"}</p>
+          </div>
+        ) : (
+          <div className="space-y-1">
+            {threads.map((thread) => (
+              <div
+                key={thread.id}
+                className={cn(
+                  "group rounded-md px-2 py-2 text-sm hover:bg-background transition-colors",
+                  thread.id === activeThreadId && "bg-background border"
+                )}
+              >
+                {editingId === thread.id ? (
+                  <div className="flex items-center gap-1">
+                    <Input
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitEditing();
+                        if (e.key === "Escape") setEditingId(null);
+                      }}
+                      maxLength={200}
+                      className="h-7 text-sm"
+                      autoFocus
+                    />
+                    <Button variant="ghost" size="sm" onClick={commitEditing} className="h-6 w-6 p-0">
+                      <Check className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} className="h-6 w-6 p-0">
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => onSelect(thread.id)}
+                      className="flex-1 min-w-0 text-left truncate"
+                      title={thread.title}
+                    >
+                      {thread.title}
+                    </button>
+                    <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => startEditing(thread)}
+                        className="h-6 w-6 p-0"
+                        title="Rename"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onArchive(thread.id, !thread.archived)}
+                        className="h-6 w-6 p-0"
+                        title={thread.archived ? "Unarchive" : "Archive"}
+                      >
+                        {thread.archived ? <ArchiveRestore className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onDelete(thread.id)}
+                        className="h-6 w-6 p-0"
+                        title="Delete"
+                      >
+                        <Trash2 className="h-3 w-3 text-red-600" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,26 @@
 import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useInfiniteQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { CheckCircle2, Circle, Trash2, Clock, PlayCircle } from "lucide-react";
+import { ToastAction } from "@/components/ui/toast";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle2, Circle, Trash2, Clock, PlayCircle, Pencil, CalendarDays, ListChecks, GripVertical, X, Repeat } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
-import { useAuth } from "@/lib/auth";
+import { fetchItemPage } from "@/lib/items";
+import { useAuth } from "@/hooks/use-auth";
 import { cn } from "@/lib/utils";
+import { TagChip } from "@/components/TagChip";
+import { useTags, type TagItem } from "@/hooks/useTags";
+import type { SubtaskProgress } from "@/hooks/useSubtasks";
+import { useItemReorder } from "@/hooks/useItemReorder";
+import { useDragReorder } from "@/hooks/useDragReorder";
+import { useBulkItems, type BulkItemChange } from "@/hooks/useBulkItems";
+import { useTrash } from "@/hooks/useTrash";
+import { useToast } from "@/hooks/useToast";
+import { ItemEditDialog, PRIORITY_LABELS, type ItemPriority } from "@/components/ItemEditDialog";
+import { ItemDetailDrawer } from "@/components/ItemDetailDrawer";
+import { describeRecurrence, parseRecurrence } from "@shared/recurrence";
+import { formatDueDate } from "@shared/dates";
 
 type TodoStatus = "open" | "in_progress" | "completed";
 
@@ -12,6 +28,12 @@ interface TodoItem {
   id: number;
   item: string;
   status: TodoStatus;
+  description: string | null;
+  dueDate: string | null;
+  priority: ItemPriority | null;
+  recurrence: string | null;
+  tags: TagItem[];
+  subtaskProgress: SubtaskProgress;
   createdAt: string;
   updatedAt: string;
 }
@@ -40,6 +62,12 @@ const STATUS_CONFIG = {
   },
 };
 
+const PRIORITY_COLORS: Record<ItemPriority, string> = {
+  low: "text-gray-500",
+  medium: "text-amber-600",
+  high: "text-red-600",
+};
+
 interface TodoListProps {
   onTodoChange?: () => void;
 }
@@ -60,15 +88,36 @@ const formatRelativeTime = (date: string) => {
 export function TodoList({ onTodoChange }: TodoListProps) {
   const { user } = useAuth();
   const [filterStatus, setFilterStatus] = useState<TodoStatus | "all">("all");
+  const [filterTag, setFilterTag] = useState<number | null>(null);
+  const [editingTodo, setEditingTodo] = useState<TodoItem | null>(null);
+  const [viewingTodo, setViewingTodo] = useState<TodoItem | null>(null);
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const { tags } = useTags();
+  const { bulkUpdate, isUpdating } = useBulkItems();
+  const { restoreItem } = useTrash({ enabled: false });
+  const { toast } = useToast();
 
-  // Fetch todos using React Query (same as dashboard)
-  const { data: todos = [], refetch, isLoading } = useQuery({
-    queryKey: ['items', user?.uid],
-    queryFn: async () => {
-      const response = await apiRequest('GET', `/api/items?userId=${user?.uid}`);
-      const data = await response.json();
-      return Array.isArray(data) ? data : [];
-    },
+  // Fetch todos using React Query; the status and tag filters are applied on the server
+  const {
+    data,
+    refetch,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['items', user?.id, 'todos', filterStatus, filterTag],
+    queryFn: ({ pageParam }) => fetchItemPage<TodoItem>({
+      status: filterStatus === "all" ? undefined : filterStatus,
+      tag: filterTag ?? undefined,
+      sort: 'position',
+      order: 'asc',
+      limit: 100,
+      cursor: pageParam,
+    }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.pagination.nextCursor,
     enabled: !!user,
     refetchOnMount: 'always',
     staleTime: 0,
@@ -85,14 +134,26 @@ export function TodoList({ onTodoChange }: TodoListProps) {
     },
   });
 
-  // Delete mutation
+  // Delete mutation; deleted todos go to the trash, so offer an undo
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
       await apiRequest("DELETE", `/api/items/${id}`);
     },
-    onSuccess: () => {
+    onSuccess: (_data, id) => {
       refetch();
       onTodoChange?.();
+      toast({
+        title: "Todo moved to trash",
+        description: filteredTodos.find((todo) => todo.id === id)?.item,
+        action: (
+          <ToastAction
+            altText="Undo delete"
+            onClick={() => restoreItem(id, { onSuccess: () => onTodoChange?.() })}
+          >
+            Undo
+          </ToastAction>
+        ),
+      });
     },
   });
 
@@ -110,21 +171,59 @@ export function TodoList({ onTodoChange }: TodoListProps) {
     refetch();
   };
 
-  // Filter todos based on selected status
-  const filteredTodos = filterStatus === "all"
-    ? todos
-    : todos.filter((todo: TodoItem) => todo.status === filterStatus);
+  const filteredTodos = data?.pages.flatMap((page) => page.items) ?? [];
+  const total = data?.pages[0]?.pagination.total ?? 0;
+
+  // Drag todos to change their manual order
+  const { reorderItems } = useItemReorder();
+  const { getDragProps, draggingId, overId } = useDragReorder(
+    filteredTodos.map((todo) => todo.id),
+    reorderItems,
+    !selecting
+  );
+
+  // Only act on selected todos that are still visible under the current filters
+  const visibleSelectedIds = selectedIds.filter((id) => filteredTodos.some((todo) => todo.id === id));
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds((ids) => ids.includes(id) ? ids.filter((selected) => selected !== id) : [...ids, id]);
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelectedIds([]);
+  };
+
+  const handleBulk = (change: BulkItemChange) => {
+    if (visibleSelectedIds.length === 0) return;
+    bulkUpdate({ ...change, ids: visibleSelectedIds }, {
+      onSuccess: () => {
+        setSelectedIds([]);
+        onTodoChange?.();
+      },
+    });
+  };
 
   return (
     <div className="w-80 border-r flex flex-col bg-muted/30">
       <div className="p-4 border-b space-y-3">
         <div>
-          <h2 className="text-lg font-semibold flex items-center gap-2">
-            <CheckCircle2 className="h-5 w-5" />
-            My Todos
-          </h2>
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <CheckCircle2 className="h-5 w-5" />
+              My Todos
+            </h2>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => selecting ? stopSelecting() : setSelecting(true)}
+              className="h-7 px-2 text-xs"
+            >
+              {selecting ? "Cancel" : "Select"}
+            </Button>
+          </div>
           <p className="text-xs text-muted-foreground mt-1">
-            {filteredTodos.length} of {todos.length} {todos.length === 1 ? 'item' : 'items'}
+            {total} {filterStatus !== "all" ? STATUS_CONFIG[filterStatus].label.toLowerCase() + " " : ""}{total === 1 ? 'item' : 'items'}
           </p>
         </div>
 
@@ -163,6 +262,87 @@ export function TodoList({ onTodoChange }: TodoListProps) {
             Done
           </Button>
         </div>
+
+        {/* Bulk Actions */}
+        {selecting && (
+          <div className="space-y-2 rounded-md border bg-background p-2 text-xs">
+            <div className="flex items-center justify-between">
+              <span>{visibleSelectedIds.length} selected</span>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => setSelectedIds(filteredTodos.map((todo) => todo.id))}
+                >
+                  All
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => setSelectedIds([])}
+                  title="Clear selection"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {(Object.keys(STATUS_CONFIG) as TodoStatus[]).map((status) => (
+                <Button
+                  key={status}
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  disabled={visibleSelectedIds.length === 0 || isUpdating}
+                  onClick={() => handleBulk({ action: "set_status", status })}
+                >
+                  {STATUS_CONFIG[status].label}
+                </Button>
+              ))}
+              <Button
+                variant="destructive"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                disabled={visibleSelectedIds.length === 0 || isUpdating}
+                onClick={() => handleBulk({ action: "delete" })}
+              >
+                Delete
+              </Button>
+            </div>
+            {tags.length > 0 && (
+              <Select
+                value=""
+                onValueChange={(tagId) => handleBulk({ action: "tag", tagId: Number(tagId) })}
+                disabled={visibleSelectedIds.length === 0 || isUpdating}
+              >
+                <SelectTrigger className="h-7 text-xs">
+                  <SelectValue placeholder="Add tag..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {tags.map((tag) => (
+                    <SelectItem key={tag.id} value={String(tag.id)}>{tag.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+
+        {/* Tag Filter */}
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map((tag) => (
+              <TagChip
+                key={tag.id}
+                tag={tag}
+                selected={filterTag === null || filterTag === tag.id}
+                onClick={() => setFilterTag(filterTag === tag.id ? null : tag.id)}
+              />
+            ))}
+          </div>
+        )}
       </div>
 
       <div className="flex-1 overflow-y-auto p-4">
@@ -185,12 +365,28 @@ export function TodoList({ onTodoChange }: TodoListProps) {
               return (
                 <div
                   key={todo.id}
+                  {...getDragProps(todo.id)}
                   className={cn(
                     "bg-background border rounded-lg p-3 hover:shadow-sm transition-shadow group",
-                    statusConfig.bgColor
+                    statusConfig.bgColor,
+                    draggingId === todo.id && "opacity-50",
+                    overId === todo.id && draggingId !== todo.id && "ring-2 ring-primary"
                   )}
                 >
                   <div className="flex items-start gap-2">
+                    {selecting ? (
+                      <Checkbox
+                        className="mt-1"
+                        checked={selectedIds.includes(todo.id)}
+                        onCheckedChange={() => toggleSelected(todo.id)}
+                        aria-label={`Select ${todo.item}`}
+                      />
+                    ) : (
+                      <GripVertical
+                        className="h-4 w-4 mt-1 flex-shrink-0 cursor-grab text-muted-foreground/50 opacity-0 group-hover:opacity-100 transition-opacity"
+                        aria-label="Drag to reorder"
+                      />
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -202,19 +398,67 @@ export function TodoList({ onTodoChange }: TodoListProps) {
                       <StatusIcon className={cn("h-4 w-4 flex-shrink-0", statusConfig.color)} />
                     </Button>
                     <div className="flex-1 min-w-0">
-                      <p className={cn(
-                        "text-sm break-words",
-                        todo.status === "completed" && "line-through text-muted-foreground"
-                      )}>
+                      <p
+                        className={cn(
+                          "text-sm break-words cursor-pointer hover:underline",
+                          todo.status === "completed" && "line-through text-muted-foreground"
+                        )}
+                        onClick={() => setViewingTodo(todo)}
+                        title="Show details and history"
+                      >
                         {todo.item}{" "}
                         <span className="text-xs text-muted-foreground/60 font-normal">
                           (#{todo.id})
                         </span>
                       </p>
-                      <p className="text-xs text-muted-foreground mt-1">
-                        {formatRelativeTime(todo.updatedAt)}
-                      </p>
+                      {todo.description && (
+                        <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                          {todo.description}
+                        </p>
+                      )}
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground mt-1">
+                        {todo.priority && (
+                          <span className={cn("font-medium", PRIORITY_COLORS[todo.priority])}>
+                            {PRIORITY_LABELS[todo.priority]}
+                          </span>
+                        )}
+                        {todo.dueDate && (
+                          <span className="flex items-center gap-1">
+                            <CalendarDays className="h-3 w-3" />
+                            {formatDueDate(todo.dueDate)}
+                          </span>
+                        )}
+                        {todo.recurrence && (
+                          <span className="flex items-center gap-1" title="Repeats">
+                            <Repeat className="h-3 w-3" />
+                            {describeRecurrence(parseRecurrence(todo.recurrence))}
+                          </span>
+                        )}
+                        {todo.subtaskProgress?.total > 0 && (
+                          <span className="flex items-center gap-1" title="Checklist progress">
+                            <ListChecks className="h-3 w-3" />
+                            {todo.subtaskProgress.completed}/{todo.subtaskProgress.total}
+                          </span>
+                        )}
+                        <span>{formatRelativeTime(todo.updatedAt)}</span>
+                      </div>
+                      {todo.tags?.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {todo.tags.map((tag) => (
+                            <TagChip key={tag.id} tag={tag} />
+                          ))}
+                        </div>
+                      )}
                     </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditingTodo(todo)}
+                      className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Edit"
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="sm"
@@ -228,9 +472,35 @@ export function TodoList({ onTodoChange }: TodoListProps) {
                 </div>
               );
             })}
+            {hasNextPage && (
+              <div className="flex justify-center pt-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                >
+                  {isFetchingNextPage ? "Loading..." : "Load more"}
+                </Button>
+              </div>
+            )}
           </div>
         )}
       </div>
+
+      <ItemEditDialog
+        item={editingTodo}
+        onOpenChange={(open) => !open && setEditingTodo(null)}
+        onSaved={() => {
+          refetch();
+          onTodoChange?.();
+        }}
+      />
+
+      <ItemDetailDrawer
+        item={viewingTodo}
+        onOpenChange={(open) => !open && setViewingTodo(null)}
+      />
     </div>
   );
 }
@@ -239,7 +509,7 @@ export function TodoList({ onTodoChange }: TodoListProps) {
 export function useTodoListRefresh() {
   const { user } = useAuth();
   const { refetch } = useQuery({
-    queryKey: ['items', user?.uid],
+    queryKey: ['items', user?.id],
     enabled: false, // Don't auto-fetch, just allow manual refetch
   });
 
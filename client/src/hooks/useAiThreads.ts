@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from './use-auth';
+import { useToast } from './useToast';
+import { apiPost, apiPatch, apiDelete, apiJson, getQueryFn } from '@/lib/queryClient';
+
+export interface AiThread {
+  id: string;
+  title: string;
+  userId: string;
+  archived: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function useAiThreads() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showArchived, setShowArchived] = useState(false);
+
+  const threadsKey = [showArchived ? '/api/ai/threads?archived=true' : '/api/ai/threads'];
+
+  // Active and archived lists are cached separately; refresh both after a change
+  const invalidateThreads = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/ai/threads'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/ai/threads?archived=true'] });
+  };
+
+  const {
+    data: threads = [],
+    isLoading: loading,
+  } = useQuery({
+    queryKey: threadsKey,
+    queryFn: getQueryFn<AiThread[]>({ on401: "throw" }),
+    enabled: !!user,
+  });
+
+  // Registers a ChatKit thread (idempotent on the server)
+  const saveMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiPost('/api/ai/threads', { id });
+      return apiJson<AiThread>(response);
+    },
+    onSuccess: () => {
+      invalidateThreads();
+    },
+    onError: (error: Error) => {
+      console.error('Save thread error:', error);
+    }
+  });
+
+  // Copies the thread's messages from ChatKit and titles untitled threads from them
+  const syncMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiPost(`/api/ai/threads/${id}/sync`, {});
+      return apiJson<{ thread: AiThread; saved: number }>(response);
+    },
+    onSuccess: () => {
+      invalidateThreads();
+    },
+    onError: (error: Error) => {
+      console.error('Sync thread error:', error);
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: string; title?: string; archived?: boolean }) => {
+      const response = await apiPatch(`/api/ai/threads/${id}`, data);
+      return apiJson<AiThread>(response);
+    },
+    onSuccess: () => {
+      invalidateThreads();
+    },
+    onError: (error: Error) => {
+      console.error('Update thread error:', error);
+      toast({
+        title: "Update failed",
+        description: error.message || 'Failed to update conversation',
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiDelete(`/api/ai/threads/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Conversation deleted",
+        description: 'The conversation has been removed from your history',
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Delete thread error:', error);
+      toast({
+        title: "Delete failed",
+        description: error.message || 'Failed to delete conversation',
+        variant: "destructive"
+      });
+    },
+    onSettled: () => {
+      invalidateThreads();
+    }
+  });
+
+  return {
+    threads,
+    loading,
+    showArchived,
+    setShowArchived,
+    saveThread: saveMutation.mutate,
+    syncThread: syncMutation.mutate,
+    renameThread: (id: string, title: string) => updateMutation.mutate({ id, title }),
+    setArchived: (id: string, archived: boolean) => updateMutation.mutate({ id, archived }),
+    deleteThread: deleteMutation.mutateAsync,
+  };
+}
@@ -0,0 +1,44 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from './useToast';
+import { apiPost, apiJson } from '@/lib/queryClient';
+
+export type BulkItemChange =
+  | { action: 'set_status'; status: 'open' | 'in_progress' | 'completed' }
+  | { action: 'delete' }
+  | { action: 'tag'; tagId: number; attached?: boolean };
+
+export type BulkItemAction = BulkItemChange & { ids: number[] };
+
+export interface BulkItemResult {
+  success: boolean;
+  action: BulkItemAction['action'];
+  count: number;
+}
+
+export function useBulkItems() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async (action: BulkItemAction) => {
+      const response = await apiPost('/api/items/bulk', action);
+      return apiJson<BulkItemResult>(response);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+    },
+    onError: (error: Error) => {
+      console.error('Failed to update items:', error);
+      toast({
+        title: 'Failed to update items',
+        description: error.message || 'Something went wrong',
+        variant: "destructive"
+      });
+    },
+  });
+
+  return {
+    bulkUpdate: mutation.mutate,
+    isUpdating: mutation.isPending,
+  };
+}
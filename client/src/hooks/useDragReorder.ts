@@ -0,0 +1,42 @@
+import { useState, type DragEvent } from 'react';
+import { moveItemId } from '@/lib/items';
+
+/**
+ * Native HTML5 drag-and-drop for a vertical list. Spread `getDragProps(id)`
+ * onto each row; `onReorder` receives the full id order after a drop.
+ */
+export function useDragReorder(ids: number[], onReorder: (ids: number[]) => void, enabled = true) {
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+  const [overId, setOverId] = useState<number | null>(null);
+
+  const reset = () => {
+    setDraggingId(null);
+    setOverId(null);
+  };
+
+  const getDragProps = (id: number) => ({
+    draggable: enabled,
+    onDragStart: (e: DragEvent) => {
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData('text/plain', String(id));
+      setDraggingId(id);
+    },
+    onDragOver: (e: DragEvent) => {
+      if (draggingId === null) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setOverId(id);
+    },
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      const from = ids.indexOf(draggingId ?? -1);
+      const to = ids.indexOf(id);
+      reset();
+      if (from === -1 || to === -1 || from === to) return;
+      onReorder(moveItemId(ids, from, to));
+    },
+    onDragEnd: reset,
+  });
+
+  return { getDragProps, draggingId, overId };
+}
@@ -26,6 +26,19 @@ export interface FileUploadResult {
   type: string;
 }
 
+export interface FileUsage {
+  plan: string;
+  usage: {
+    fileCount: number;
+    totalBytes: number;
+  };
+  limits: {
+    maxFiles: number;
+    maxTotalBytes: number;
+    maxFileBytes: number;
+  };
+}
+
 // Mutation functions for file operations
 async function uploadFileToServer(file: File): Promise<FileUploadResult> {
   const formData = new FormData();
@@ -57,6 +70,14 @@ export function useFiles() {
     gcTime: 1000 * 60 * 10, // 10 minutes (renamed from cacheTime)
   });
 
+  // Server-computed usage and plan limits
+  const { data: usage, error: usageQueryError, refetch: refreshUsage } = useQuery({
+    queryKey: ['/api/files/usage'],
+    queryFn: getQueryFn<FileUsage>({ on401: "throw" }),
+    enabled: !!user,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
   // Upload file mutation
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
@@ -69,7 +90,8 @@ export function useFiles() {
         data,
         ...oldFiles
       ]);
-      
+      queryClient.invalidateQueries({ queryKey: ['/api/files/usage'] });
+
       toast({
         title: "Upload successful",
         description: `${data.originalName} uploaded successfully`,
@@ -129,12 +151,14 @@ export function useFiles() {
     onSettled: () => {
       // Always refetch after error or success
       queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/files/usage'] });
     }
   });
 
-  const totalSize = files.reduce((sum, file) => sum + file.size, 0);
-  const totalFiles = files.length;
+  const totalSize = usage?.usage.totalBytes ?? files.reduce((sum, file) => sum + file.size, 0);
+  const totalFiles = usage?.usage.fileCount ?? files.length;
   const error = queryError ? (queryError as Error).message : null;
+  const usageError = usageQueryError ? (usageQueryError as Error).message : null;
 
   return {
     files,
@@ -145,5 +169,9 @@ export function useFiles() {
     refreshFiles,
     totalSize,
     totalFiles,
+    limits: usage?.limits,
+    plan: usage?.plan,
+    usageError,
+    refreshUsage,
   };
 }
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query';
+import { getQueryFn } from '@/lib/queryClient';
+
+export type ItemEventType = "created" | "status_changed" | "edited" | "deleted" | "restored";
+export type ItemEventSource = "ui" | "agent";
+
+export interface ItemFieldChange {
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface ItemEvent {
+  id: number;
+  itemId: number;
+  type: ItemEventType;
+  source: ItemEventSource;
+  changes: Record<string, ItemFieldChange> | null;
+  createdAt: string;
+}
+
+export function useItemHistory(itemId: number | null) {
+  const { data: events = [], isLoading: loading } = useQuery({
+    queryKey: [`/api/items/${itemId}/history`],
+    queryFn: getQueryFn<ItemEvent[]>({ on401: "throw" }),
+    enabled: itemId !== null,
+    // History changes whenever the item does, so reload it each time the drawer opens
+    refetchOnMount: 'always',
+  });
+
+  return { events, loading };
+}
@@ -0,0 +1,42 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from './use-auth';
+import { useToast } from './useToast';
+import { apiPost } from '@/lib/queryClient';
+import { reorderCachedItems } from '@/lib/items';
+
+export function useItemReorder() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['items', user?.id];
+
+  const mutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      await apiPost('/api/items/reorder', { ids });
+    },
+    // Show the new order immediately and keep a snapshot to roll back to
+    onMutate: async (ids) => {
+      await queryClient.cancelQueries({ queryKey });
+      const snapshot = queryClient.getQueriesData({ queryKey });
+      queryClient.setQueriesData({ queryKey }, (data: unknown) => reorderCachedItems(data, ids));
+      return { snapshot };
+    },
+    onError: (error: Error, _ids, context) => {
+      context?.snapshot.forEach(([key, data]) => queryClient.setQueryData(key, data));
+      console.error('Failed to reorder items:', error);
+      toast({
+        title: 'Failed to reorder items',
+        description: error.message || 'Something went wrong',
+        variant: "destructive"
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  return {
+    reorderItems: mutation.mutate,
+    isReordering: mutation.isPending,
+  };
+}
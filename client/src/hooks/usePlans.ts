@@ -0,0 +1,69 @@
+import { useQuery } from "@tanstack/react-query";
+import type { SubscriptionType } from "@shared/schema";
+
+export interface PlanEntitlements {
+  // null for no limit
+  maxItems: number | null;
+  files: {
+    maxFiles: number;
+    maxTotalBytes: number;
+    maxFileBytes: number;
+  };
+  aiAccess: boolean;
+}
+
+export type BillingInterval = "month" | "year";
+
+export interface CatalogPrice {
+  // In the currency's smallest unit, e.g. cents
+  amount: number;
+  currency: string;
+  // False for paid prices that cannot be bought yet
+  available: boolean;
+}
+
+export interface CatalogPlan {
+  id: SubscriptionType;
+  name: string;
+  description: string;
+  prices: Record<BillingInterval, CatalogPrice>;
+  features: string[];
+  entitlements: PlanEntitlements;
+}
+
+export function formatPrice({ amount, currency }: Pick<CatalogPrice, "amount" | "currency">): string {
+  return (amount / 100).toLocaleString(undefined, { style: "currency", currency: currency.toUpperCase() });
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 ** 3 ? `${bytes / 1024 ** 3}GB` : `${bytes / 1024 ** 2}MB`;
+}
+
+/**
+ * The plan's limits as pricing page bullet points
+ */
+export function describeEntitlements({ maxItems, files, aiAccess }: PlanEntitlements): string[] {
+  return [
+    maxItems === null ? "Unlimited items" : `${maxItems} items maximum`,
+    `${files.maxFiles} files maximum`,
+    `${formatBytes(files.maxTotalBytes)} total storage`,
+    `${formatBytes(files.maxFileBytes)} per file limit`,
+    ...(aiAccess ? ["AI chat assistant"] : []),
+  ];
+}
+
+/**
+ * The plan catalog from `GET /api/plans`, lowest plan first
+ */
+export function usePlans() {
+  const { data, isLoading } = useQuery<CatalogPlan[]>({
+    queryKey: ['/api/plans'],
+    staleTime: Infinity,
+  });
+
+  return {
+    plans: data ?? [],
+    getPlan: (id: string | undefined | null) => data?.find((plan) => plan.id === id),
+    isLoading,
+  };
+}
@@ -0,0 +1,82 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "./use-auth";
+import { getQueryFn } from "../lib/queryClient";
+import type { SubscriptionStatus, SubscriptionType } from "@shared/schema";
+import type { BillingInterval } from "./usePlans";
+
+export interface BillingSubscription {
+  status: SubscriptionStatus;
+  priceId: string | null;
+  // null for prices missing from the plan catalog
+  interval: BillingInterval | null;
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+  trialEnd: string | null;
+  canceledAt: string | null;
+  // Set while a failed payment is being retried; the paid plan stays on until then
+  gracePeriodEndsAt: string | null;
+}
+
+export interface BillingState {
+  plan: SubscriptionType;
+  subscription: BillingSubscription | null;
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString(undefined, { dateStyle: "medium" }) : "";
+}
+
+/**
+ * Whether a payment failed and the subscription is still in its grace period
+ */
+export function isInGracePeriod(subscription: BillingSubscription | null): subscription is BillingSubscription & { gracePeriodEndsAt: string } {
+  return (subscription?.status === "past_due" || subscription?.status === "unpaid")
+    && !!subscription.gracePeriodEndsAt
+    && new Date(subscription.gracePeriodEndsAt) > new Date();
+}
+
+/**
+ * One line describing where a subscription stands, e.g. when it renews
+ */
+export function describeSubscription(subscription: BillingSubscription | null): string | null {
+  if (!subscription) return null;
+
+  switch (subscription.status) {
+    case "trialing":
+      return subscription.cancelAtPeriodEnd
+        ? `Trial ends on ${formatDate(subscription.trialEnd)} and will not renew`
+        : `Trial ends on ${formatDate(subscription.trialEnd)}`;
+    case "active":
+      return subscription.cancelAtPeriodEnd
+        ? `Cancels on ${formatDate(subscription.currentPeriodEnd)}`
+        : `Renews on ${formatDate(subscription.currentPeriodEnd)}`;
+    case "past_due":
+    case "unpaid":
+      return isInGracePeriod(subscription)
+        ? `Your last payment failed. Update your payment method by ${formatDate(subscription.gracePeriodEndsAt)} to keep your plan.`
+        : "Your last payment failed. Update your payment method to restore your plan.";
+    case "incomplete":
+      return "Waiting for your first payment to complete";
+    case "paused":
+      return "Paused";
+    case "canceled":
+    case "incomplete_expired":
+      return subscription.canceledAt ? `Ended on ${formatDate(subscription.canceledAt)}` : "Ended";
+  }
+}
+
+export function useSubscription() {
+  const { user } = useAuth();
+
+  const { data, isLoading } = useQuery<BillingState | null>({
+    queryKey: ['/api/billing/subscription'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled: !!user?.id,
+  });
+
+  return {
+    plan: data?.plan ?? "free",
+    subscription: data?.subscription ?? null,
+    isLoading,
+  };
+}
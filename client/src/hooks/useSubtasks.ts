@@ -0,0 +1,88 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from './useToast';
+import { apiPost, apiPatch, apiPut, apiDelete, apiJson, getQueryFn } from '@/lib/queryClient';
+
+export interface SubtaskItem {
+  id: number;
+  itemId: number;
+  title: string;
+  completed: boolean;
+  position: number;
+}
+
+export interface SubtaskProgress {
+  total: number;
+  completed: number;
+}
+
+export function useSubtasks(itemId: number | null) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/items/${itemId}/subtasks`];
+
+  const { data: subtasks = [], isLoading: loading } = useQuery({
+    queryKey,
+    queryFn: getQueryFn<SubtaskItem[]>({ on401: "throw" }),
+    enabled: itemId !== null,
+  });
+
+  // Item lists embed subtask progress, so refresh them along with the checklist
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ['items'] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error.message || 'Something went wrong',
+      variant: "destructive"
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (title: string) => {
+      const response = await apiPost(`/api/items/${itemId}/subtasks`, { title });
+      return apiJson<SubtaskItem>(response);
+    },
+    onSuccess: invalidate,
+    onError: onError('Failed to add subtask'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: number; title?: string; completed?: boolean }) => {
+      const response = await apiPatch(`/api/items/${itemId}/subtasks/${id}`, data);
+      return apiJson<SubtaskItem>(response);
+    },
+    onSuccess: invalidate,
+    onError: onError('Failed to update subtask'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiDelete(`/api/items/${itemId}/subtasks/${id}`);
+    },
+    onSuccess: invalidate,
+    onError: onError('Failed to delete subtask'),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      const response = await apiPut(`/api/items/${itemId}/subtasks/order`, { ids });
+      return apiJson<SubtaskItem[]>(response);
+    },
+    onSuccess: invalidate,
+    onError: onError('Failed to reorder subtasks'),
+  });
+
+  return {
+    subtasks,
+    loading,
+    addSubtask: createMutation.mutate,
+    updateSubtask: updateMutation.mutate,
+    deleteSubtask: deleteMutation.mutate,
+    reorderSubtasks: reorderMutation.mutate,
+    isAdding: createMutation.isPending,
+  };
+}
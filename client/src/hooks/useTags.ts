@@ -0,0 +1,87 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from './use-auth';
+import { useToast } from './useToast';
+import { apiPost, apiPatch, apiPut, apiDelete, apiJson, getQueryFn } from '@/lib/queryClient';
+
+export interface TagItem {
+  id: number;
+  name: string;
+  color: string;
+}
+
+export function useTags() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: tags = [], isLoading: loading } = useQuery({
+    queryKey: ['/api/tags'],
+    queryFn: getQueryFn<TagItem[]>({ on401: "throw" }),
+    enabled: !!user,
+  });
+
+  // Item lists embed their tags, so refresh them along with the tag list
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+    queryClient.invalidateQueries({ queryKey: ['items'] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error.message || 'Something went wrong',
+      variant: "destructive"
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { name: string; color?: string }) => {
+      const response = await apiPost('/api/tags', data);
+      return apiJson<TagItem>(response);
+    },
+    onSuccess: invalidate,
+    onError: onError('Failed to create tag'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: number; name?: string; color?: string }) => {
+      const response = await apiPatch(`/api/tags/${id}`, data);
+      return apiJson<TagItem>(response);
+    },
+    onSuccess: invalidate,
+    onError: onError('Failed to update tag'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiDelete(`/api/tags/${id}`);
+    },
+    onSuccess: invalidate,
+    onError: onError('Failed to delete tag'),
+  });
+
+  const attachMutation = useMutation({
+    mutationFn: async ({ itemId, tagId, attached }: { itemId: number; tagId: number; attached: boolean }) => {
+      if (attached) {
+        await apiPut(`/api/items/${itemId}/tags/${tagId}`);
+      } else {
+        await apiDelete(`/api/items/${itemId}/tags/${tagId}`);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+    },
+    onError: onError('Failed to update item tags'),
+  });
+
+  return {
+    tags,
+    loading,
+    createTag: createMutation.mutateAsync,
+    updateTag: updateMutation.mutate,
+    deleteTag: deleteMutation.mutate,
+    setItemTag: (itemId: number, tagId: number, attached: boolean) =>
+      attachMutation.mutateAsync({ itemId, tagId, attached }),
+  };
+}
@@ -0,0 +1,51 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from './use-auth';
+import { useToast } from './useToast';
+import { apiPost, apiJson, getQueryFn } from '@/lib/queryClient';
+
+export interface TrashedItem {
+  id: number;
+  item: string;
+  description: string | null;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+export function useTrash({ enabled = true }: { enabled?: boolean } = {}) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: items = [], isLoading: loading } = useQuery({
+    queryKey: ['/api/items/trash'],
+    queryFn: getQueryFn<TrashedItem[]>({ on401: "throw" }),
+    enabled: !!user && enabled,
+    refetchOnMount: 'always',
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiPost(`/api/items/${id}/restore`);
+      return apiJson<TrashedItem>(response);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/items/trash'] });
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+    },
+    onError: (error: Error) => {
+      console.error('Failed to restore item:', error);
+      toast({
+        title: 'Failed to restore item',
+        description: error.message || 'Something went wrong',
+        variant: "destructive"
+      });
+    },
+  });
+
+  return {
+    items,
+    loading,
+    restoreItem: restoreMutation.mutate,
+    isRestoring: restoreMutation.isPending,
+  };
+}
@@ -0,0 +1,53 @@
+import { QueryClient } from '@tanstack/react-query';
+import { reorderCachedItems } from '../items';
+
+jest.mock('../queryClient');
+
+describe('reorderCachedItems', () => {
+  const page = (ids: number[], nextCursor: string | null = null) => ({
+    items: ids.map((id) => ({ id })),
+    pagination: { limit: ids.length, total: 4, nextCursor, hasMore: nextCursor !== null },
+  });
+  const ids = (items: { id: number }[]) => items.map(({ id }) => id);
+
+  it('should reorder plain arrays', () => {
+    const result = reorderCachedItems([{ id: 1 }, { id: 2 }, { id: 3 }], [3, 1, 2]) as { id: number }[];
+
+    expect(ids(result)).toEqual([3, 1, 2]);
+  });
+
+  it('should reorder single pages', () => {
+    const result = reorderCachedItems(page([1, 2]), [2, 1]) as ReturnType<typeof page>;
+
+    expect(ids(result.items)).toEqual([2, 1]);
+    expect(result.pagination.total).toBe(4);
+  });
+
+  it('should reorder across infinite query pages', () => {
+    const data = { pages: [page([1, 2], 'next'), page([3, 4])], pageParams: [null, 'next'] };
+
+    const result = reorderCachedItems(data, [4, 1, 2, 3]) as typeof data;
+
+    expect(result.pages.map((p) => ids(p.items))).toEqual([[4, 1], [2, 3]]);
+    expect(result.pageParams).toEqual([null, 'next']);
+  });
+
+  it('should leave counts and other entries alone', () => {
+    expect(reorderCachedItems(4, [2, 1])).toBe(4);
+    expect(reorderCachedItems(undefined, [2, 1])).toBeUndefined();
+    const other = { total: 4 };
+    expect(reorderCachedItems(other, [2, 1])).toBe(other);
+  });
+
+  it('should update every item query under the user key, including the count', () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(['items', 'user-1', 'count'], 4);
+    queryClient.setQueryData(['items', 'user-1', 'list'], { pages: [page([1, 2])], pageParams: [null] });
+
+    queryClient.setQueriesData({ queryKey: ['items', 'user-1'] }, (data: unknown) => reorderCachedItems(data, [2, 1]));
+
+    expect(queryClient.getQueryData(['items', 'user-1', 'count'])).toBe(4);
+    const list = queryClient.getQueryData<{ pages: ReturnType<typeof page>[] }>(['items', 'user-1', 'list']);
+    expect(ids(list!.pages[0].items)).toEqual([2, 1]);
+  });
+});
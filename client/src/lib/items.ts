@@ -0,0 +1,79 @@
+import type { InfiniteData } from "@tanstack/react-query";
+import { apiGet, apiJson } from "./queryClient";
+
+export interface ItemListParams {
+  status?: "open" | "in_progress" | "completed";
+  tag?: number;
+  q?: string;
+  sort?: "createdAt" | "updatedAt" | "item" | "position";
+  order?: "asc" | "desc";
+  limit?: number;
+  cursor?: string | null;
+}
+
+export interface ItemListResponse<T> {
+  items: T[];
+  pagination: {
+    limit: number;
+    total: number;
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
+// Fetch one page of the user's items from the paginated GET /api/items
+export async function fetchItemPage<T>(params: ItemListParams): Promise<ItemListResponse<T>> {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== "") {
+      search.set(key, String(value));
+    }
+  }
+  const response = await apiGet(`/api/items?${search}`);
+  return apiJson<ItemListResponse<T>>(response);
+}
+
+// Put the listed items in the given order within the slots they already occupy,
+// mirroring how POST /api/items/reorder renumbers positions on the server
+export function applyItemOrder<T extends { id: number }>(list: T[], ids: number[]): T[] {
+  const byId = new Map(list.map((item) => [item.id, item]));
+  const queue = ids.filter((id) => byId.has(id));
+  const moved = new Set(queue);
+  return list.map((item) => moved.has(item.id) ? byId.get(queue.shift()!)! : item);
+}
+
+type ItemPage = ItemListResponse<{ id: number }>;
+
+// Reorder a cached query under the ['items', userId] key. Item lists are cached as
+// plain arrays, single pages or infinite pages; other entries, like counts, are left alone.
+export function reorderCachedItems(data: unknown, ids: number[]): unknown {
+  if (!data || typeof data !== "object") return data;
+  if (Array.isArray(data)) return applyItemOrder(data as { id: number }[], ids);
+  if ("pages" in data) {
+    // Reorder across loaded pages as one list, then split it back up
+    const infinite = data as InfiniteData<ItemPage>;
+    const all = applyItemOrder(infinite.pages.flatMap((page) => page.items), ids);
+    let offset = 0;
+    return {
+      ...infinite,
+      pages: infinite.pages.map((page) => {
+        const items = all.slice(offset, offset + page.items.length);
+        offset += page.items.length;
+        return { ...page, items };
+      }),
+    };
+  }
+  if ("items" in data) {
+    const page = data as ItemPage;
+    return { ...page, items: applyItemOrder(page.items, ids) };
+  }
+  return data;
+}
+
+// Move the item at `from` so it lands at `to`, returning the new id order
+export function moveItemId(ids: number[], from: number, to: number): number[] {
+  const next = [...ids];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
@@ -5,19 +5,16 @@ interface EmailParams {
   to: string;
   subject: string;
   text: string;
-  html?: string;
 }
 
 /**
- * Send an email through the backend API
- * This provides a client-side wrapper around the SendGrid email functionality
+ * Send an email from the signed-in user through the backend API
+ * The server picks the sender address, sets Reply-To to the user and renders
+ * the HTML part from the text, so only plain text is sent from here
  */
 export async function sendEmail(params: EmailParams): Promise<boolean> {
   try {
-    const response = await apiRequest("POST", "/api/send-email", {
-      ...params,
-      from: "noreply@replit.com" // Use verified sender
-    });
+    const response = await apiRequest("POST", "/api/send-email", params);
 
     if (!response.ok) {
       throw new Error(`Failed to send email: ${response.statusText}`);
@@ -42,7 +39,6 @@ export async function sendContactNotification(
   return sendEmail({
     to,
     subject,
-    text: message,
-    html: message.replace(/\n/g, '<br>')
+    text: message
   });
-}
\ No newline at end of file
+}
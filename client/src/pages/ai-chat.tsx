@@ -3,9 +3,11 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { MessageCircle, Zap, Clock, Info } from "lucide-react";
 import { useState, useEffect, useCallback, useRef } from "react";
-import { apiGet, apiPost, apiPatch, apiDelete, apiJson } from "@/lib/queryClient";
+import { apiGet, apiPost, apiJson } from "@/lib/queryClient";
 import { ChatKit, useChatKit } from "@openai/chatkit-react";
 import { TodoList } from "@/components/TodoList";
+import { ThreadSidebar } from "@/components/ThreadSidebar";
+import { useAiThreads } from "@/hooks/useAiThreads";
 import { useQueryClient } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 
@@ -16,6 +18,21 @@ const AIChat = () => {
   const clientSecretRef = useRef<string | null>(null);
   const pendingRequestRef = useRef<Promise<string> | null>(null);
   const queryClient = useQueryClient();
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const restoredThreadRef = useRef(false);
+  // The open thread, for ChatKit handlers that run before the next render
+  const activeThreadIdRef = useRef<string | null>(null);
+  const {
+    threads,
+    loading: threadsLoading,
+    showArchived,
+    setShowArchived,
+    saveThread,
+    syncThread,
+    renameThread,
+    setArchived,
+    deleteThread,
+  } = useAiThreads();
 
   // Helper to refresh todos via React Query
   const refreshTodos = useCallback(() => {
@@ -83,147 +100,40 @@ const AIChat = () => {
     },
     theme: 'light', // Can be 'light' or 'dark'
 
+    // Persist every thread ChatKit opens so it shows up in the sidebar
+    onThreadChange: ({ threadId }) => {
+      activeThreadIdRef.current = threadId;
+      setActiveThreadId(threadId);
+      if (threadId) saveThread(threadId);
+    },
+
+    // Save the finished exchange so the conversation gets its messages and a title
+    onResponseEnd: () => {
+      if (activeThreadIdRef.current) syncThread(activeThreadIdRef.current);
+    },
+
     // Error handler for detailed error diagnostics
     onError: ({ error }) => {
       console.error('[ChatKit ERROR]', error);
     },
 
-    // Client tools: execute in browser, can call localhost APIs
+    // Client tools are forwarded to the server, which validates and executes them
     onClientTool: async ({ name, params }: { name: string; params: Record<string, any> }) => {
       console.log('[ChatKit] Client tool called:', name, params);
 
       try {
-        switch (name) {
-          case 'getTodos': {
-            // Fetch todos from your Express API
-            const response = await apiGet('/api/items');
-            const fetchedTodos = await apiJson<Array<{
-              id: number;
-              item: string;
-              status: string;
-              createdAt: string;
-              updatedAt: string;
-            }>>(response);
-
-            // Refresh the React Query cache
-            refreshTodos();
-
-            return {
-              success: true,
-              todos: fetchedTodos.map(t => ({
-                id: t.id,
-                text: t.item,
-                status: t.status,
-                createdAt: t.createdAt,
-                updatedAt: t.updatedAt,
-              })),
-              count: fetchedTodos.length,
-            };
-          }
-
-          case 'createTodo': {
-            // Create a new todo via your Express API
-            // Support both 'text' (standard) and 'item' (legacy) parameter names
-            const todoText = params.text ?? params.item;
-            if (!todoText) {
-              return {
-                success: false,
-                error: 'Todo text is required',
-              };
-            }
-
-            const response = await apiPost('/api/items', { item: todoText });
-            const created = await apiJson<{
-              id: number;
-              item: string;
-              status: string;
-              createdAt: string;
-              updatedAt: string;
-            }>(response);
-
-            // Refresh the React Query cache to update TodoList
-            refreshTodos();
-
-            return {
-              success: true,
-              todo: {
-                id: created.id,
-                text: created.item,
-                status: created.status,
-                createdAt: created.createdAt,
-                updatedAt: created.updatedAt,
-              },
-            };
-          }
-
-          case 'updateTodoStatus': {
-            // Update todo status via your Express API
-            const todoId = Number(params.id); // Parse string to number
-            const newStatus = params.status;
-
-            if (!todoId || isNaN(todoId) || !newStatus) {
-              return {
-                success: false,
-                error: 'Valid Todo ID and status are required',
-              };
-            }
-
-            if (!['open', 'in_progress', 'completed'].includes(newStatus)) {
-              return {
-                success: false,
-                error: 'Invalid status. Must be one of: open, in_progress, completed',
-              };
-            }
-
-            const response = await apiPatch(`/api/items/${todoId}/status`, { status: newStatus });
-            const updated = await apiJson<{
-              id: number;
-              item: string;
-              status: string;
-              createdAt: string;
-              updatedAt: string;
-            }>(response);
-
-            // Refresh the React Query cache to update TodoList
-            refreshTodos();
-
-            return {
-              success: true,
-              todo: {
-                id: updated.id,
-                text: updated.item,
-                status: updated.status,
-                updatedAt: updated.updatedAt,
-              },
-            };
-          }
-
-          case 'deleteTodo': {
-            // Delete a todo via your Express API
-            const todoId = Number(params.id); // Parse string to number
-
-            if (!todoId || isNaN(todoId)) {
-              return {
-                success: false,
-                error: 'Valid Todo ID is required',
-              };
-            }
-
-            await apiDelete(`/api/items/${todoId}`);
-
-            // Refresh the React Query cache to update TodoList
-            refreshTodos();
-
-            return {
-              success: true,
-              message: 'Todo deleted successfully',
-              deletedId: todoId,
-            };
-          }
-
-          default:
-            throw new Error(`Unknown client tool: ${name}`);
-        }
+        // Older agent configs send 'item' instead of 'text' for createTodo
+        const toolParams = name === 'createTodo' && params.text === undefined && params.item !== undefined
+          ? { text: params.item }
+          : params;
+
+        const response = await apiPost(`/api/chatkit/tools/${encodeURIComponent(name)}`, toolParams);
+        const result = await apiJson<Record<string, unknown>>(response);
+
+        // Refresh the React Query cache to update TodoList
+        refreshTodos();
+
+        return result;
       } catch (error: any) {
         console.error('[ChatKit] Client tool error:', error);
         console.error('[ChatKit] Client tool error details:', {
@@ -255,6 +165,28 @@ const AIChat = () => {
     },
   });
 
+  // Reopen the most recent conversation once the saved threads have loaded
+  useEffect(() => {
+    if (restoredThreadRef.current || status !== 'ready' || threadsLoading || showArchived) return;
+    restoredThreadRef.current = true;
+    if (threads.length > 0) {
+      chatkit.setThreadId(threads[0].id).catch((error) => {
+        console.error('Failed to restore thread:', error);
+      });
+    }
+  }, [status, threadsLoading, showArchived, threads, chatkit]);
+
+  const handleSelectThread = useCallback((threadId: string | null) => {
+    chatkit.setThreadId(threadId).catch((error) => {
+      console.error('Failed to switch thread:', error);
+    });
+  }, [chatkit]);
+
+  const handleDeleteThread = useCallback(async (threadId: string) => {
+    await deleteThread(threadId);
+    if (threadId === activeThreadId) handleSelectThread(null);
+  }, [deleteThread, activeThreadId, handleSelectThread]);
+
   if (!user) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -359,8 +291,21 @@ const AIChat = () => {
 
   return (
     <div className="h-[calc(100vh-4rem)] flex flex-col">
-      {/* Side-by-side layout: Todo List + Chat */}
+      {/* Side-by-side layout: Threads + Todo List + Chat */}
       <div className="flex-1 flex overflow-hidden">
+        {/* Saved conversations */}
+        <ThreadSidebar
+          threads={threads}
+          loading={threadsLoading}
+          activeThreadId={activeThreadId}
+          showArchived={showArchived}
+          onShowArchivedChange={setShowArchived}
+          onSelect={handleSelectThread}
+          onRename={renameThread}
+          onArchive={setArchived}
+          onDelete={handleDeleteThread}
+        />
+
         {/* Todo List Sidebar */}
         <TodoList onTodoChange={refreshTodos} />
 
@@ -1,27 +1,44 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
+import { ToastAction } from "@/components/ui/toast";
 import { useToast } from "@/hooks/useToast";
 import { SearchBar } from "@/components/SearchBar";
 import { Plus } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { fetchItemPage } from "@/lib/items";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { useUser } from "@/hooks/useUser";
+import { usePlans } from "@/hooks/usePlans";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Trash2 } from "lucide-react";
+import { Pencil, Trash2, GripVertical, Archive, History } from "lucide-react";
+import { useItemReorder } from "@/hooks/useItemReorder";
+import { useTrash } from "@/hooks/useTrash";
+import { useDragReorder } from "@/hooks/useDragReorder";
+import { cn } from "@/lib/utils";
+import { ItemEditDialog, PRIORITY_LABELS, type EditableItem } from "@/components/ItemEditDialog";
+import { formatDueDate } from "@shared/dates";
+import { ItemDetailDrawer, type DetailItem } from "@/components/ItemDetailDrawer";
 
 export default function Dashboard() {
   const [, setLocation] = useLocation();
   const { user, isLoading } = useAuth();
   const { user: userData } = useUser();
+  const { getPlan } = usePlans();
+  const currentPlan = getPlan(userData?.subscriptionType);
+  const maxItems = currentPlan?.entitlements.maxItems ?? null;
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [isNewItemOpen, setIsNewItemOpen] = useState(false);
   const [newItem, setNewItem] = useState("");
   const [showUpgradeDialog, setShowUpgradeDialog] = useState(false);
+  const [editingItem, setEditingItem] = useState<EditableItem | null>(null);
+  const [viewingItem, setViewingItem] = useState<DetailItem | null>(null);
 
   // Handle checkout success from URL params
   useEffect(() => {
@@ -39,27 +56,72 @@ export default function Dashboard() {
     }
   }, [toast]);
 
-  const { data: items = [], refetch } = useQuery({
-    queryKey: ['items', user?.id],
+  // Search on the server once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['items', user?.id, 'list', debouncedSearch],
+    queryFn: ({ pageParam }) => fetchItemPage<EditableItem>({
+      q: debouncedSearch,
+      sort: 'position',
+      order: 'asc',
+      limit: 20,
+      cursor: pageParam,
+    }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.pagination.nextCursor,
+    enabled: !!user,
+    refetchOnMount: 'always',
+    staleTime: 0,
+  });
+
+  // Unfiltered total, used for the free plan item limit
+  const { data: itemCount = 0 } = useQuery({
+    queryKey: ['items', user?.id, 'count'],
     queryFn: async () => {
-      const response = await apiRequest('GET', `/api/items`);
-      const data = await response.json();
-      return Array.isArray(data) ? data : [];
+      const page = await fetchItemPage<EditableItem>({ limit: 1 });
+      return page.pagination.total;
     },
     enabled: !!user,
     refetchOnMount: 'always',
     staleTime: 0,
   });
 
+  const items = data?.pages.flatMap((page) => page.items) ?? [];
+
+  // Drag rows to change the manual order of the loaded items
+  const { reorderItems } = useItemReorder();
+  const { getDragProps, draggingId, overId } = useDragReorder(
+    items.map((item) => item.id),
+    reorderItems
+  );
+
+  const refetch = () => queryClient.invalidateQueries({ queryKey: ['items', user?.id] });
+
+  const { restoreItem } = useTrash({ enabled: false });
+
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
       await apiRequest("DELETE", `/api/items/${id}`);
     },
-    onSuccess: () => {
+    onSuccess: (_data, id) => {
       refetch();
       toast({
-        title: "Item deleted",
-        description: "The item has been successfully deleted.",
+        title: "Item moved to trash",
+        description: "You can restore it from the trash.",
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => restoreItem(id)}>
+            Undo
+          </ToastAction>
+        ),
       });
     },
   });
@@ -104,12 +166,8 @@ export default function Dashboard() {
     return null;
   }
 
-  const filteredItems = items.filter(
-    (item: { item: string; id: number }) => item.item.toLowerCase().includes(search.toLowerCase()),
-  );
-
   const handleNewItem = () => {
-    if (userData?.subscriptionType === 'free' && items.length >= 5) {
+    if (maxItems !== null && itemCount >= maxItems) {
       setShowUpgradeDialog(true);
     } else {
       setIsNewItemOpen(true);
@@ -135,9 +193,14 @@ export default function Dashboard() {
     <div className="container mx-auto py-8 space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-bold">Your List</h1>
-        <Button onClick={handleNewItem}>
-          <Plus className="h-4 w-4 mr-2" /> New Item
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setLocation("/trash")}>
+            <Archive className="h-4 w-4 mr-2" /> Trash
+          </Button>
+          <Button onClick={handleNewItem}>
+            <Plus className="h-4 w-4 mr-2" /> New Item
+          </Button>
+        </div>
       </div>
 
       <Dialog open={isNewItemOpen} onOpenChange={setIsNewItemOpen}>
@@ -164,7 +227,7 @@ export default function Dashboard() {
             <DialogTitle>Item Limit Reached</DialogTitle>
           </DialogHeader>
           <div className="py-4">
-            <p>You've reached the maximum of 5 items on the free plan. Upgrade to Pro for unlimited items!</p>
+            <p>You've reached the maximum of {maxItems} items on the {currentPlan?.name} plan. Upgrade your plan for more items!</p>
           </div>
           <div className="flex justify-end gap-4">
             <Button variant="outline" onClick={() => setShowUpgradeDialog(false)}>Cancel</Button>
@@ -173,33 +236,92 @@ export default function Dashboard() {
         </DialogContent>
       </Dialog>
 
+      <ItemEditDialog
+        item={editingItem}
+        onOpenChange={(open) => !open && setEditingItem(null)}
+        onSaved={() => refetch()}
+      />
+
+      <ItemDetailDrawer
+        item={viewingItem}
+        onOpenChange={(open) => !open && setViewingItem(null)}
+      />
+
       <SearchBar value={search} onChange={setSearch} />
 
       <div className="mt-4">
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-[40px]" />
               <TableHead>Item</TableHead>
-              <TableHead className="w-[100px]">Actions</TableHead>
+              <TableHead className="w-[100px]">Priority</TableHead>
+              <TableHead className="w-[120px]">Due</TableHead>
+              <TableHead className="w-[160px]">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {filteredItems.map((item) => (
-              <TableRow key={item.id}>
-                <TableCell>{item.item}</TableCell>
+            {items.map((item) => (
+              <TableRow
+                key={item.id}
+                {...getDragProps(item.id)}
+                className={cn(
+                  draggingId === item.id && "opacity-50",
+                  overId === item.id && draggingId !== item.id && "border-t-2 border-t-primary"
+                )}
+              >
+                <TableCell className="cursor-grab text-muted-foreground" title="Drag to reorder">
+                  <GripVertical className="h-4 w-4" />
+                </TableCell>
                 <TableCell>
-                  <Button
-                    variant="destructive"
-                    size="icon"
-                    onClick={() => deleteMutation.mutate(item.id)}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  <div>{item.item}</div>
+                  {item.description && (
+                    <div className="text-sm text-muted-foreground line-clamp-2">{item.description}</div>
+                  )}
+                </TableCell>
+                <TableCell>{item.priority ? PRIORITY_LABELS[item.priority] : "—"}</TableCell>
+                <TableCell>{item.dueDate ? formatDueDate(item.dueDate) : "—"}</TableCell>
+                <TableCell>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setViewingItem(item)}
+                      title="History"
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setEditingItem(item)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(item.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </TableCell>
               </TableRow>
             ))}
           </TableBody>
         </Table>
+        {hasNextPage && (
+          <div className="flex justify-center mt-4">
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage ? "Loading..." : "Load more"}
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,117 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/useToast";
+import { apiPost, apiJson } from "@/lib/queryClient";
+import type { EmailCategory, EmailPreferences } from "@shared/schema";
+
+const CATEGORY_LABELS: Record<EmailCategory, string> = {
+  item_activity: "Item activity (new items)",
+  reminders: "Due date reminders",
+  digests: "Progress digests",
+  billing: "Billing updates (receipts, failed payments)",
+};
+
+interface UnsubscribeState {
+  email?: string;
+  category: EmailCategory;
+  preferences: Record<EmailCategory, boolean>;
+}
+
+/**
+ * Preference center reached from the unsubscribe link in every email. It works
+ * without signing in: the signed token in the link identifies the account.
+ */
+export default function EmailPreferencesPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const token = new URLSearchParams(window.location.search).get("token") ?? "";
+  const queryKey = [`/api/email/unsubscribe?token=${encodeURIComponent(token)}`];
+
+  const { data, isLoading, error } = useQuery<UnsubscribeState>({
+    queryKey,
+    enabled: Boolean(token),
+  });
+
+  const updatePreferences = useMutation({
+    mutationFn: async (preferences?: EmailPreferences) => {
+      const response = await apiPost(`/api/email/unsubscribe`, { token, ...(preferences && { preferences }) });
+      return apiJson<UnsubscribeState>(response);
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData<UnsubscribeState>(queryKey, (current) => current && { ...current, preferences: updated.preferences });
+      toast({
+        title: "Success",
+        description: "Email preferences updated successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update email preferences",
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-10">
+      <Card className="w-full max-w-lg mx-auto">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold">Email Preferences</CardTitle>
+          <CardDescription>
+            {data?.email
+              ? `Choose which emails we send to ${data.email}.`
+              : "Choose which emails we send you."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!token || error || !data ? (
+            <p className="text-sm text-muted-foreground">
+              This unsubscribe link is invalid. Sign in and open Settings to manage your email preferences.
+            </p>
+          ) : (
+            <>
+              {data.preferences[data.category] ? (
+                <Button
+                  className="w-full"
+                  onClick={() => updatePreferences.mutate(undefined)}
+                  disabled={updatePreferences.isPending}
+                >
+                  Unsubscribe from {CATEGORY_LABELS[data.category].toLowerCase()}
+                </Button>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  You are unsubscribed from {CATEGORY_LABELS[data.category].toLowerCase()}.
+                </p>
+              )}
+              <div className="space-y-3">
+                {(Object.keys(CATEGORY_LABELS) as EmailCategory[]).map((category) => (
+                  <div key={category} className="flex items-center space-x-4">
+                    <Switch
+                      id={`email-category-${category}`}
+                      checked={data.preferences[category]}
+                      disabled={updatePreferences.isPending}
+                      onCheckedChange={(checked) => updatePreferences.mutate({ [category]: checked })}
+                    />
+                    <Label htmlFor={`email-category-${category}`}>{CATEGORY_LABELS[category]}</Label>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
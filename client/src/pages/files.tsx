@@ -4,15 +4,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/hooks/use-auth';
-import { useUser } from '@/hooks/useUser';
 import { useFiles } from '@/hooks/useFiles';
+import { usePlans } from '@/hooks/usePlans';
 import { HardDrive, Upload, List, AlertCircle } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
 
 export default function Files() {
   const { user, isLoading } = useAuth();
-  const { user: userData } = useUser();
-  const { files, loading, totalSize, totalFiles } = useFiles();
+  const { totalSize, totalFiles, limits, plan, usageError, refreshUsage } = useFiles();
+  const { getPlan } = usePlans();
 
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 B';
@@ -22,12 +23,13 @@ export default function Files() {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const isPro = userData?.subscriptionType === 'pro';
-  const maxFiles = isPro ? 100 : 10;
-  const maxSize = isPro ? 1024 * 1024 * 1024 : 100 * 1024 * 1024; // 1GB pro, 100MB free
-  const usagePercentage = (totalSize / maxSize) * 100;
+  const isPaid = !!plan && plan !== 'free';
+  const planName = getPlan(plan)?.name ?? 'Free';
+  const maxFiles = limits?.maxFiles ?? 0;
+  const maxSize = limits?.maxTotalBytes ?? 0;
+  const usagePercentage = maxSize > 0 ? (totalSize / maxSize) * 100 : 0;
 
-  if (isLoading) {
+  if (isLoading || (user && !limits && !usageError)) {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="flex items-center justify-center h-64">
@@ -50,6 +52,22 @@ export default function Files() {
     );
   }
 
+  if (!limits) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-4">
+            <span>Could not load your storage usage: {usageError}</span>
+            <Button variant="outline" size="sm" onClick={() => refreshUsage()}>
+              Try again
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-8">
@@ -93,12 +111,12 @@ export default function Files() {
             </div>
             
             <div className="text-center p-4 bg-muted rounded-lg">
-              <div className="text-2xl font-bold">{isPro ? "Pro" : "Free"}</div>
+              <div className="text-2xl font-bold">{planName}</div>
               <div className="text-sm text-muted-foreground">
                 Plan
               </div>
-              <Badge variant={isPro ? "default" : "secondary"} className="mt-2">
-                {isPro ? "Unlimited features" : "Basic features"}
+              <Badge variant={isPaid ? "default" : "secondary"} className="mt-2">
+                {isPaid ? "Unlimited features" : "Basic features"}
               </Badge>
             </div>
           </div>
@@ -123,7 +141,7 @@ export default function Files() {
             <CardHeader>
               <CardTitle>Upload Files</CardTitle>
               <CardDescription>
-                Upload files to your secure storage. {isPro ? 'Pro users' : 'Free users'} can upload up to {maxFiles} files 
+                Upload files to your secure storage. {planName} users can upload up to {maxFiles} files 
                 with a total size limit of {formatFileSize(maxSize)}.
               </CardDescription>
             </CardHeader>
@@ -132,19 +150,19 @@ export default function Files() {
                 <Alert>
                   <AlertCircle className="h-4 w-4" />
                   <AlertDescription>
-                    You've reached your file limit. Please delete some files or upgrade to Pro for more storage.
+                    You've reached your file limit. Please delete some files or upgrade your plan for more storage.
                   </AlertDescription>
                 </Alert>
               ) : usagePercentage >= 100 ? (
                 <Alert>
                   <AlertCircle className="h-4 w-4" />
                   <AlertDescription>
-                    You've reached your storage limit. Please delete some files or upgrade to Pro for more storage.
+                    You've reached your storage limit. Please delete some files or upgrade your plan for more storage.
                   </AlertDescription>
                 </Alert>
               ) : (
                 <FileUpload
-                  maxSize={isPro ? 50 * 1024 * 1024 : 10 * 1024 * 1024} // 50MB pro, 10MB free per file
+                  maxSize={limits?.maxFileBytes}
                   multiple={true}
                 />
               )}
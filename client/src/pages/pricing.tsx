@@ -1,20 +1,51 @@
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/useToast";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardContent, CardTitle, CardFooter } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Check, Loader2 } from "lucide-react";
-import { useEffect } from "react";
-import { apiPost, apiJson, getQueryFn } from "@/lib/queryClient";
+import { useEffect, useState } from "react";
+import { apiPost, apiJson } from "@/lib/queryClient";
+import { useSubscription, describeSubscription, type BillingState } from "@/hooks/useSubscription";
+import { usePlans, formatPrice, describeEntitlements, type BillingInterval } from "@/hooks/usePlans";
+import type { SubscriptionType } from "@shared/schema";
 
-async function createCheckoutSession(): Promise<{ url: string }> {
+interface PlanChoice {
+  plan: SubscriptionType;
+  interval: BillingInterval;
+}
+
+interface PlanChangePreview extends PlanChoice {
+  amountDue: number;
+  currency: string;
+  // Sent back when confirming so the charge matches the preview
+  prorationDate: number;
+  prorationSignature: string;
+  lines: { description: string | null; amount: number }[];
+}
+
+async function createCheckoutSession({ plan, interval }: PlanChoice): Promise<{ url: string }> {
   const response = await apiPost('/api/create-checkout-session', {
     mode: 'subscription',
+    plan,
+    interval,
   });
   return apiJson<{ url: string }>(response);
 }
 
+async function previewPlanChange(choice: PlanChoice): Promise<PlanChangePreview> {
+  const response = await apiPost('/api/billing/change-plan', { ...choice, preview: true });
+  return apiJson<PlanChangePreview>(response);
+}
+
+async function applyPlanChange({ plan, interval, prorationDate, prorationSignature }: PlanChangePreview): Promise<BillingState> {
+  const response = await apiPost('/api/billing/change-plan', { plan, interval, prorationDate, prorationSignature });
+  return apiJson<BillingState>(response);
+}
+
 async function createPortalSession(): Promise<{ url: string }> {
   const response = await apiPost('/api/create-portal-session', {});
   return apiJson<{ url: string }>(response);
@@ -22,6 +53,7 @@ async function createPortalSession(): Promise<{ url: string }> {
 
 function Pricing() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const { user, isLoading: authLoading } = useAuth();
   const [, setLocation] = useLocation();
 
@@ -49,17 +81,20 @@ function Pricing() {
     }
   }, [toast]);
 
-  const { data: userData, isLoading: userLoading } = useQuery({
-    queryKey: ['/api/users/profile'],
-    queryFn: getQueryFn<any>({ on401: "returnNull" }),
-    enabled: !!user?.id
-  });
+  const { plan: currentPlan, subscription, isLoading: subscriptionLoading } = useSubscription();
+  const { plans: catalog, getPlan, isLoading: plansLoading } = usePlans();
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>("month");
+  const [pendingChange, setPendingChange] = useState<PlanChangePreview | null>(null);
+
+  // Start on the interval the user already pays by
+  useEffect(() => {
+    if (subscription?.interval) setBillingInterval(subscription.interval);
+  }, [subscription?.interval]);
 
   // Checkout session mutation
   const checkoutMutation = useMutation({
     mutationFn: createCheckoutSession,
     onSuccess: (data) => {
-      console.log('[Pricing] Redirecting to checkout:', data.url);
       window.location.href = data.url;
     },
     onError: (error: Error) => {
@@ -76,7 +111,6 @@ function Pricing() {
   const portalMutation = useMutation({
     mutationFn: createPortalSession,
     onSuccess: (data) => {
-      console.log('[Pricing] Redirecting to portal:', data.url);
       window.location.href = data.url;
     },
     onError: (error: Error) => {
@@ -89,64 +123,108 @@ function Pricing() {
     }
   });
 
-  const isPro = userData?.subscriptionType === 'pro';
+  // Plan change preview, confirmed in a dialog before anything is charged
+  const previewMutation = useMutation({
+    mutationFn: previewPlanChange,
+    onSuccess: (preview) => setPendingChange(preview),
+    onError: (error: Error) => {
+      console.error('[Pricing] Error previewing plan change:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to price the plan change",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const changePlanMutation = useMutation({
+    mutationFn: applyPlanChange,
+    onSuccess: (billing, change) => {
+      queryClient.setQueryData(['/api/billing/subscription'], billing);
+      queryClient.invalidateQueries({ queryKey: ['/api/users/profile'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/files/usage'] });
+      setPendingChange(null);
+      toast({
+        title: "Plan Changed",
+        description: `You're now on the ${getPlan(change.plan)?.name ?? change.plan} plan, billed ${change.interval === 'year' ? 'annually' : 'monthly'}.`,
+      });
+    },
+    onError: (error: Error) => {
+      console.error('[Pricing] Error changing plan:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change plan",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const subscriptionSummary = describeSubscription(subscription);
+  // Users with a subscription manage it in the portal, e.g. to fix a failed payment
+  const hasSubscription = currentPlan !== 'free' || subscription?.status === 'past_due' || subscription?.status === 'unpaid';
+  // Only subscriptions in good standing can move to another plan or interval
+  const canChangePlan = subscription?.status === 'active' || subscription?.status === 'trialing';
 
-  const handleUpgrade = () => {
+  const handleUpgrade = (plan: SubscriptionType) => {
     if (!user?.id) {
       setLocation("/login");
       return;
     }
 
-    console.log('[Pricing] Creating checkout session for user:', user.id);
-    checkoutMutation.mutate();
+    checkoutMutation.mutate({ plan, interval: billingInterval });
+  };
+
+  const handleChangePlan = (plan: SubscriptionType) => {
+    previewMutation.mutate({ plan, interval: billingInterval });
   };
 
   const handleManageSubscription = () => {
     if (!user?.id) return;
 
-    console.log('[Pricing] Creating portal session for user:', user.id);
     portalMutation.mutate();
   };
 
-  const plans = [
-    {
-      name: "Free",
-      price: "$0",
-      period: "/forever",
-      description: "Perfect for getting started",
-      features: [
-        "10 files maximum",
-        "100MB total storage",
-        "10MB per file limit",
-        "Basic file management",
-        "Secure cloud storage"
-      ],
-      buttonText: isPro ? "Current Plan" : "Current Plan",
-      isCurrentPlan: !isPro,
-      onClick: () => {},
-      disabled: true
-    },
-    {
-      name: "Pro",
-      price: "$9.99",
-      period: "/month",
-      description: "Everything you need for professional use",
-      features: [
-        "100 files maximum",
-        "1GB total storage",
-        "50MB per file limit",
-        "Advanced file management",
-        "Priority support",
-        "Secure cloud storage"
-      ],
-      buttonText: isPro ? "Manage Subscription" : "Upgrade to Pro",
-      isCurrentPlan: isPro,
-      onClick: isPro ? handleManageSubscription : handleUpgrade,
-      disabled: false
-    }
-  ];
+  const plans = catalog.map((plan) => {
+    const price = plan.prices[billingInterval];
+    const isFree = price.amount === 0;
+    const isCurrentPlan = plan.id === currentPlan;
+    // Prices outside the catalog have no interval; treat them as the one shown
+    const isCurrentPrice = isCurrentPlan && (subscription?.interval ?? billingInterval) === billingInterval;
+    // Subscribers switch paid plans in place; everything else about their subscription is in the portal
+    const action = isFree ? "none"
+      : !hasSubscription ? "checkout"
+      : canChangePlan && !isCurrentPrice ? "change"
+      : "portal";
+
+    return {
+      id: plan.id,
+      name: plan.name,
+      price: formatPrice(price),
+      period: isFree ? "/forever" : billingInterval === "year" ? "/year" : "/month",
+      description: plan.description,
+      features: [...describeEntitlements(plan.entitlements), ...plan.features],
+      buttonText: {
+        none: isCurrentPlan ? "Current Plan" : "Free Plan",
+        checkout: price.available ? `Upgrade to ${plan.name}` : "Coming Soon",
+        change: !price.available ? "Coming Soon"
+          : isCurrentPlan ? `Switch to ${billingInterval === "year" ? "Annual" : "Monthly"} Billing`
+          : `Switch to ${plan.name}`,
+        portal: "Manage Subscription",
+      }[action],
+      isCurrentPlan,
+      summary: subscriptionSummary,
+      action,
+      onClick: action === "checkout" ? () => handleUpgrade(plan.id)
+        : action === "change" ? () => handleChangePlan(plan.id)
+        : handleManageSubscription,
+      disabled: isFree || ((action === "checkout" || action === "change") && !price.available),
+    };
+  });
 
-  if (authLoading || userLoading) {
+  const isBusy = checkoutMutation.isPending || portalMutation.isPending || previewMutation.isPending || changePlanMutation.isPending;
+  const pendingPlanName = pendingChange ? getPlan(pendingChange.plan)?.name ?? pendingChange.plan : "";
+
+  if (authLoading || subscriptionLoading || plansLoading) {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="flex items-center justify-center h-64">
@@ -163,11 +241,21 @@ function Pricing() {
         <p className="text-xl text-muted-foreground">
           Select the perfect plan for your file storage needs
         </p>
+        <Tabs
+          value={billingInterval}
+          onValueChange={(value) => setBillingInterval(value as BillingInterval)}
+          className="mt-6 inline-flex"
+        >
+          <TabsList>
+            <TabsTrigger value="month">Monthly</TabsTrigger>
+            <TabsTrigger value="year">Annual (2 months free)</TabsTrigger>
+          </TabsList>
+        </Tabs>
       </div>
 
-      <div className="grid md:grid-cols-2 gap-8 max-w-4xl mx-auto">
-        {plans.map((plan, index) => (
-          <Card key={index} className={`relative ${plan.isCurrentPlan ? 'ring-2 ring-primary' : ''}`}>
+      <div className="grid md:grid-cols-3 gap-8 max-w-6xl mx-auto">
+        {plans.map((plan) => (
+          <Card key={plan.id} className={`relative ${plan.isCurrentPlan ? 'ring-2 ring-primary' : ''}`}>
             {plan.isCurrentPlan && (
               <div className="absolute -top-3 left-1/2 transform -translate-x-1/2">
                 <span className="bg-primary text-primary-foreground px-3 py-1 rounded-full text-sm font-medium">
@@ -185,6 +273,9 @@ function Pricing() {
                 </span>
               </div>
               <p className="text-muted-foreground">{plan.description}</p>
+              {plan.isCurrentPlan && plan.summary && (
+                <p className="text-sm font-medium">{plan.summary}</p>
+              )}
             </CardHeader>
             
             <CardContent>
@@ -202,13 +293,23 @@ function Pricing() {
               <Button
                 className="w-full"
                 onClick={plan.onClick}
-                disabled={plan.disabled || checkoutMutation.isPending || portalMutation.isPending}
+                disabled={plan.disabled || isBusy}
                 variant={plan.isCurrentPlan ? "outline" : "default"}
               >
-                {(checkoutMutation.isPending && !isPro) || (portalMutation.isPending && isPro) ? (
+                {checkoutMutation.isPending && checkoutMutation.variables?.plan === plan.id ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    {isPro ? "Opening Portal..." : "Starting Checkout..."}
+                    Starting Checkout...
+                  </>
+                ) : previewMutation.isPending && previewMutation.variables?.plan === plan.id ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Calculating...
+                  </>
+                ) : portalMutation.isPending && plan.action === "portal" ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Opening Portal...
                   </>
                 ) : (
                   plan.buttonText
@@ -222,9 +323,54 @@ function Pricing() {
       <div className="text-center mt-12">
         <p className="text-muted-foreground">
           All plans include secure cloud storage and basic support. 
-          Pro plan includes priority support and advanced features.
+          Paid plans include priority support and advanced features.
         </p>
       </div>
+
+      <AlertDialog open={!!pendingChange} onOpenChange={(open) => !open && !changePlanMutation.isPending && setPendingChange(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Switch to {pendingPlanName}, billed {pendingChange?.interval === "year" ? "annually" : "monthly"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingChange && pendingChange.amountDue > 0
+                ? `You'll be charged ${formatPrice({ amount: pendingChange.amountDue, currency: pendingChange.currency })} now, after credit for the unused time on your current plan.`
+                : "Nothing is due now. Credit for the unused time on your current plan goes toward your next invoices."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {pendingChange && pendingChange.lines.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {pendingChange.lines.map((line, lineIndex) => (
+                <li key={lineIndex} className="flex justify-between gap-4">
+                  <span className="text-muted-foreground">{line.description}</span>
+                  <span>{formatPrice({ amount: line.amount, currency: pendingChange.currency })}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={changePlanMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={changePlanMutation.isPending}
+              onClick={(event) => {
+                // Keep the dialog open until the change goes through
+                event.preventDefault();
+                if (pendingChange) changePlanMutation.mutate(pendingChange);
+              }}
+            >
+              {changePlanMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Switching...
+                </>
+              ) : (
+                "Confirm Change"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -6,10 +6,40 @@ import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Loader2 } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useState, useEffect } from "react";
 import { useUser } from "@/hooks/useUser";
+import { useSubscription, describeSubscription } from "@/hooks/useSubscription";
+import { usePlans } from "@/hooks/usePlans";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest, apiPost, apiJson } from "@/lib/queryClient";
+import type { EmailCategory, EmailPreferences } from "@shared/schema";
+
+// Lead times offered for due date reminders, in minutes
+const REMINDER_OPTIONS = [
+  { minutes: 15, label: "15 minutes" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 180, label: "3 hours" },
+  { minutes: 1440, label: "1 day" },
+  { minutes: 2880, label: "2 days" },
+  { minutes: 10080, label: "1 week" },
+];
+
+const DIGEST_OPTIONS = [
+  { value: "off", label: "Off" },
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly (Mondays)" },
+];
+
+const TIMEZONES = Intl.supportedValuesOf("timeZone");
+
+// Email categories users can opt out of; every email links back here
+const EMAIL_CATEGORY_OPTIONS: { category: EmailCategory; label: string }[] = [
+  { category: "item_activity", label: "Item activity (new items)" },
+  { category: "reminders", label: "Due date reminders" },
+  { category: "digests", label: "Progress digests" },
+  { category: "billing", label: "Billing updates (receipts, failed payments)" },
+];
 
 async function createPortalSession(): Promise<{ url: string }> {
   try {
@@ -28,6 +58,10 @@ export default function Settings() {
   const { toast } = useToast();
   const { user, isLoading, logout } = useAuth();
   const { user: userData } = useUser();
+  const { plan, subscription } = useSubscription();
+  const { getPlan } = usePlans();
+  const isPaid = plan !== 'free';
+  const subscriptionSummary = describeSubscription(subscription);
   const queryClient = useQueryClient();
 
   // Initialize emailNotifications from user data
@@ -63,6 +97,81 @@ export default function Settings() {
     }
   });
 
+  const updateReminderLeadTimes = useMutation({
+    mutationFn: async (reminderLeadMinutes: number[]) => {
+      if (!user?.id) throw new Error("User not authenticated");
+      return apiRequest("PATCH", `/api/users/profile`, { reminderLeadMinutes });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users/profile'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update reminders",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const reminderLeadMinutes = userData?.reminderLeadMinutes ?? [];
+  const toggleReminder = (minutes: number) => {
+    const next = reminderLeadMinutes.includes(minutes)
+      ? reminderLeadMinutes.filter((lead) => lead !== minutes)
+      : [...reminderLeadMinutes, minutes].sort((a, b) => a - b);
+    updateReminderLeadTimes.mutate(next);
+  };
+
+  const updateDigestSettings = useMutation({
+    mutationFn: async (settings: { digestFrequency?: string; timezone?: string; digestOnly?: boolean }) => {
+      if (!user?.id) throw new Error("User not authenticated");
+      return apiRequest("PATCH", `/api/users/profile`, settings);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users/profile'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update digest settings",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const updateEmailCategories = useMutation({
+    mutationFn: async (emailPreferences: EmailPreferences) => {
+      if (!user?.id) throw new Error("User not authenticated");
+      return apiRequest("PATCH", `/api/users/profile`, { emailPreferences });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users/profile'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update email preferences",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Categories without a stored preference are on
+  const emailPreferences: EmailPreferences = userData?.emailPreferences ?? {};
+
+  const digestFrequency = userData?.digestFrequency ?? "off";
+  const timezone = userData?.timezone ?? "UTC";
+
+  // Users who never picked a timezone get the browser's when turning the digest on
+  const changeDigestFrequency = (value: string) => {
+    const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const useBrowserTimezone = digestFrequency === "off" && timezone === "UTC" && TIMEZONES.includes(browserTimezone);
+    updateDigestSettings.mutate({
+      digestFrequency: value,
+      ...(useBrowserTimezone && { timezone: browserTimezone }),
+    });
+  };
+
   // Portal session mutation
   const portalMutation = useMutation({
     mutationFn: createPortalSession,
@@ -151,9 +260,106 @@ export default function Settings() {
               }}
             />
             <Label htmlFor="email-notifications">
-              Receive email notifications when new items are added
+              Receive email notifications when new items are added and reminders before items are due
             </Label>
           </div>
+          <div className="mt-6 space-y-2">
+            <Label>Remind me before an item is due</Label>
+            <div className="flex flex-wrap gap-2">
+              {REMINDER_OPTIONS.map(({ minutes, label }) => (
+                <Button
+                  key={minutes}
+                  size="sm"
+                  variant={reminderLeadMinutes.includes(minutes) ? "default" : "outline"}
+                  disabled={
+                    !emailNotifications ||
+                    updateReminderLeadTimes.isPending ||
+                    (!reminderLeadMinutes.includes(minutes) && reminderLeadMinutes.length >= 5)
+                  }
+                  onClick={() => toggleReminder(minutes)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {emailNotifications
+                ? "Reminders are emailed for items with a due date that are not completed."
+                : "Turn on email notifications to receive reminders."}
+            </p>
+          </div>
+          <div className="mt-6 space-y-3">
+            <Label>Send me these emails</Label>
+            {EMAIL_CATEGORY_OPTIONS.map(({ category, label }) => (
+              <div key={category} className="flex items-center space-x-4">
+                <Switch
+                  id={`email-category-${category}`}
+                  checked={emailPreferences[category] !== false}
+                  disabled={updateEmailCategories.isPending}
+                  onCheckedChange={(checked) => updateEmailCategories.mutate({ [category]: checked })}
+                />
+                <Label htmlFor={`email-category-${category}`}>{label}</Label>
+              </div>
+            ))}
+            <p className="text-sm text-muted-foreground">
+              Every email has an unsubscribe link that turns off its category.
+            </p>
+          </div>
+        </Card>
+
+        <Card className="p-6">
+          <h2 className="text-2xl font-semibold mb-4">Progress Digest</h2>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="digest-frequency">Send me a digest</Label>
+              <Select
+                value={digestFrequency}
+                disabled={updateDigestSettings.isPending}
+                onValueChange={changeDigestFrequency}
+              >
+                <SelectTrigger id="digest-frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DIGEST_OPTIONS.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="digest-timezone">Timezone</Label>
+              <Select
+                value={timezone}
+                disabled={updateDigestSettings.isPending}
+                onValueChange={(value) => updateDigestSettings.mutate({ timezone: value })}
+              >
+                <SelectTrigger id="digest-timezone">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMEZONES.map((zone) => (
+                    <SelectItem key={zone} value={zone}>{zone.replace(/_/g, " ")}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="mt-4 flex items-center space-x-4">
+            <Switch
+              id="digest-only"
+              checked={userData?.digestOnly ?? false}
+              disabled={digestFrequency === "off" || updateDigestSettings.isPending}
+              onCheckedChange={(checked) => updateDigestSettings.mutate({ digestOnly: checked })}
+            />
+            <Label htmlFor="digest-only">
+              Only send the digest (no email for each new item)
+            </Label>
+          </div>
+          <p className="mt-2 text-sm text-muted-foreground">
+            The digest summarizes your open, in-progress and completed items and lists anything overdue.
+            It is sent after 8am in your timezone.
+          </p>
         </Card>
 
         <Card className="mt-4">
@@ -164,15 +370,18 @@ export default function Settings() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-lg font-medium">
-                  Current Plan: {userData?.subscriptionType === 'pro' ? 'Pro' : 'Free'}
+                  Current Plan: {getPlan(plan)?.name ?? 'Free'}
                 </p>
+                {subscriptionSummary && (
+                  <p className="text-sm font-medium">{subscriptionSummary}</p>
+                )}
                 <p className="text-sm text-muted-foreground">
-                  {userData?.subscriptionType === 'pro' 
-                    ? 'You have access to all pro features. Manage your subscription through the billing portal.'
-                    : 'Upgrade to pro for unlimited items and premium features'}
+                  {isPaid
+                    ? 'You have access to all paid features. Manage your subscription through the billing portal.'
+                    : 'Upgrade for unlimited items and premium features'}
                 </p>
               </div>
-              {userData?.subscriptionType === 'pro' ? (
+              {isPaid || subscription?.status === 'past_due' ? (
                 <Button
                   variant="outline"
                   onClick={handleOpenBillingPortal}
@@ -198,7 +407,7 @@ export default function Settings() {
           </CardContent>
         </Card>
 
-        {userData?.subscriptionType === 'pro' && (
+        {subscription && (
           <Card className="p-6">
             <h2 className="text-2xl font-semibold mb-4">Billing</h2>
             <div className="space-y-4">
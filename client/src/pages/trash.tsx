@@ -0,0 +1,101 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { ArrowLeft, RotateCcw, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useTrash } from "@/hooks/useTrash";
+import { useToast } from "@/hooks/useToast";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+export default function Trash() {
+  const [, setLocation] = useLocation();
+  const { user, isLoading } = useAuth();
+  const { items, loading, restoreItem, isRestoring } = useTrash();
+  const { toast } = useToast();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isLoading && !user) {
+      setLocation("/login");
+    }
+  }, [isLoading, user, setLocation]);
+
+  if (isLoading || loading) {
+    return <div className="container mx-auto py-8">Loading...</div>;
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const handleRestore = (id: number) => {
+    restoreItem(id, {
+      onSuccess: () => {
+        toast({
+          title: "Item restored",
+          description: "The item is back on your list.",
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Trash</h1>
+          <p className="text-muted-foreground">
+            Deleted items are kept here for a while before they are removed for good.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setLocation("/")}>
+          <ArrowLeft className="h-4 w-4 mr-2" /> Back to list
+        </Button>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <Trash2 className="h-12 w-12 mx-auto mb-2 opacity-50" />
+          <p>The trash is empty</p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead className="w-[140px]">Deleted</TableHead>
+              <TableHead className="w-[160px]">Removed for good</TableHead>
+              <TableHead className="w-[120px]">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item) => (
+              <TableRow key={item.id}>
+                <TableCell>
+                  <div>{item.item}</div>
+                  {item.description && (
+                    <div className="text-sm text-muted-foreground line-clamp-2">{item.description}</div>
+                  )}
+                </TableCell>
+                <TableCell>{formatDate(item.deletedAt)}</TableCell>
+                <TableCell>{formatDate(item.purgeAt)}</TableCell>
+                <TableCell>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(item.id)}
+                    disabled={isRestoring}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" /> Restore
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ process.env.STRIPE_PRICE_ID_PRO = process.env.STRIPE_PRICE_ID_PRO || 'price_test
 process.env.SENDGRID_API_KEY = process.env.SENDGRID_API_KEY || 'SG.test_key';
 // Use a stable, verified sender for tests
 process.env.SENDGRID_FROM = process.env.SENDGRID_FROM || 'carlos@kindnessengineering.com';
+process.env.SESSION_SECRET = process.env.SESSION_SECRET || 'test-session-secret';
 process.env.POSTHOG_API_KEY = process.env.POSTHOG_API_KEY || 'phc_test_key';
 
 // Mock nanoid for ESM compatibility
@@ -97,13 +98,83 @@ jest.mock('./server/storage/index', () => ({
   storage: {
     getUserById: jest.fn().mockResolvedValue(null),
     getUserByEmail: jest.fn().mockResolvedValue(null),
+    getUserByStripeCustomerId: jest.fn().mockResolvedValue(null),
     createUser: jest.fn(),
     updateUser: jest.fn(),
     upsertUser: jest.fn(),
+    getDigestUsers: jest.fn().mockResolvedValue([]),
     getItemsByUserId: jest.fn().mockResolvedValue([]),
+    getItemById: jest.fn().mockResolvedValue(null),
+    listItems: jest.fn().mockResolvedValue({ items: [], total: 0, nextCursor: null }),
     createItem: jest.fn(),
+    reorderItems: jest.fn(),
+    getDeletedItemsByUserId: jest.fn().mockResolvedValue([]),
+    createNextOccurrence: jest.fn().mockResolvedValue(undefined),
+    getDueItemsForReminders: jest.fn().mockResolvedValue([]),
+    getItemDigest: jest.fn().mockResolvedValue({ counts: { open: 0, in_progress: 0, completed: 0 }, overdueCount: 0, overdue: [] }),
+    restoreItem: jest.fn().mockResolvedValue(null),
+    purgeDeletedItems: jest.fn().mockResolvedValue(0),
+    getOwnedItemIds: jest.fn().mockResolvedValue([]),
+    getItemsByIds: jest.fn().mockResolvedValue([]),
+    applyBulkItemAction: jest.fn().mockResolvedValue(0),
     updateItemStatus: jest.fn(),
-    deleteItem: jest.fn()
+    updateItem: jest.fn(),
+    deleteItem: jest.fn(),
+    getItemEventsByItemId: jest.fn().mockResolvedValue([]),
+    createItemEvents: jest.fn().mockResolvedValue([]),
+    enqueueJob: jest.fn().mockResolvedValue(undefined),
+    claimDueJobs: jest.fn().mockResolvedValue([]),
+    completeJob: jest.fn().mockResolvedValue(undefined),
+    failJob: jest.fn().mockResolvedValue(undefined),
+    releaseJobUniqueKey: jest.fn().mockResolvedValue(undefined),
+    releaseStaleJobs: jest.fn().mockResolvedValue(0),
+    deleteFinishedJobs: jest.fn().mockResolvedValue(0),
+    enqueueEmail: jest.fn().mockImplementation(async (email) => ({ id: 1, status: 'pending', attempts: 0, ...email })),
+    claimDueEmails: jest.fn().mockResolvedValue([]),
+    markEmailSent: jest.fn().mockResolvedValue(undefined),
+    markEmailFailed: jest.fn().mockResolvedValue(undefined),
+    releaseStaleEmails: jest.fn().mockResolvedValue(0),
+    deleteSentEmails: jest.fn().mockResolvedValue(0),
+    upsertSubscription: jest.fn().mockImplementation(async (subscription) => ({ id: 1, ...subscription })),
+    getSubscriptionByStripeId: jest.fn().mockResolvedValue(null),
+    getSubscriptionsByUserId: jest.fn().mockResolvedValue([]),
+    recordWebhookEvent: jest.fn().mockImplementation(async (event) => ({ status: 'pending', attempts: 0, ...event })),
+    getWebhookEvent: jest.fn().mockResolvedValue(null),
+    claimWebhookEvent: jest.fn().mockImplementation(async (id) => ({ id, status: 'processing', attempts: 1 })),
+    markWebhookEventProcessed: jest.fn().mockResolvedValue(undefined),
+    markWebhookEventFailed: jest.fn().mockResolvedValue(undefined),
+    listWebhookEvents: jest.fn().mockResolvedValue([]),
+    deleteProcessedWebhookEvents: jest.fn().mockResolvedValue(0),
+    getTagsByUserId: jest.fn().mockResolvedValue([]),
+    getTagById: jest.fn().mockResolvedValue(null),
+    getTagByName: jest.fn().mockResolvedValue(null),
+    createTag: jest.fn(),
+    updateTag: jest.fn(),
+    deleteTag: jest.fn(),
+    getTagsForItems: jest.fn().mockResolvedValue({}),
+    addTagToItem: jest.fn(),
+    removeTagFromItem: jest.fn(),
+    getSubtasksByItemId: jest.fn().mockResolvedValue([]),
+    getSubtaskById: jest.fn().mockResolvedValue(null),
+    createSubtask: jest.fn(),
+    updateSubtask: jest.fn(),
+    deleteSubtask: jest.fn(),
+    reorderSubtasks: jest.fn().mockResolvedValue([]),
+    getSubtaskProgress: jest.fn().mockResolvedValue({}),
+    getFilesByUserId: jest.fn().mockResolvedValue([]),
+    getFileById: jest.fn().mockResolvedValue(null),
+    getFileUsageByUserId: jest.fn().mockResolvedValue({ fileCount: 0, totalBytes: 0 }),
+    createFile: jest.fn(),
+    updateFile: jest.fn(),
+    deleteFile: jest.fn(),
+    getThreadsByUserId: jest.fn().mockResolvedValue([]),
+    getThreadById: jest.fn().mockResolvedValue(null),
+    createThread: jest.fn(),
+    updateThread: jest.fn(),
+    deleteThread: jest.fn(),
+    getMessagesByThreadId: jest.fn().mockResolvedValue([]),
+    createMessage: jest.fn(),
+    saveMessages: jest.fn().mockResolvedValue(0)
   }
 }));
 
@@ -252,7 +323,11 @@ const mockStripeInstance = {
       trial_end: null,
       trial_settings: { end_behavior: { missing_payment_method: 'create_invoice' } },
       trial_start: null
-    })
+    }),
+    update: jest.fn()
+  },
+  invoices: {
+    createPreview: jest.fn()
   },
   webhooks: {
     constructEvent: jest.fn().mockImplementation((payload, sig, endpointSecret) => {
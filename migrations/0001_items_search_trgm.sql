@@ -0,0 +1,5 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_items_item_trgm" ON "items" USING gin ("item" gin_trgm_ops);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_items_description_trgm" ON "items" USING gin ("description" gin_trgm_ops);
@@ -0,0 +1,80 @@
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+import { WebhookEventStatus, type WebhookEvent } from '@shared/schema';
+import { storage } from '../server/storage/index';
+import { processWebhookEvent } from '../server/lib/stripeWebhooks';
+
+// Replays recorded Stripe webhook events that failed, oldest first:
+//
+//   npm run webhooks:replay                        all failed events
+//   npm run webhooks:replay -- --since 2025-01-01  failed events received since a date
+//   npm run webhooks:replay -- --event evt_123     one event, unless it was processed
+//   npm run webhooks:replay -- --dry-run           list what would be replayed
+//
+// Processed events and events another worker is handling are never claimed, so
+// --event only replays an event that is pending, failed or stuck processing.
+//
+// Subscription events older than the stored subscription state are skipped
+// while replaying, so replaying an old failure cannot undo a newer change.
+
+const { values } = parseArgs({
+  options: {
+    event: { type: 'string' },
+    since: { type: 'string' },
+    limit: { type: 'string', default: '100' },
+    'dry-run': { type: 'boolean', default: false },
+  },
+});
+
+async function findEvents(): Promise<WebhookEvent[]> {
+  if (values.event) {
+    const event = await storage.getWebhookEvent(values.event);
+    if (!event) {
+      throw new Error(`Webhook event ${values.event} not found`);
+    }
+    return [event];
+  }
+
+  const since = values.since ? new Date(values.since) : undefined;
+  if (since && Number.isNaN(since.getTime())) {
+    throw new Error(`Invalid --since date: ${values.since}`);
+  }
+  const limit = Number(values.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Invalid --limit: ${values.limit}`);
+  }
+  return storage.listWebhookEvents({ status: WebhookEventStatus.FAILED, since, limit });
+}
+
+async function replayWebhookEvents() {
+  const events = await findEvents();
+  console.log(`Found ${events.length} webhook event(s) to replay`);
+
+  let failed = 0;
+  for (const event of events) {
+    const label = `${event.id} (${event.type}, ${event.status}, ${event.attempts} attempt(s))`;
+    if (values['dry-run']) {
+      console.log(`Would replay ${label}${event.lastError ? `: ${event.lastError}` : ''}`);
+      continue;
+    }
+
+    try {
+      const processed = await processWebhookEvent(event.id);
+      console.log(processed ? `Replayed ${label}` : `Skipped ${label}: already processed or in progress`);
+    } catch (error) {
+      failed++;
+      console.error(`Failed ${label}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  if (failed > 0) {
+    console.error(`${failed} event(s) failed again`);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+replayWebhookEvents().catch((error) => {
+  console.error('Error replaying webhook events:', error);
+  process.exit(1);
+});
@@ -0,0 +1,348 @@
+import request from 'supertest';
+import express from 'express';
+import { registerChatKitRoutes } from '../routes/chatKitRoutes';
+import { parametersToZod } from '../lib/agentTools';
+import { PLAN_CATALOG } from '../lib/plans';
+import { resetAllMocks, mockStorage } from './setup/mocks';
+
+// Import and apply mocks
+import './setup/mocks';
+
+describe('ChatKit Server-Side Tools', () => {
+  let app: express.Express;
+
+  const ownedItem = {
+    id: 3,
+    item: 'Buy milk',
+    userId: 'test-replit-user-id',
+    status: 'open',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z'
+  };
+
+  beforeAll(async () => {
+    app = express();
+    app.use(express.json());
+    await registerChatKitRoutes(app);
+  });
+
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  describe('parametersToZod', () => {
+    const schema = parametersToZod({
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        status: { type: 'string', enum: ['open', 'completed'] },
+        note: { type: 'string' }
+      },
+      required: ['id', 'status'],
+      additionalProperties: false
+    });
+
+    it('should accept params matching the definition', () => {
+      expect(schema.parse({ id: '1', status: 'open' })).toEqual({ id: '1', status: 'open' });
+    });
+
+    it('should enforce required properties, enums and additionalProperties', () => {
+      expect(schema.safeParse({ status: 'open' }).success).toBe(false);
+      expect(schema.safeParse({ id: '1', status: 'archived' }).success).toBe(false);
+      expect(schema.safeParse({ id: '1', status: 'open', extra: true }).success).toBe(false);
+    });
+
+    it('should validate array items', () => {
+      const arraySchema = parametersToZod({
+        type: 'object',
+        properties: { ids: { type: 'array', items: { type: 'string' } } },
+        required: ['ids']
+      });
+
+      expect(arraySchema.parse({ ids: ['1', '2'] })).toEqual({ ids: ['1', '2'] });
+      expect(arraySchema.safeParse({ ids: [1] }).success).toBe(false);
+    });
+  });
+
+  describe('POST /api/chatkit/tools/:name', () => {
+    it('should return todos for getTodos', async () => {
+      mockStorage.getItemsByUserId.mockResolvedValue([ownedItem]);
+
+      const response = await request(app)
+        .post('/api/chatkit/tools/getTodos')
+        .send({})
+        .expect(200);
+
+      expect(mockStorage.getItemsByUserId).toHaveBeenCalledWith('test-replit-user-id');
+      expect(response.body).toEqual({
+        success: true,
+        todos: [{
+          id: 3,
+          text: 'Buy milk',
+          status: 'open',
+          createdAt: ownedItem.createdAt,
+          updatedAt: ownedItem.updatedAt
+        }],
+        count: 1
+      });
+    });
+
+    it('should create a todo for createTodo', async () => {
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', subscriptionType: 'free' });
+      mockStorage.createItem.mockResolvedValue({ ...ownedItem, id: 4, item: 'Walk dog' });
+
+      const response = await request(app)
+        .post('/api/chatkit/tools/createTodo')
+        .send({ text: '  Walk dog ' })
+        .expect(200);
+
+      expect(mockStorage.createItem).toHaveBeenCalledWith({
+        userId: 'test-replit-user-id',
+        item: 'Walk dog',
+        status: 'open'
+      });
+      expect(response.body.success).toBe(true);
+      expect(response.body.todo.text).toBe('Walk dog');
+    });
+
+    it('should apply the free plan item limit to createTodo', async () => {
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', subscriptionType: 'free' });
+      mockStorage.getItemsByUserId.mockResolvedValue(Array(5).fill(ownedItem));
+
+      await request(app)
+        .post('/api/chatkit/tools/createTodo')
+        .send({ text: 'One more' })
+        .expect(403);
+
+      expect(mockStorage.createItem).not.toHaveBeenCalled();
+    });
+
+    it('should update the status of an owned todo', async () => {
+      mockStorage.getItemById.mockResolvedValue(ownedItem);
+      mockStorage.updateItemStatus.mockResolvedValue({ ...ownedItem, status: 'completed' });
+
+      const response = await request(app)
+        .post('/api/chatkit/tools/updateTodoStatus')
+        .send({ id: '3', status: 'completed' })
+        .expect(200);
+
+      expect(mockStorage.updateItemStatus).toHaveBeenCalledWith(3, 'completed');
+      expect(response.body.todo.status).toBe('completed');
+    });
+
+    it('should edit an owned todo with updateTodo', async () => {
+      mockStorage.getItemById.mockResolvedValue(ownedItem);
+      mockStorage.updateItem.mockResolvedValue({ ...ownedItem, priority: 'high', dueDate: '2025-06-30T00:00:00.000Z' });
+
+      const response = await request(app)
+        .post('/api/chatkit/tools/updateTodo')
+        .send({ id: '3', priority: 'high', dueDate: '2025-06-30' })
+        .expect(200);
+
+      expect(mockStorage.updateItem).toHaveBeenCalledWith(3, { priority: 'high', dueDate: new Date('2025-06-30') });
+      expect(response.body.todo.priority).toBe('high');
+    });
+
+    it('should delete an owned todo', async () => {
+      mockStorage.getItemById.mockResolvedValue(ownedItem);
+
+      const response = await request(app)
+        .post('/api/chatkit/tools/deleteTodo')
+        .send({ id: '3' })
+        .expect(200);
+
+      expect(mockStorage.deleteItem).toHaveBeenCalledWith(3);
+      expect(response.body).toEqual({ success: true, message: 'Todo moved to trash', deletedId: 3 });
+    });
+
+    it('should add a subtask to an owned todo', async () => {
+      mockStorage.getItemById.mockResolvedValue(ownedItem);
+      mockStorage.createSubtask.mockResolvedValue({ id: 7, itemId: 3, title: 'Check the fridge', completed: false, position: 0 });
+
+      const response = await request(app)
+        .post('/api/chatkit/tools/addSubtask')
+        .send({ id: '3', title: ' Check the fridge ' })
+        .expect(200);
+
+      expect(mockStorage.createSubtask).toHaveBeenCalledWith({ itemId: 3, title: 'Check the fridge' });
+      expect(response.body.subtask).toEqual({ id: 7, title: 'Check the fridge', completed: false });
+    });
+
+    it('should complete a subtask of an owned todo', async () => {
+      mockStorage.getItemById.mockResolvedValue(ownedItem);
+      mockStorage.getSubtaskById.mockResolvedValue({ id: 7, itemId: 3, title: 'Check the fridge', completed: false });
+      mockStorage.updateSubtask.mockResolvedValue({ id: 7, itemId: 3, title: 'Check the fridge', completed: true });
+
+      const response = await request(app)
+        .post('/api/chatkit/tools/completeSubtask')
+        .send({ id: '3', subtaskId: '7' })
+        .expect(200);
+
+      expect(mockStorage.updateSubtask).toHaveBeenCalledWith(7, { completed: true });
+      expect(response.body.subtask.completed).toBe(true);
+    });
+
+    it('should not complete subtasks belonging to another todo', async () => {
+      mockStorage.getItemById.mockResolvedValue(ownedItem);
+      mockStorage.getSubtaskById.mockResolvedValue({ id: 7, itemId: 99, title: 'Elsewhere', completed: false });
+
+      await request(app)
+        .post('/api/chatkit/tools/completeSubtask')
+        .send({ id: '3', subtaskId: '7' })
+        .expect(404);
+
+      expect(mockStorage.updateSubtask).not.toHaveBeenCalled();
+    });
+
+    it('should complete several todos with bulkUpdateTodos', async () => {
+      mockStorage.getOwnedItemIds.mockResolvedValue([3, 4]);
+      mockStorage.applyBulkItemAction.mockResolvedValue(2);
+
+      const response = await request(app)
+        .post('/api/chatkit/tools/bulkUpdateTodos')
+        .send({ ids: ['3', '4'], action: 'set_status', status: 'completed' })
+        .expect(200);
+
+      expect(mockStorage.applyBulkItemAction).toHaveBeenCalledWith('test-replit-user-id', {
+        action: 'set_status',
+        ids: [3, 4],
+        status: 'completed'
+      });
+      expect(response.body).toEqual({ success: true, action: 'set_status', count: 2, ids: [3, 4] });
+    });
+
+    it('should tag todos by name, creating the tag if needed', async () => {
+      mockStorage.getOwnedItemIds.mockResolvedValue([3]);
+      mockStorage.createTag.mockResolvedValue({ id: 8, name: 'errands', userId: 'test-replit-user-id' });
+      mockStorage.applyBulkItemAction.mockResolvedValue(1);
+
+      await request(app)
+        .post('/api/chatkit/tools/bulkUpdateTodos')
+        .send({ ids: ['3'], action: 'tag', tag: 'errands' })
+        .expect(200);
+
+      expect(mockStorage.createTag).toHaveBeenCalledWith({ userId: 'test-replit-user-id', name: 'errands' });
+      expect(mockStorage.applyBulkItemAction).toHaveBeenCalledWith('test-replit-user-id', {
+        action: 'tag',
+        ids: [3],
+        tagId: 8,
+        attached: true
+      });
+    });
+
+    it('should not bulk update when any todo is not owned', async () => {
+      mockStorage.getOwnedItemIds.mockResolvedValue([3]);
+
+      const response = await request(app)
+        .post('/api/chatkit/tools/bulkUpdateTodos')
+        .send({ ids: ['3', '4'], action: 'delete' })
+        .expect(404);
+
+      expect(response.body.missingIds).toEqual([4]);
+      expect(mockStorage.applyBulkItemAction).not.toHaveBeenCalled();
+    });
+
+    it('should restore a deleted todo with restoreTodo', async () => {
+      mockStorage.restoreItem.mockResolvedValue(ownedItem);
+
+      const response = await request(app)
+        .post('/api/chatkit/tools/restoreTodo')
+        .send({ id: '3' })
+        .expect(200);
+
+      expect(mockStorage.restoreItem).toHaveBeenCalledWith('test-replit-user-id', 3);
+      expect(response.body.todo.id).toBe(3);
+    });
+
+    it('should record agent changes in the item history', async () => {
+      mockStorage.getItemById.mockResolvedValue(ownedItem);
+      mockStorage.updateItemStatus.mockResolvedValue({ ...ownedItem, status: 'completed' });
+
+      await request(app)
+        .post('/api/chatkit/tools/updateTodoStatus')
+        .send({ id: '3', status: 'completed' })
+        .expect(200);
+
+      expect(mockStorage.createItemEvents).toHaveBeenCalledWith([expect.objectContaining({
+        itemId: 3,
+        type: 'status_changed',
+        source: 'agent',
+        changes: { status: { from: 'open', to: 'completed' } }
+      })]);
+    });
+
+    it('should return 404 when restoring a todo that is not in the trash', async () => {
+      await request(app)
+        .post('/api/chatkit/tools/restoreTodo')
+        .send({ id: '3' })
+        .expect(404);
+    });
+
+    it('should not touch todos owned by other users', async () => {
+      mockStorage.getItemById.mockResolvedValue({ ...ownedItem, userId: 'other-replit-user-id' });
+
+      await request(app)
+        .post('/api/chatkit/tools/deleteTodo')
+        .send({ id: '3' })
+        .expect(404);
+
+      await request(app)
+        .post('/api/chatkit/tools/updateTodoStatus')
+        .send({ id: '3', status: 'completed' })
+        .expect(404);
+
+      expect(mockStorage.deleteItem).not.toHaveBeenCalled();
+      expect(mockStorage.updateItemStatus).not.toHaveBeenCalled();
+    });
+
+    it('should reject params that do not match the function definition', async () => {
+      const response = await request(app)
+        .post('/api/chatkit/tools/updateTodoStatus')
+        .send({ id: '3', status: 'done' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation failed');
+      expect(mockStorage.getItemById).not.toHaveBeenCalled();
+    });
+
+    it('should reject non-numeric todo IDs', async () => {
+      await request(app)
+        .post('/api/chatkit/tools/deleteTodo')
+        .send({ id: 'abc' })
+        .expect(400);
+
+      expect(mockStorage.deleteItem).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown tools', async () => {
+      await request(app)
+        .post('/api/chatkit/tools/dropDatabase')
+        .send({})
+        .expect(404);
+
+      await request(app)
+        .post('/api/chatkit/tools/constructor')
+        .send({})
+        .expect(404);
+    });
+
+    it('should require the plan\'s AI entitlement', async () => {
+      const free = PLAN_CATALOG.find((plan) => plan.id === 'free')!;
+      const original = free.entitlements;
+      free.entitlements = { ...original, aiAccess: false };
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', subscriptionType: 'free' });
+
+      try {
+        const response = await request(app)
+          .post('/api/chatkit/tools/deleteTodo')
+          .send({ id: '3' })
+          .expect(403);
+
+        expect(response.body.error).toBe('AI chat is not included in the Free plan. Please upgrade your plan.');
+        expect(mockStorage.deleteItem).not.toHaveBeenCalled();
+      } finally {
+        free.entitlements = original;
+      }
+    });
+  });
+});
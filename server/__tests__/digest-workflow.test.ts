@@ -0,0 +1,159 @@
+import request from 'supertest';
+import express from 'express';
+import { registerItemRoutes } from '../routes/itemRoutes';
+import { registerUserRoutes } from '../routes/userRoutes';
+import { getDigestDate, scanDigests, sendDigest, DIGEST_SEND_JOB } from '../lib/digests';
+import { sendsItemEmails } from '../lib/emailPreferences';
+import { resetAllMocks, mockStorage } from './setup/mocks';
+
+// Import and apply mocks
+import './setup/mocks';
+
+describe('Digest Workflow', () => {
+  let app: express.Express;
+
+  // 08:30 UTC on a Monday
+  const monday = new Date('2025-03-03T08:30:00.000Z');
+
+  const user = {
+    id: 'test-replit-user-id',
+    email: 'test@example.com',
+    emailNotifications: true,
+    subscriptionType: 'pro',
+    digestFrequency: 'daily',
+    timezone: 'UTC',
+    digestOnly: false
+  };
+
+  beforeAll(async () => {
+    app = express();
+    app.use(express.json());
+    await registerItemRoutes(app);
+    await registerUserRoutes(app);
+  });
+
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  describe('Schedule', () => {
+    it('should be due from the morning of the user\'s local date', () => {
+      expect(getDigestDate(user as any, monday)).toBe('2025-03-03');
+      // 03:30 in New York
+      expect(getDigestDate({ ...user, timezone: 'America/New_York' } as any, monday)).toBeUndefined();
+      // 17:30 in Tokyo
+      expect(getDigestDate({ ...user, timezone: 'Asia/Tokyo' } as any, monday)).toBe('2025-03-03');
+      expect(getDigestDate({ ...user, digestFrequency: 'off' } as any, monday)).toBeUndefined();
+    });
+
+    it('should send weekly digests on Mondays only', () => {
+      const weekly = { ...user, digestFrequency: 'weekly' } as any;
+
+      expect(getDigestDate(weekly, monday)).toBe('2025-03-03');
+      expect(getDigestDate(weekly, new Date('2025-03-04T08:30:00.000Z'))).toBeUndefined();
+    });
+
+    it('should queue one digest per user and local date', async () => {
+      mockStorage.getDigestUsers.mockResolvedValue([user, { ...user, id: 'late-user', timezone: 'America/New_York' }]);
+      mockStorage.enqueueJob.mockImplementation(async (data: any) => ({ id: 1, ...data }));
+
+      await expect(scanDigests(monday)).resolves.toBe(1);
+
+      expect(mockStorage.enqueueJob).toHaveBeenCalledTimes(1);
+      expect(mockStorage.enqueueJob).toHaveBeenCalledWith(expect.objectContaining({
+        type: DIGEST_SEND_JOB,
+        payload: { userId: 'test-replit-user-id', date: '2025-03-03' },
+        uniqueKey: 'digest:test-replit-user-id:2025-03-03'
+      }));
+    });
+  });
+
+  describe('Digest email', () => {
+    it('should summarize counts and overdue items', async () => {
+      mockStorage.getUserById.mockResolvedValue(user);
+      mockStorage.getItemDigest.mockResolvedValue({
+        counts: { open: 3, in_progress: 1, completed: 4 },
+        overdueCount: 2,
+        overdue: [{ id: 1, item: 'File taxes', dueDate: new Date('2025-02-28T00:00:00.000Z') }]
+      });
+
+      await sendDigest({ userId: 'test-replit-user-id', date: '2025-03-03' });
+
+      expect(mockStorage.getItemDigest).toHaveBeenCalledWith('test-replit-user-id', new Date('2025-03-03T00:00:00.000Z'));
+      const message = mockStorage.enqueueEmail.mock.calls[0][0];
+      expect(message.to).toBe('test@example.com');
+      expect(message.subject).toBe('Your daily todo digest');
+      expect(message.text).toContain('- Open: 3');
+      expect(message.text).toContain('- In progress: 1');
+      expect(message.text).toContain('- Completed: 4');
+      expect(message.text).toContain('Overdue (2):');
+      expect(message.text).toContain('- File taxes (due Feb 28)');
+      expect(message.text).toContain('...and 1 more');
+    });
+
+    it('should not send a digest to users without items or who turned it off', async () => {
+      mockStorage.getUserById.mockResolvedValue(user);
+      await sendDigest({ userId: 'test-replit-user-id', date: '2025-03-03' });
+
+      mockStorage.getUserById.mockResolvedValue({ ...user, digestFrequency: 'off' });
+      await sendDigest({ userId: 'test-replit-user-id', date: '2025-03-03' });
+
+      expect(mockStorage.enqueueEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Per-item emails', () => {
+    it('should be skipped in digest-only mode', () => {
+      expect(sendsItemEmails(user as any)).toBe(true);
+      expect(sendsItemEmails({ ...user, digestOnly: true } as any)).toBe(false);
+      expect(sendsItemEmails({ ...user, digestOnly: true, digestFrequency: 'off' } as any)).toBe(true);
+      expect(sendsItemEmails({ ...user, emailNotifications: false } as any)).toBe(false);
+    });
+
+    it('should not send the new item email in digest-only mode', async () => {
+      mockStorage.getUserById.mockResolvedValue({ ...user, digestOnly: true });
+      mockStorage.createItem.mockResolvedValue({ id: 1, item: 'Buy milk', status: 'open', userId: 'test-replit-user-id' });
+
+      await request(app)
+        .post('/api/items')
+        .send({ item: 'Buy milk' })
+        .expect(200);
+
+      expect(mockStorage.enqueueEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/users/profile', () => {
+    it('should save digest settings', async () => {
+      mockStorage.getUserById.mockResolvedValue(user);
+      mockStorage.updateUser.mockResolvedValue({ ...user, digestFrequency: 'weekly', timezone: 'Europe/Berlin' });
+
+      await request(app)
+        .patch('/api/users/profile')
+        .send({ digestFrequency: 'weekly', timezone: 'Europe/Berlin', digestOnly: true })
+        .expect(200);
+
+      expect(mockStorage.updateUser).toHaveBeenCalledWith('test-replit-user-id', {
+        digestFrequency: 'weekly',
+        timezone: 'Europe/Berlin',
+        digestOnly: true
+      });
+    });
+
+    it('should reject unknown timezones and frequencies', async () => {
+      mockStorage.getUserById.mockResolvedValue(user);
+
+      await request(app)
+        .patch('/api/users/profile')
+        .send({ timezone: 'Mars/Olympus_Mons' })
+        .expect(400);
+
+      await request(app)
+        .patch('/api/users/profile')
+        .send({ digestFrequency: 'hourly' })
+        .expect(400);
+
+      expect(mockStorage.updateUser).not.toHaveBeenCalled();
+    });
+  });
+});
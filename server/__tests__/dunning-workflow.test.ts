@@ -0,0 +1,176 @@
+import {
+  syncStripeSubscription,
+  getPlanForSubscriptions,
+  sendGracePeriodReminder,
+  endGracePeriod,
+  GRACE_REMINDER_JOB,
+  GRACE_END_JOB
+} from '../lib/subscriptions';
+import { resetAllMocks, mockStorage } from './setup/mocks';
+
+// Import and apply mocks
+import './setup/mocks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Dunning Workflow', () => {
+  const user = {
+    id: 'test-replit-user-id',
+    email: 'test@example.com',
+    emailPreferences: {}
+  };
+
+  const stripeSubscription = (status: string) => ({
+    id: 'sub_test123',
+    status,
+    customer: 'cus_test123',
+    metadata: { userId: user.id },
+    items: { data: [{ price: { id: 'price_test_pro123' } }] }
+  }) as any;
+
+  const storedSubscription = (overrides: Record<string, unknown> = {}) => ({
+    id: 1,
+    userId: user.id,
+    stripeSubscriptionId: 'sub_test123',
+    stripePriceId: 'price_test_pro123',
+    status: 'past_due',
+    gracePeriodEndsAt: new Date('2025-03-10T00:00:00.000Z'),
+    lastEventAt: null,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    resetAllMocks();
+    process.env.STRIPE_PRICE_ID_PRO = 'price_test_pro123';
+    mockStorage.getUserById.mockResolvedValue(user);
+  });
+
+  afterEach(() => {
+    delete process.env.BILLING_GRACE_PERIOD_DAYS;
+    delete process.env.STRIPE_PRICE_ID_PRO;
+  });
+
+  describe('Grace Period', () => {
+    it('should keep pro and schedule dunning when a payment first fails', async () => {
+      const observedAt = new Date();
+
+      const saved = await syncStripeSubscription(stripeSubscription('past_due'), { observedAt });
+
+      const gracePeriodEndsAt = new Date(observedAt.getTime() + 7 * DAY_MS);
+      expect(saved?.gracePeriodEndsAt).toEqual(gracePeriodEndsAt);
+      expect(mockStorage.updateUser).toHaveBeenCalledWith(user.id, { subscriptionType: 'pro', isPremium: true });
+
+      const payload = { stripeSubscriptionId: 'sub_test123', gracePeriodEndsAt: gracePeriodEndsAt.toISOString() };
+      expect(mockStorage.enqueueJob).toHaveBeenCalledWith(expect.objectContaining({
+        type: GRACE_REMINDER_JOB,
+        payload,
+        runAt: new Date(gracePeriodEndsAt.getTime() - DAY_MS)
+      }));
+      expect(mockStorage.enqueueJob).toHaveBeenCalledWith(expect.objectContaining({
+        type: GRACE_END_JOB,
+        payload,
+        runAt: gracePeriodEndsAt
+      }));
+    });
+
+    it('should not extend the grace period on later failures', async () => {
+      const gracePeriodEndsAt = new Date(Date.now() + 2 * DAY_MS);
+      mockStorage.getSubscriptionByStripeId.mockResolvedValue(storedSubscription({ gracePeriodEndsAt }));
+
+      await syncStripeSubscription(stripeSubscription('unpaid'));
+
+      expect(mockStorage.upsertSubscription).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'unpaid',
+        gracePeriodEndsAt
+      }));
+      expect(mockStorage.enqueueJob).not.toHaveBeenCalled();
+      expect(mockStorage.updateUser).toHaveBeenCalledWith(user.id, { subscriptionType: 'pro', isPremium: true });
+    });
+
+    it('should clear the grace period when the payment recovers', async () => {
+      mockStorage.getSubscriptionByStripeId.mockResolvedValue(storedSubscription({
+        gracePeriodEndsAt: new Date(Date.now() + 2 * DAY_MS)
+      }));
+
+      await syncStripeSubscription(stripeSubscription('active'));
+
+      expect(mockStorage.upsertSubscription).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'active',
+        gracePeriodEndsAt: null
+      }));
+      expect(mockStorage.updateUser).toHaveBeenCalledWith(user.id, { subscriptionType: 'pro', isPremium: true });
+    });
+
+    it('should downgrade right away without a grace period', async () => {
+      process.env.BILLING_GRACE_PERIOD_DAYS = '0';
+
+      await syncStripeSubscription(stripeSubscription('past_due'));
+
+      expect(mockStorage.upsertSubscription).toHaveBeenCalledWith(expect.objectContaining({ gracePeriodEndsAt: null }));
+      expect(mockStorage.enqueueJob).not.toHaveBeenCalled();
+      expect(mockStorage.updateUser).toHaveBeenCalledWith(user.id, { subscriptionType: 'free', isPremium: false });
+    });
+
+    it('should only grant the plan until the grace period ends', () => {
+      const now = new Date('2025-03-05T00:00:00.000Z');
+      const pastDue = storedSubscription() as any;
+
+      expect(getPlanForSubscriptions([pastDue], now)).toBe('pro');
+      expect(getPlanForSubscriptions([pastDue], new Date('2025-03-10T00:00:00.000Z'))).toBe('free');
+      // Canceled subscriptions get no grace period
+      expect(getPlanForSubscriptions([{ ...pastDue, status: 'canceled' }], now)).toBe('free');
+    });
+  });
+
+  describe('Dunning Jobs', () => {
+    const payload = { stripeSubscriptionId: 'sub_test123', gracePeriodEndsAt: '2025-03-10T00:00:00.000Z' };
+
+    it('should remind the user before the grace period ends', async () => {
+      mockStorage.getSubscriptionByStripeId.mockResolvedValue(storedSubscription());
+
+      await sendGracePeriodReminder(payload);
+
+      const message = mockStorage.enqueueEmail.mock.calls[0][0];
+      expect(message.to).toBe(user.email);
+      expect(message.subject).toBe('Your Pro plan ends March 10, 2025');
+      expect(message.text).toContain('/settings');
+    });
+
+    it('should downgrade and email the user when the grace period ends', async () => {
+      mockStorage.getSubscriptionByStripeId.mockResolvedValue(storedSubscription());
+      mockStorage.getSubscriptionsByUserId.mockResolvedValue([storedSubscription()]);
+
+      await endGracePeriod(payload);
+
+      expect(mockStorage.updateUser).toHaveBeenCalledWith(user.id, { subscriptionType: 'free', isPremium: false });
+      expect(mockStorage.enqueueEmail.mock.calls[0][0].subject).toBe('Your Pro plan has ended');
+    });
+
+    it('should not email when another subscription keeps the plan', async () => {
+      mockStorage.getSubscriptionByStripeId.mockResolvedValue(storedSubscription());
+      mockStorage.getSubscriptionsByUserId.mockResolvedValue([
+        storedSubscription({ id: 2, stripeSubscriptionId: 'sub_test456', status: 'active', gracePeriodEndsAt: null }),
+        storedSubscription()
+      ]);
+
+      await endGracePeriod(payload);
+
+      expect(mockStorage.updateUser).toHaveBeenCalledWith(user.id, { subscriptionType: 'pro', isPremium: true });
+      expect(mockStorage.enqueueEmail).not.toHaveBeenCalled();
+    });
+
+    it('should skip subscriptions that recovered or started a new grace period', async () => {
+      mockStorage.getSubscriptionByStripeId.mockResolvedValue(storedSubscription({ status: 'active', gracePeriodEndsAt: null }));
+      await endGracePeriod(payload);
+      await sendGracePeriodReminder(payload);
+
+      mockStorage.getSubscriptionByStripeId.mockResolvedValue(storedSubscription({
+        gracePeriodEndsAt: new Date('2025-04-10T00:00:00.000Z')
+      }));
+      await endGracePeriod(payload);
+
+      expect(mockStorage.updateUser).not.toHaveBeenCalled();
+      expect(mockStorage.enqueueEmail).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import request from 'supertest';
+import express from 'express';
+import { registerEmailRoutes } from '../routes/emailRoutes';
+import { registerUserRoutes } from '../routes/userRoutes';
+import { createUnsubscribeToken, isEmailCategoryEnabled, verifyUnsubscribeToken } from '../lib/emailPreferences';
+import { queueUserEmail } from '../lib/emailOutbox';
+import { renderEmail } from '../lib/emailTemplates';
+import { resetAllMocks, mockStorage } from './setup/mocks';
+
+// Import and apply mocks
+import './setup/mocks';
+
+describe('Email Preferences Workflow', () => {
+  let app: express.Express;
+
+  const user = {
+    id: 'test-replit-user-id',
+    email: 'test@example.com',
+    emailNotifications: true,
+    digestFrequency: 'daily',
+    digestOnly: false,
+    emailPreferences: {}
+  };
+
+  beforeAll(async () => {
+    app = express();
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
+    await registerEmailRoutes(app);
+    await registerUserRoutes(app);
+  });
+
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  describe('Unsubscribe Tokens', () => {
+    it('should round-trip the user and category', () => {
+      const token = createUnsubscribeToken(user.id, 'reminders');
+
+      expect(verifyUnsubscribeToken(token)).toEqual({ userId: user.id, category: 'reminders' });
+    });
+
+    it('should reject tampered tokens', () => {
+      const token = createUnsubscribeToken(user.id, 'reminders');
+      const [encodedUserId, , signature] = token.split('.');
+
+      // Signature reused for another category
+      expect(verifyUnsubscribeToken(`${encodedUserId}.billing.${signature}`)).toBeNull();
+      // Signature reused for another user
+      expect(verifyUnsubscribeToken(`${Buffer.from('other-user').toString('base64url')}.reminders.${signature}`)).toBeNull();
+      expect(verifyUnsubscribeToken(`${encodedUserId}.reminders.${signature.slice(1)}`)).toBeNull();
+      expect(verifyUnsubscribeToken('not-a-token')).toBeNull();
+    });
+  });
+
+  describe('Categories', () => {
+    it('should honour per-category opt-outs and the account-wide switches', () => {
+      expect(isEmailCategoryEnabled(user as any, 'item_activity')).toBe(true);
+      expect(isEmailCategoryEnabled({ ...user, emailPreferences: { item_activity: false } } as any, 'item_activity')).toBe(false);
+      expect(isEmailCategoryEnabled({ ...user, emailNotifications: false } as any, 'reminders')).toBe(false);
+      expect(isEmailCategoryEnabled({ ...user, digestFrequency: 'off' } as any, 'digests')).toBe(false);
+      // Billing ignores the item notification switch
+      expect(isEmailCategoryEnabled({ ...user, emailNotifications: false } as any, 'billing')).toBe(true);
+      expect(isEmailCategoryEnabled({ ...user, emailPreferences: { billing: false } } as any, 'billing')).toBe(false);
+    });
+
+    it('should not queue email for an opted-out category', async () => {
+      const optedOut = { ...user, emailPreferences: { reminders: false } };
+
+      await expect(queueUserEmail(optedOut as any, 'reminder', {
+        item: 'Call the dentist',
+        due: '9:00 AM'
+      })).resolves.toBeUndefined();
+      expect(mockStorage.enqueueEmail).not.toHaveBeenCalled();
+    });
+
+    it('should queue email with an unsubscribe footer and List-Unsubscribe headers', async () => {
+      await queueUserEmail(user as any, 'subscriptionConfirmed', { plan: 'Pro' });
+
+      const queued = mockStorage.enqueueEmail.mock.calls[0][0];
+      const oneClickUrl = queued.headers['List-Unsubscribe'].slice(1, -1);
+      const token = decodeURIComponent(new URL(oneClickUrl).searchParams.get('token')!);
+
+      expect(verifyUnsubscribeToken(token)).toEqual({ userId: user.id, category: 'billing' });
+      expect(queued.headers['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+      expect(queued.text).toContain('because billing updates emails are on for your account');
+      expect(queued.html).toContain('/email-preferences?token=');
+    });
+
+    it('should escape the unsubscribe link in the HTML footer', () => {
+      const { html } = renderEmail('subscriptionConfirmed', { plan: 'Pro' }, {
+        unsubscribeUrl: 'https://example.com/email-preferences?token=a"b&c'
+      });
+
+      expect(html).toContain('href="https://example.com/email-preferences?token=a&quot;b&amp;c"');
+    });
+  });
+
+  describe('GET /api/email/unsubscribe', () => {
+    it('should return the preferences for a valid token', async () => {
+      mockStorage.getUserById.mockResolvedValue({ ...user, emailPreferences: { digests: false } });
+
+      const response = await request(app)
+        .get('/api/email/unsubscribe')
+        .query({ token: createUnsubscribeToken(user.id, 'digests') })
+        .expect(200);
+
+      expect(mockStorage.getUserById).toHaveBeenCalledWith(user.id);
+      expect(response.body).toEqual({
+        email: 'test@example.com',
+        category: 'digests',
+        preferences: { item_activity: true, reminders: true, digests: false, billing: true }
+      });
+    });
+
+    it('should reject an invalid token', async () => {
+      const response = await request(app)
+        .get('/api/email/unsubscribe')
+        .query({ token: 'invalid' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid unsubscribe link');
+      expect(mockStorage.getUserById).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the user no longer exists', async () => {
+      await request(app)
+        .get('/api/email/unsubscribe')
+        .query({ token: createUnsubscribeToken(user.id, 'digests') })
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/email/unsubscribe', () => {
+    it('should unsubscribe from the token\'s category with a one-click post', async () => {
+      mockStorage.getUserById.mockResolvedValue({ ...user, emailPreferences: { digests: false } });
+      mockStorage.updateUser.mockResolvedValue({ ...user, emailPreferences: { digests: false, reminders: false } });
+
+      const response = await request(app)
+        .post('/api/email/unsubscribe')
+        .query({ token: createUnsubscribeToken(user.id, 'reminders') })
+        .type('form')
+        .send('List-Unsubscribe=One-Click')
+        .expect(200);
+
+      expect(mockStorage.updateUser).toHaveBeenCalledWith(user.id, {
+        emailPreferences: { digests: false, reminders: false }
+      });
+      expect(response.body).toEqual({
+        category: 'reminders',
+        preferences: { item_activity: true, reminders: false, digests: false, billing: true }
+      });
+    });
+
+    it('should merge preferences posted from the preference center', async () => {
+      mockStorage.getUserById.mockResolvedValue({ ...user, emailPreferences: { digests: false } });
+      mockStorage.updateUser.mockResolvedValue({ ...user, emailPreferences: { digests: true, billing: false } });
+
+      await request(app)
+        .post('/api/email/unsubscribe')
+        .send({
+          token: createUnsubscribeToken(user.id, 'digests'),
+          preferences: { digests: true, billing: false }
+        })
+        .expect(200);
+
+      expect(mockStorage.updateUser).toHaveBeenCalledWith(user.id, {
+        emailPreferences: { digests: true, billing: false }
+      });
+    });
+
+    it('should reject unknown categories', async () => {
+      mockStorage.getUserById.mockResolvedValue(user);
+
+      await request(app)
+        .post('/api/email/unsubscribe')
+        .send({
+          token: createUnsubscribeToken(user.id, 'digests'),
+          preferences: { marketing: false }
+        })
+        .expect(400);
+
+      expect(mockStorage.updateUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid token', async () => {
+      await request(app)
+        .post('/api/email/unsubscribe')
+        .query({ token: `${createUnsubscribeToken(user.id, 'digests')}x` })
+        .expect(400);
+
+      expect(mockStorage.updateUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/users/profile', () => {
+    it('should merge email preferences into the stored ones', async () => {
+      mockStorage.getUserById.mockResolvedValue({ ...user, emailPreferences: { digests: false } });
+      mockStorage.updateUser.mockResolvedValue({ ...user, emailPreferences: { digests: false, item_activity: false } });
+
+      await request(app)
+        .patch('/api/users/profile')
+        .send({ emailPreferences: { item_activity: false } })
+        .expect(200);
+
+      expect(mockStorage.updateUser).toHaveBeenCalledWith(user.id, {
+        emailPreferences: { digests: false, item_activity: false }
+      });
+    });
+  });
+});
@@ -1,7 +1,14 @@
 import request from 'supertest';
 import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { registerItemRoutes } from '../routes/itemRoutes';
+import { registerDevRoutes } from '../routes/devRoutes';
+import { registerEmailRoutes } from '../routes/emailRoutes';
 import { sendEmail } from '../mail';
+import { deliverDueEmails } from '../lib/emailOutbox';
+import { renderEmail, escapeHtml } from '../lib/emailTemplates';
 import { resetAllMocks, mockStorage, mockSendGrid } from './setup/mocks';
 
 // Import and apply mocks
@@ -25,7 +32,19 @@ describe('Email Workflow', () => {
   beforeAll(async () => {
     app = express();
     app.use(express.json());
+    // Lets a test act as another user, so per-user email limits do not carry over
+    app.use((req: any, _res, next) => {
+      const userId = req.get('x-test-user');
+      if (userId) {
+        req.user = { claims: { sub: userId } };
+      }
+      next();
+    });
     await registerItemRoutes(app);
+    process.env.ENABLE_DEV_ROUTES = '1';
+    await registerDevRoutes(app);
+    delete process.env.ENABLE_DEV_ROUTES;
+    await registerEmailRoutes(app);
   });
 
   beforeEach(() => {
@@ -200,15 +219,21 @@ describe('Email Workflow', () => {
       // Verify item creation
       expect(response.body).toEqual(createdItem);
 
-      // Verify email notification was sent
-      const mockMailService = getMockMailService();
-      expect(mockMailService.send).toHaveBeenCalledWith({
+      // Verify the email notification was queued rather than sent inline
+      expect(mockStorage.enqueueEmail).toHaveBeenCalledWith(expect.objectContaining({
         to: 'test@example.com',
-        from: 'carlos@kindnessengineering.com',
         subject: 'New Item Created',
-        text: 'A new item "Test task item" has been created in your list.',
-        html: '<p>A new item "<strong>Test task item</strong>" has been created in your list.</p>'
-      });
+        template: 'itemCreated',
+        headers: {
+          'List-Unsubscribe': expect.stringMatching(/^<http:\/\/localhost:5000\/api\/email\/unsubscribe\?token=.+>$/),
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+        }
+      }));
+      const queued = mockStorage.enqueueEmail.mock.calls[0][0];
+      expect(queued.text).toMatch(/^A new item "Test task item" has been created in your list\.\n/);
+      expect(queued.text).toContain('Unsubscribe or manage your email preferences: http://localhost:5000/email-preferences?token=');
+      expect(queued.html).toMatch(/^<p>A new item "<strong>Test task item<\/strong>" has been created in your list\.<\/p><hr>/);
+      expect(getMockMailService().send).not.toHaveBeenCalled();
     });
 
     it('should not send notification email when user has email notifications disabled', async () => {
@@ -240,9 +265,8 @@ describe('Email Workflow', () => {
       // Verify item creation
       expect(response.body).toEqual(createdItem);
 
-      // Verify no email notification was sent
-      const mockMailService = getMockMailService();
-      expect(mockMailService.send).not.toHaveBeenCalled();
+      // Verify no email notification was queued
+      expect(mockStorage.enqueueEmail).not.toHaveBeenCalled();
     });
 
     it('should not send notification email when user has no email', async () => {
@@ -274,9 +298,8 @@ describe('Email Workflow', () => {
       // Verify item creation
       expect(response.body).toEqual(createdItem);
 
-      // Verify no email notification was sent
-      const mockMailService = getMockMailService();
-      expect(mockMailService.send).not.toHaveBeenCalled();
+      // Verify no email notification was queued
+      expect(mockStorage.enqueueEmail).not.toHaveBeenCalled();
     });
 
     it('should continue item creation even if email notification fails', async () => {
@@ -298,9 +321,8 @@ describe('Email Workflow', () => {
       mockStorage.getItemsByUserId.mockResolvedValue([]);
       mockStorage.createItem.mockResolvedValue(createdItem);
 
-      // Mock email sending failure
-      const mockMailService = getMockMailService();
-      mockMailService.send.mockRejectedValue(new Error('Email sending failed'));
+      // Mock failure to queue the email
+      mockStorage.enqueueEmail.mockRejectedValue(new Error('Outbox unavailable'));
 
       const response = await request(app)
         .post('/api/items')
@@ -313,8 +335,8 @@ describe('Email Workflow', () => {
       expect(response.body).toEqual(createdItem);
       expect(mockStorage.createItem).toHaveBeenCalled();
 
-      // Verify email sending was attempted
-      expect(mockMailService.send).toHaveBeenCalled();
+      // Verify queueing the email was attempted
+      expect(mockStorage.enqueueEmail).toHaveBeenCalled();
     });
 
     it('should handle special characters in email content', async () => {
@@ -343,15 +365,282 @@ describe('Email Workflow', () => {
         })
         .expect(200);
 
-      // Verify email content handles special characters
-      const mockMailService = getMockMailService();
-      expect(mockMailService.send).toHaveBeenCalledWith({
+      // Verify the text part keeps the item as typed and the HTML part escapes it
+      const queued = mockStorage.enqueueEmail.mock.calls[0][0];
+      expect(queued.subject).toBe('New Item Created');
+      expect(queued.text.startsWith(`A new item "${itemWithSpecialChars}" has been created in your list.`)).toBe(true);
+      expect(queued.html.startsWith('<p>A new item "<strong>Test item with &quot;quotes&quot; &amp; &lt;tags&gt;</strong>" has been created in your list.</p>')).toBe(true);
+    });
+  });
+
+  describe('User-Sent Email', () => {
+    const sender = {
+      id: 'sharing-user',
+      email: 'jane@example.com',
+      firstName: 'Jane',
+      lastName: 'Doe'
+    };
+
+    const sendAs = (userId: string, body: Record<string, unknown>) =>
+      request(app).post('/api/send-email').set('x-test-user', userId).send(body);
+
+    it('should queue the message from our sender with replies to the user', async () => {
+      mockStorage.getUserById.mockResolvedValue(sender);
+
+      const response = await sendAs('sharing-user', {
+        to: ' Colleague@Example.com ',
+        subject: 'Groceries',
+        text: 'Milk\n<b>Eggs</b>',
+        // Ignored: the sender and HTML are always ours
+        from: 'ceo@example.com',
+        html: '<a href="https://phish.example">Log in</a>'
+      }).expect(202);
+
+      expect(response.body).toEqual({ id: 1, status: 'pending' });
+      expect(mockStorage.enqueueEmail).toHaveBeenCalledWith({
+        to: 'colleague@example.com',
+        subject: 'Groceries',
+        text: 'Milk\n<b>Eggs</b>\n\n--\nJane Doe (jane@example.com) sent you this message. Reply to this email to answer them.',
+        html: '<p>Milk<br>&lt;b&gt;Eggs&lt;/b&gt;</p><hr><p style="font-size:12px;color:#6b7280">Jane Doe (jane@example.com) sent you this message. Reply to this email to answer them.</p>',
+        replyTo: 'jane@example.com',
+        headers: null,
+        template: 'sharedMessage'
+      });
+    });
+
+    it('should reject invalid and multiple recipients', async () => {
+      mockStorage.getUserById.mockResolvedValue(sender);
+
+      for (const to of ['not-an-email', 'a@example.com, b@example.com', 'a@example.com\r\nBcc: b@example.com']) {
+        const response = await sendAs('recipient-user', { to, subject: 'Hi', text: 'Hello' }).expect(400);
+        expect(response.body.details).toEqual(['to: Invalid recipient email address']);
+      }
+      expect(mockStorage.enqueueEmail).not.toHaveBeenCalled();
+    });
+
+    it('should require an email address on the sending account', async () => {
+      mockStorage.getUserById.mockResolvedValue({ ...sender, id: 'no-email-user', email: null });
+
+      await sendAs('no-email-user', { to: 'colleague@example.com', subject: 'Hi', text: 'Hello' }).expect(403);
+      expect(mockStorage.enqueueEmail).not.toHaveBeenCalled();
+    });
+
+    it('should limit each user to five emails a minute', async () => {
+      mockStorage.getUserById.mockResolvedValue({ ...sender, id: 'busy-user' });
+      const body = { to: 'colleague@example.com', subject: 'Hi', text: 'Hello' };
+
+      for (let i = 0; i < 5; i++) {
+        await sendAs('busy-user', body).expect(202);
+      }
+      const response = await sendAs('busy-user', body).expect(429);
+
+      expect(response.body.error).toBe('Too many emails, please wait a minute.');
+      expect(mockStorage.enqueueEmail).toHaveBeenCalledTimes(5);
+      // Other users keep their own allowance
+      await sendAs('sharing-user-2', body).expect(202);
+    });
+  });
+
+  describe('Email Templates', () => {
+    it('should escape HTML special characters', () => {
+      expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`))
+        .toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;');
+    });
+
+    it('should render the item created template', () => {
+      expect(renderEmail('itemCreated', { item: '<script>alert(1)</script>' })).toMatchSnapshot();
+    });
+
+    it('should render the subscription confirmed template', () => {
+      expect(renderEmail('subscriptionConfirmed', { plan: 'Pro' })).toMatchSnapshot();
+    });
+
+    it('should render the payment failed template', () => {
+      expect(renderEmail('paymentFailed', {
+        amountDue: '$9.99',
+        invoiceUrl: 'https://invoice.stripe.com/i/test?a=1&b=2'
+      })).toMatchSnapshot();
+      expect(renderEmail('paymentFailed', { amountDue: '$9.99' }).html).not.toContain('<a ');
+    });
+
+    it('should render the reminder template', () => {
+      expect(renderEmail('reminder', { item: 'Pay "rent"', due: 'Tuesday, March 4' })).toMatchSnapshot();
+    });
+
+    it('should render the digest template', () => {
+      expect(renderEmail('digest', {
+        period: 'weekly',
+        counts: { open: 3, inProgress: 1, completed: 4 },
+        overdueCount: 3,
+        overdue: [
+          { item: 'File taxes', due: 'Feb 28' },
+          { item: 'Fix <b>bug</b>', due: 'Mar 1' }
+        ]
+      })).toMatchSnapshot();
+
+      const empty = renderEmail('digest', {
+        period: 'daily',
+        counts: { open: 1, inProgress: 0, completed: 0 },
+        overdueCount: 0,
+        overdue: []
+      });
+      expect(empty.text).toContain('Nothing is overdue.');
+      expect(empty.html).not.toContain('...and');
+    });
+  });
+
+  describe('Email Outbox', () => {
+    const now = new Date('2025-03-03T12:00:00.000Z');
+
+    const queuedEmail = (overrides: Record<string, unknown> = {}) => ({
+      id: 1,
+      to: 'test@example.com',
+      subject: 'New Item Created',
+      text: 'A new item "Milk" has been created in your list.',
+      html: '<p>A new item "<strong>Milk</strong>" has been created in your list.</p>',
+      template: 'itemCreated',
+      status: 'sending',
+      attempts: 1,
+      maxAttempts: 5,
+      nextAttemptAt: now,
+      lastError: null,
+      lockedAt: now,
+      providerMessageId: null,
+      sentAt: null,
+      createdAt: now,
+      updatedAt: now,
+      ...overrides
+    });
+
+    it('should deliver queued emails and record the provider message ID', async () => {
+      mockStorage.claimDueEmails.mockResolvedValueOnce([queuedEmail()]);
+
+      await expect(deliverDueEmails(now)).resolves.toBe(1);
+
+      expect(mockStorage.releaseStaleEmails).toHaveBeenCalledWith(new Date(now.getTime() - 10 * 60 * 1000));
+      expect(mockStorage.claimDueEmails).toHaveBeenCalledWith(now, 20);
+      expect(getMockMailService().send).toHaveBeenCalledWith({
         to: 'test@example.com',
         from: 'carlos@kindnessengineering.com',
         subject: 'New Item Created',
-        text: `A new item "${itemWithSpecialChars}" has been created in your list.`,
-        html: `<p>A new item "<strong>${itemWithSpecialChars}</strong>" has been created in your list.</p>`
+        text: 'A new item "Milk" has been created in your list.',
+        html: '<p>A new item "<strong>Milk</strong>" has been created in your list.</p>'
       });
+      expect(mockStorage.markEmailSent).toHaveBeenCalledWith(1, 'abc123.filter001.12345.67890');
+    });
+
+    it('should retry transient failures with backoff', async () => {
+      mockStorage.claimDueEmails.mockResolvedValueOnce([queuedEmail({ attempts: 2 })]);
+      getMockMailService().send.mockRejectedValue(Object.assign(new Error('Service unavailable'), { code: 503 }));
+      const before = Date.now();
+
+      await deliverDueEmails(now);
+
+      expect(mockStorage.markEmailSent).not.toHaveBeenCalled();
+      const [id, error, retryAt] = mockStorage.markEmailFailed.mock.calls[0];
+      expect(id).toBe(1);
+      expect(error).toBe('Service unavailable');
+      expect(retryAt.getTime()).toBeGreaterThanOrEqual(before + 60 * 1000);
+    });
+
+    it('should dead-letter permanent failures and emails out of attempts', async () => {
+      mockStorage.claimDueEmails.mockResolvedValueOnce([
+        queuedEmail({ id: 1, attempts: 1 }),
+        queuedEmail({ id: 2, attempts: 5 })
+      ]);
+      getMockMailService().send
+        .mockRejectedValueOnce(Object.assign(new Error('Invalid email'), { code: 400 }))
+        .mockRejectedValueOnce(new Error('Network timeout'));
+
+      await deliverDueEmails(now);
+
+      expect(mockStorage.markEmailFailed).toHaveBeenCalledWith(1, 'Invalid email', null);
+      expect(mockStorage.markEmailFailed).toHaveBeenCalledWith(2, 'Network timeout', null);
+    });
+
+    it('should not retry when no transport is configured', async () => {
+      delete process.env.SENDGRID_API_KEY;
+      mockStorage.claimDueEmails.mockResolvedValueOnce([queuedEmail()]);
+
+      await deliverDueEmails(now);
+
+      expect(mockStorage.markEmailFailed).toHaveBeenCalledWith(1, 'Mail transport sendgrid is not configured', null);
+    });
+  });
+
+  describe('Mail Transports', () => {
+    afterEach(() => {
+      delete process.env.MAIL_TRANSPORT;
+      delete process.env.MAIL_OUTBOX_DIR;
+      delete process.env.SMTP_URL;
+    });
+
+    it('should keep messages in the dev outbox with the memory transport', async () => {
+      process.env.MAIL_TRANSPORT = 'memory';
+      await request(app).delete('/api/dev/outbox').expect(204);
+
+      await sendEmail({ to: 'a@example.com', subject: 'First', text: 'One' });
+      await sendEmail({ to: 'b@example.com', subject: 'Second', text: 'Two' });
+
+      const response = await request(app).get('/api/dev/outbox').expect(200);
+
+      expect(response.body.driver).toBe('memory');
+      expect(response.body.messages).toEqual([
+        expect.objectContaining({ to: 'b@example.com', from: 'carlos@kindnessengineering.com', subject: 'Second', text: 'Two', html: 'Two' }),
+        expect.objectContaining({ to: 'a@example.com', subject: 'First' })
+      ]);
+      expect(getMockMailService().send).not.toHaveBeenCalled();
+
+      const filtered = await request(app).get('/api/dev/outbox').query({ to: 'a@example.com' }).expect(200);
+      expect(filtered.body.messages).toHaveLength(1);
+    });
+
+    it('should write .eml files with the file transport', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-outbox-'));
+      process.env.MAIL_TRANSPORT = 'file';
+      process.env.MAIL_OUTBOX_DIR = dir;
+
+      try {
+        const result = await sendEmail({ to: 'test@example.com', subject: 'Saved', text: 'Plain', html: '<p>Rich</p>' });
+
+        expect(result).toBe(true);
+        const files = fs.readdirSync(dir);
+        expect(files).toHaveLength(1);
+        expect(files[0]).toMatch(/\.eml$/);
+        const eml = fs.readFileSync(path.join(dir, files[0]), 'utf8');
+        expect(eml).toContain('Subject: Saved');
+        expect(eml).toContain('Content-Type: multipart/alternative');
+        expect(eml).toContain('<p>Rich</p>');
+
+        const response = await request(app).get('/api/dev/outbox').expect(200);
+        expect(response.body.driver).toBe('file');
+        expect(response.body.messages[0]).toMatchObject({ subject: 'Saved' });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should not send with a misconfigured transport', async () => {
+      process.env.MAIL_TRANSPORT = 'smtp';
+      await expect(sendEmail({ to: 'test@example.com', subject: 'Test', text: 'Test' })).resolves.toBe(false);
+
+      process.env.MAIL_TRANSPORT = 'carrier-pigeon';
+      await expect(sendEmail({ to: 'test@example.com', subject: 'Test', text: 'Test' })).resolves.toBe(false);
+
+      expect(getMockMailService().send).not.toHaveBeenCalled();
+    });
+
+    it('should only serve the outbox for in-process transports', async () => {
+      const response = await request(app).get('/api/dev/outbox').expect(409);
+
+      expect(response.body.error).toContain('MAIL_TRANSPORT=memory or file');
+    });
+
+    it('should only register the outbox routes when dev routes are enabled', async () => {
+      const devApp = express();
+      await registerDevRoutes(devApp);
+
+      await request(devApp).get('/api/dev/outbox').expect(404);
     });
   });
 
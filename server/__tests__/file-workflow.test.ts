@@ -0,0 +1,267 @@
+import request from 'supertest';
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { registerFileRoutes } from '../routes/fileRoutes';
+import { resetAllMocks, mockStorage } from './setup/mocks';
+
+// Import and apply mocks
+import './setup/mocks';
+
+describe('File Workflow', () => {
+  let app: express.Express;
+  let storageDir: string;
+
+  const storedFile = {
+    id: 7,
+    name: 'stored-name.txt',
+    originalName: 'notes.txt',
+    path: 'users/test-replit-user-id/files/stored-name.txt',
+    url: '/api/files/7/download',
+    size: 11,
+    type: 'text/plain',
+    userId: 'test-replit-user-id',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z'
+  };
+
+  beforeAll(async () => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-workflow-'));
+    process.env.FILE_STORAGE_DIR = storageDir;
+
+    app = express();
+    app.use(express.json());
+    await registerFileRoutes(app);
+  });
+
+  afterAll(() => {
+    fs.rmSync(storageDir, { recursive: true, force: true });
+    delete process.env.FILE_STORAGE_DIR;
+  });
+
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  describe('GET /api/files', () => {
+    it('should list files for the authenticated user', async () => {
+      mockStorage.getFilesByUserId.mockResolvedValue([storedFile]);
+
+      const response = await request(app)
+        .get('/api/files')
+        .expect(200);
+
+      expect(mockStorage.getFilesByUserId).toHaveBeenCalledWith('test-replit-user-id');
+      expect(response.body).toEqual([storedFile]);
+    });
+  });
+
+  describe('POST /api/files/upload', () => {
+    it('should store content on disk and record metadata', async () => {
+      mockStorage.createFile.mockImplementation(async (data: any) => ({ id: 42, ...data }));
+      mockStorage.updateFile.mockImplementation(async (id: number, data: any) => ({ id, ...data }));
+
+      const response = await request(app)
+        .post('/api/files/upload')
+        .attach('file', Buffer.from('hello world'), { filename: 'greeting.txt', contentType: 'text/plain' })
+        .expect(200);
+
+      const created = mockStorage.createFile.mock.calls[0][0];
+      expect(created).toMatchObject({
+        userId: 'test-replit-user-id',
+        originalName: 'greeting.txt',
+        size: 11,
+        type: 'text/plain'
+      });
+      expect(created.name).toMatch(/^[0-9a-f-]{36}\.txt$/);
+      expect(created.path).toBe(`users/test-replit-user-id/files/${created.name}`);
+      expect(mockStorage.updateFile).toHaveBeenCalledWith(42, { url: '/api/files/42/download' });
+      expect(response.body).toEqual({ id: 42, url: '/api/files/42/download' });
+
+      const onDisk = fs.readFileSync(path.join(storageDir, created.path), 'utf8');
+      expect(onDisk).toBe('hello world');
+    });
+
+    it('should strip directory components from the original name', async () => {
+      mockStorage.createFile.mockImplementation(async (data: any) => ({ id: 43, ...data }));
+      mockStorage.updateFile.mockImplementation(async (id: number, data: any) => ({ id, ...data }));
+
+      await request(app)
+        .post('/api/files/upload')
+        .attach('file', Buffer.from('x'), { filename: '../../etc/passwd', contentType: 'text/plain' })
+        .expect(200);
+
+      expect(mockStorage.createFile.mock.calls[0][0].originalName).toBe('passwd');
+    });
+
+    it('should reject requests without a file', async () => {
+      const response = await request(app)
+        .post('/api/files/upload')
+        .field('note', 'no file here')
+        .expect(400);
+
+      expect(response.body.code).toBe('validation_error');
+      expect(mockStorage.createFile).not.toHaveBeenCalled();
+    });
+
+    it('should remove stored content when the metadata insert fails', async () => {
+      mockStorage.createFile.mockRejectedValue(new Error('Database error'));
+
+      await request(app)
+        .post('/api/files/upload')
+        .attach('file', Buffer.from('orphan'), { filename: 'orphan.txt', contentType: 'text/plain' })
+        .expect(500);
+
+      const userDir = path.join(storageDir, 'users/test-replit-user-id/files');
+      const leftovers = fs.existsSync(userDir)
+        ? fs.readdirSync(userDir).filter(name => fs.readFileSync(path.join(userDir, name), 'utf8') === 'orphan')
+        : [];
+      expect(leftovers).toEqual([]);
+    });
+  });
+
+  describe('Plan Quotas', () => {
+    const MB = 1024 * 1024;
+
+    it('should report usage and free plan limits', async () => {
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', subscriptionType: 'free' });
+      mockStorage.getFileUsageByUserId.mockResolvedValue({ fileCount: 3, totalBytes: 2048 });
+
+      const response = await request(app)
+        .get('/api/files/usage')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        plan: 'free',
+        usage: { fileCount: 3, totalBytes: 2048 },
+        limits: { maxFiles: 10, maxTotalBytes: 100 * MB, maxFileBytes: 10 * MB }
+      });
+    });
+
+    it('should report pro plan limits', async () => {
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', subscriptionType: 'pro' });
+
+      const response = await request(app)
+        .get('/api/files/usage')
+        .expect(200);
+
+      expect(response.body.limits).toEqual({ maxFiles: 100, maxTotalBytes: 1024 * MB, maxFileBytes: 50 * MB });
+    });
+
+    it('should reject uploads once the file count limit is reached', async () => {
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', subscriptionType: 'free' });
+      mockStorage.getFileUsageByUserId.mockResolvedValue({ fileCount: 10, totalBytes: 1024 });
+
+      const response = await request(app)
+        .post('/api/files/upload')
+        .attach('file', Buffer.from('x'), { filename: 'one-too-many.txt', contentType: 'text/plain' })
+        .expect(403);
+
+      expect(response.body.code).toBe('forbidden');
+      expect(response.body.usage).toEqual({ fileCount: 10, totalBytes: 1024 });
+      expect(response.body.limits.maxFiles).toBe(10);
+      expect(mockStorage.createFile).not.toHaveBeenCalled();
+    });
+
+    it('should reject uploads that would exceed total storage', async () => {
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', subscriptionType: 'free' });
+      mockStorage.getFileUsageByUserId.mockResolvedValue({ fileCount: 2, totalBytes: 100 * MB - 1 });
+
+      const response = await request(app)
+        .post('/api/files/upload')
+        .attach('file', Buffer.from('xy'), { filename: 'overflow.txt', contentType: 'text/plain' })
+        .expect(413);
+
+      expect(response.body.code).toBe('payload_too_large');
+      expect(response.body.usage.totalBytes).toBe(100 * MB - 1);
+      expect(mockStorage.createFile).not.toHaveBeenCalled();
+    });
+
+    it('should reject files larger than the per-file limit for the plan', async () => {
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', subscriptionType: 'free' });
+
+      const response = await request(app)
+        .post('/api/files/upload')
+        .attach('file', Buffer.alloc(10 * MB + 1), { filename: 'big.bin', contentType: 'application/octet-stream' })
+        .expect(413);
+
+      expect(response.body.limits.maxFileBytes).toBe(10 * MB);
+      expect(mockStorage.createFile).not.toHaveBeenCalled();
+    });
+
+    it('should parse uploads up to the largest plan limit and leave the rest to the plan', async () => {
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', subscriptionType: 'pro' });
+
+      // Above Pro's 50MB but within Team's 100MB, so the plan check rejects it, not multer
+      const response = await request(app)
+        .post('/api/files/upload')
+        .attach('file', Buffer.alloc(50 * MB + 1), { filename: 'big.bin', contentType: 'application/octet-stream' })
+        .expect(413);
+
+      expect(response.body.limits.maxFileBytes).toBe(50 * MB);
+      expect(mockStorage.createFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/files/:id/download', () => {
+    it('should stream owned file content with safe headers', async () => {
+      const fullPath = path.join(storageDir, storedFile.path);
+      fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+      fs.writeFileSync(fullPath, 'hello world');
+      mockStorage.getFileById.mockResolvedValue({ ...storedFile, originalName: 'résumé "final".txt' });
+
+      const response = await request(app)
+        .get('/api/files/7/download')
+        .expect(200);
+
+      expect(response.text).toBe('hello world');
+      expect(response.headers['content-type']).toContain('text/plain');
+      expect(response.headers['content-disposition']).toBe(
+        `attachment; filename="r_sum_ _final_.txt"; filename*=UTF-8''r%C3%A9sum%C3%A9%20%22final%22.txt`
+      );
+    });
+
+    it('should return 404 when stored content is missing', async () => {
+      mockStorage.getFileById.mockResolvedValue({ ...storedFile, path: 'users/test-replit-user-id/files/missing.txt' });
+
+      await request(app)
+        .get('/api/files/7/download')
+        .expect(404);
+    });
+
+    it('should not stream files owned by other users', async () => {
+      mockStorage.getFileById.mockResolvedValue({ ...storedFile, userId: 'other-replit-user-id' });
+
+      await request(app)
+        .get('/api/files/7/download')
+        .expect(403);
+    });
+  });
+
+  describe('DELETE /api/files/:id', () => {
+    it('should delete the record and stored content', async () => {
+      const fullPath = path.join(storageDir, storedFile.path);
+      fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+      fs.writeFileSync(fullPath, 'hello world');
+      mockStorage.getFileById.mockResolvedValue(storedFile);
+
+      await request(app)
+        .delete('/api/files/7')
+        .expect(204);
+
+      expect(mockStorage.deleteFile).toHaveBeenCalledWith(7);
+      expect(fs.existsSync(fullPath)).toBe(false);
+    });
+
+    it('should not delete files owned by other users', async () => {
+      mockStorage.getFileById.mockResolvedValue({ ...storedFile, userId: 'other-replit-user-id' });
+
+      await request(app)
+        .delete('/api/files/7')
+        .expect(403);
+
+      expect(mockStorage.deleteFile).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,502 @@
+import request from 'supertest';
+import express from 'express';
+import { registerItemRoutes } from '../routes/itemRoutes';
+import { encodeCursor, decodeCursor } from '../lib/pagination';
+import { purgeDeletedItems, TRASH_RETENTION_DAYS } from '../lib/itemTrash';
+import { resetAllMocks, mockStorage } from './setup/mocks';
+
+// Import and apply mocks
+import './setup/mocks';
+
+describe('Item Workflow', () => {
+  let app: express.Express;
+
+  const ownedItem = {
+    id: 1,
+    item: 'Buy milk',
+    userId: 'test-replit-user-id',
+    status: 'open',
+    description: null,
+    dueDate: null,
+    priority: null,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z'
+  };
+
+  beforeAll(async () => {
+    app = express();
+    app.use(express.json());
+    await registerItemRoutes(app);
+  });
+
+  beforeEach(() => {
+    resetAllMocks();
+    mockStorage.getItemsByUserId.mockResolvedValue([ownedItem]);
+  });
+
+  describe('GET /api/items', () => {
+    it('should return a plain array when no list params are given', async () => {
+      const response = await request(app)
+        .get('/api/items')
+        .expect(200);
+
+      expect(response.body).toEqual([{ ...ownedItem, subtaskProgress: { total: 0, completed: 0 } }]);
+      expect(mockStorage.listItems).not.toHaveBeenCalled();
+    });
+
+    it('should return a page with pagination metadata', async () => {
+      mockStorage.listItems.mockResolvedValue({ items: [ownedItem], total: 3, nextCursor: 'abc' });
+
+      const response = await request(app)
+        .get('/api/items?limit=1')
+        .expect(200);
+
+      expect(mockStorage.listItems).toHaveBeenCalledWith('test-replit-user-id', {
+        sort: 'createdAt',
+        order: 'desc',
+        limit: 1
+      });
+      expect(response.body).toEqual({
+        items: [{ ...ownedItem, tags: [], subtaskProgress: { total: 0, completed: 0 } }],
+        pagination: { limit: 1, total: 3, nextCursor: 'abc', hasMore: true }
+      });
+    });
+
+    it('should pass filters, search, sort and cursor to storage', async () => {
+      const cursor = encodeCursor({ value: '2025-01-01 00:00:00.123456', id: 9 });
+
+      const response = await request(app)
+        .get('/api/items')
+        .query({ status: 'open', q: '  milk ', sort: 'updatedAt', order: 'asc', limit: '50', cursor })
+        .expect(200);
+
+      expect(mockStorage.listItems).toHaveBeenCalledWith('test-replit-user-id', {
+        status: 'open',
+        q: 'milk',
+        sort: 'updatedAt',
+        order: 'asc',
+        limit: 50,
+        cursor: { value: '2025-01-01 00:00:00.123456', id: 9 }
+      });
+      expect(response.body.pagination.hasMore).toBe(false);
+    });
+
+    it('should reject invalid list params', async () => {
+      await request(app).get('/api/items?status=archived').expect(400);
+      await request(app).get('/api/items?sort=userId').expect(400);
+      await request(app).get('/api/items?limit=1000').expect(400);
+      await request(app).get('/api/items?cursor=not-a-cursor').expect(400);
+
+      expect(mockStorage.listItems).not.toHaveBeenCalled();
+    });
+
+    it('should round-trip cursors', () => {
+      const cursor = { value: 'Buy milk', id: 12 };
+      expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+      expect(decodeCursor(Buffer.from('{"id":1}').toString('base64url'))).toBeNull();
+    });
+  });
+
+  describe('POST /api/items', () => {
+    it('should accept optional details when creating an item', async () => {
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', subscriptionType: 'free' });
+
+      await request(app)
+        .post('/api/items')
+        .send({ item: 'Plan trip', description: 'Book flights', dueDate: '2025-06-30', priority: 'high' })
+        .expect(200);
+
+      expect(mockStorage.createItem).toHaveBeenCalledWith({
+        userId: 'test-replit-user-id',
+        item: 'Plan trip',
+        status: 'open',
+        description: 'Book flights',
+        dueDate: new Date('2025-06-30'),
+        priority: 'high'
+      });
+    });
+  });
+
+  describe('PATCH /api/items/:id', () => {
+    it('should edit the item text', async () => {
+      mockStorage.updateItem.mockResolvedValue({ ...ownedItem, item: 'Buy oat milk' });
+
+      const response = await request(app)
+        .patch('/api/items/1')
+        .send({ item: '  Buy oat milk ' })
+        .expect(200);
+
+      expect(mockStorage.updateItem).toHaveBeenCalledWith(1, { item: 'Buy oat milk' });
+      expect(response.body.item).toBe('Buy oat milk');
+    });
+
+    it('should set description, due date and priority', async () => {
+      mockStorage.updateItem.mockResolvedValue(ownedItem);
+
+      await request(app)
+        .patch('/api/items/1')
+        .send({ description: 'From the corner shop', dueDate: '2025-03-01T12:00:00.000Z', priority: 'medium' })
+        .expect(200);
+
+      expect(mockStorage.updateItem).toHaveBeenCalledWith(1, {
+        description: 'From the corner shop',
+        dueDate: new Date('2025-03-01T12:00:00.000Z'),
+        priority: 'medium'
+      });
+    });
+
+    it('should clear optional fields with null', async () => {
+      mockStorage.updateItem.mockResolvedValue(ownedItem);
+
+      await request(app)
+        .patch('/api/items/1')
+        .send({ description: null, dueDate: null, priority: null })
+        .expect(200);
+
+      expect(mockStorage.updateItem).toHaveBeenCalledWith(1, { description: null, dueDate: null, priority: null });
+    });
+
+    it('should reject invalid values', async () => {
+      await request(app)
+        .patch('/api/items/1')
+        .send({ priority: 'urgent' })
+        .expect(400);
+
+      await request(app)
+        .patch('/api/items/1')
+        .send({ dueDate: 'not-a-date' })
+        .expect(400);
+
+      await request(app)
+        .patch('/api/items/1')
+        .send({ item: '' })
+        .expect(400);
+
+      expect(mockStorage.updateItem).not.toHaveBeenCalled();
+    });
+
+    it('should reject empty updates', async () => {
+      await request(app)
+        .patch('/api/items/1')
+        .send({})
+        .expect(400);
+
+      expect(mockStorage.updateItem).not.toHaveBeenCalled();
+    });
+
+    it('should not edit items owned by other users', async () => {
+      mockStorage.getItemsByUserId.mockResolvedValue([]);
+
+      await request(app)
+        .patch('/api/items/1')
+        .send({ item: 'Hijacked' })
+        .expect(404);
+
+      expect(mockStorage.updateItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/items/reorder', () => {
+    it('should reorder the user\'s items', async () => {
+      mockStorage.getItemsByUserId.mockResolvedValue([ownedItem, { ...ownedItem, id: 2 }]);
+
+      await request(app)
+        .post('/api/items/reorder')
+        .send({ ids: [2, 1] })
+        .expect(204);
+
+      expect(mockStorage.reorderItems).toHaveBeenCalledWith('test-replit-user-id', [2, 1]);
+    });
+
+    it('should reject duplicate or missing ids', async () => {
+      await request(app)
+        .post('/api/items/reorder')
+        .send({ ids: [1, 1] })
+        .expect(400);
+
+      await request(app)
+        .post('/api/items/reorder')
+        .send({ ids: [] })
+        .expect(400);
+
+      expect(mockStorage.reorderItems).not.toHaveBeenCalled();
+    });
+
+    it('should not reorder items owned by other users', async () => {
+      await request(app)
+        .post('/api/items/reorder')
+        .send({ ids: [1, 99] })
+        .expect(404);
+
+      expect(mockStorage.reorderItems).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/items/bulk', () => {
+    it('should set the status of many items', async () => {
+      mockStorage.getOwnedItemIds.mockResolvedValue([1, 2]);
+      mockStorage.applyBulkItemAction.mockResolvedValue(2);
+
+      const response = await request(app)
+        .post('/api/items/bulk')
+        .send({ action: 'set_status', ids: [1, 2], status: 'in_progress' })
+        .expect(200);
+
+      expect(mockStorage.getOwnedItemIds).toHaveBeenCalledWith('test-replit-user-id', [1, 2]);
+      expect(mockStorage.applyBulkItemAction).toHaveBeenCalledWith('test-replit-user-id', {
+        action: 'set_status',
+        ids: [1, 2],
+        status: 'in_progress'
+      });
+      expect(response.body).toEqual({ success: true, action: 'set_status', count: 2 });
+    });
+
+    it('should record the previous status of each item that changed', async () => {
+      mockStorage.getOwnedItemIds.mockResolvedValue([1, 2]);
+      mockStorage.getItemsByIds.mockResolvedValue([
+        { id: 1, userId: 'test-replit-user-id', item: 'Open item', status: 'open', recurrence: null },
+        { id: 2, userId: 'test-replit-user-id', item: 'Started item', status: 'in_progress', recurrence: null }
+      ]);
+      mockStorage.applyBulkItemAction.mockResolvedValue(2);
+
+      await request(app)
+        .post('/api/items/bulk')
+        .send({ action: 'set_status', ids: [1, 2], status: 'in_progress' })
+        .expect(200);
+
+      // Item 2 was already in progress, so only item 1 gets a history entry
+      expect(mockStorage.createItemEvents).toHaveBeenCalledWith([{
+        itemId: 1,
+        userId: 'test-replit-user-id',
+        type: 'status_changed',
+        source: 'ui',
+        changes: { status: { from: 'open', to: 'in_progress' } }
+      }]);
+    });
+
+    it('should delete many items', async () => {
+      mockStorage.getOwnedItemIds.mockResolvedValue([1, 2]);
+      mockStorage.applyBulkItemAction.mockResolvedValue(2);
+
+      await request(app)
+        .post('/api/items/bulk')
+        .send({ action: 'delete', ids: [1, 2] })
+        .expect(200);
+
+      expect(mockStorage.applyBulkItemAction).toHaveBeenCalledWith('test-replit-user-id', { action: 'delete', ids: [1, 2] });
+    });
+
+    it('should tag many items with an owned tag', async () => {
+      mockStorage.getOwnedItemIds.mockResolvedValue([1, 2]);
+      mockStorage.getTagById.mockResolvedValue({ id: 5, name: 'work', userId: 'test-replit-user-id' });
+
+      await request(app)
+        .post('/api/items/bulk')
+        .send({ action: 'tag', ids: [1, 2], tagId: 5 })
+        .expect(200);
+
+      expect(mockStorage.applyBulkItemAction).toHaveBeenCalledWith('test-replit-user-id', {
+        action: 'tag',
+        ids: [1, 2],
+        tagId: 5,
+        attached: true
+      });
+    });
+
+    it('should not tag items with another user\'s tag', async () => {
+      mockStorage.getOwnedItemIds.mockResolvedValue([1]);
+      mockStorage.getTagById.mockResolvedValue({ id: 5, name: 'work', userId: 'other-replit-user-id' });
+
+      await request(app)
+        .post('/api/items/bulk')
+        .send({ action: 'tag', ids: [1], tagId: 5 })
+        .expect(404);
+
+      expect(mockStorage.applyBulkItemAction).not.toHaveBeenCalled();
+    });
+
+    it('should reject the whole batch if any item is not owned', async () => {
+      mockStorage.getOwnedItemIds.mockResolvedValue([1]);
+
+      const response = await request(app)
+        .post('/api/items/bulk')
+        .send({ action: 'delete', ids: [1, 99] })
+        .expect(404);
+
+      expect(response.body.missingIds).toEqual([99]);
+      expect(mockStorage.applyBulkItemAction).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown actions and missing fields', async () => {
+      await request(app)
+        .post('/api/items/bulk')
+        .send({ action: 'archive', ids: [1] })
+        .expect(400);
+
+      await request(app)
+        .post('/api/items/bulk')
+        .send({ action: 'set_status', ids: [1] })
+        .expect(400);
+
+      expect(mockStorage.getOwnedItemIds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Trash', () => {
+    const trashedItem = { ...ownedItem, id: 2, deletedAt: '2025-03-01T00:00:00.000Z' };
+
+    it('should move deleted items to the trash', async () => {
+      await request(app)
+        .delete('/api/items/1')
+        .expect(204);
+
+      expect(mockStorage.deleteItem).toHaveBeenCalledWith(1);
+    });
+
+    it('should list trashed items with their purge date', async () => {
+      mockStorage.getDeletedItemsByUserId.mockResolvedValue([trashedItem]);
+
+      const response = await request(app)
+        .get('/api/items/trash')
+        .expect(200);
+
+      expect(mockStorage.getDeletedItemsByUserId).toHaveBeenCalledWith('test-replit-user-id');
+      expect(response.body).toEqual([{
+        ...trashedItem,
+        purgeAt: new Date(Date.parse(trashedItem.deletedAt) + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+      }]);
+    });
+
+    it('should restore a trashed item', async () => {
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', subscriptionType: 'pro' });
+      mockStorage.restoreItem.mockResolvedValue({ ...trashedItem, deletedAt: null });
+
+      const response = await request(app)
+        .post('/api/items/2/restore')
+        .expect(200);
+
+      expect(mockStorage.restoreItem).toHaveBeenCalledWith('test-replit-user-id', 2);
+      expect(response.body.deletedAt).toBeNull();
+    });
+
+    it('should return 404 when the item is not in the user\'s trash', async () => {
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', subscriptionType: 'pro' });
+
+      await request(app)
+        .post('/api/items/2/restore')
+        .expect(404);
+    });
+
+    it('should apply the free plan item limit to restores', async () => {
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', subscriptionType: 'free' });
+      mockStorage.getItemsByUserId.mockResolvedValue(Array.from({ length: 5 }, (_, i) => ({ ...ownedItem, id: i + 10 })));
+
+      await request(app)
+        .post('/api/items/2/restore')
+        .expect(403);
+
+      expect(mockStorage.restoreItem).not.toHaveBeenCalled();
+    });
+
+    it('should purge items deleted before the retention period', async () => {
+      mockStorage.purgeDeletedItems.mockResolvedValue(3);
+      const now = new Date('2025-06-01T00:00:00.000Z');
+
+      await expect(purgeDeletedItems(now)).resolves.toBe(3);
+      expect(mockStorage.purgeDeletedItems).toHaveBeenCalledWith(
+        new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+      );
+    });
+  });
+
+  describe('Item history', () => {
+    const statusEvent = {
+      id: 10,
+      itemId: 1,
+      userId: 'test-replit-user-id',
+      type: 'status_changed',
+      source: 'ui',
+      changes: { status: { from: 'open', to: 'completed' } },
+      createdAt: '2025-01-02T00:00:00.000Z'
+    };
+
+    it('should return the item history', async () => {
+      mockStorage.getItemEventsByItemId.mockResolvedValue([statusEvent]);
+
+      const response = await request(app)
+        .get('/api/items/1/history')
+        .expect(200);
+
+      expect(mockStorage.getItemEventsByItemId).toHaveBeenCalledWith(1);
+      expect(response.body).toEqual([statusEvent]);
+    });
+
+    it('should not return history for items owned by other users', async () => {
+      mockStorage.getItemsByUserId.mockResolvedValue([]);
+
+      await request(app)
+        .get('/api/items/1/history')
+        .expect(404);
+
+      expect(mockStorage.getItemEventsByItemId).not.toHaveBeenCalled();
+    });
+
+    it('should record a created event', async () => {
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', subscriptionType: 'free' });
+      mockStorage.createItem.mockResolvedValue({ ...ownedItem, id: 2, item: 'Plan trip' });
+
+      await request(app)
+        .post('/api/items')
+        .send({ item: 'Plan trip' })
+        .expect(200);
+
+      expect(mockStorage.createItemEvents).toHaveBeenCalledWith([{
+        itemId: 2,
+        userId: 'test-replit-user-id',
+        type: 'created',
+        source: 'ui',
+        changes: { item: { to: 'Plan trip' }, status: { to: 'open' } }
+      }]);
+    });
+
+    it('should record status changes with the previous status', async () => {
+      mockStorage.updateItemStatus.mockResolvedValue({ ...ownedItem, status: 'completed' });
+
+      await request(app)
+        .patch('/api/items/1/status')
+        .send({ status: 'completed' })
+        .expect(200);
+
+      expect(mockStorage.createItemEvents).toHaveBeenCalledWith([expect.objectContaining({
+        itemId: 1,
+        type: 'status_changed',
+        source: 'ui',
+        changes: { status: { from: 'open', to: 'completed' } }
+      })]);
+    });
+
+    it('should record only the fields that changed in an edit', async () => {
+      mockStorage.updateItem.mockResolvedValue({ ...ownedItem, item: 'Buy oat milk' });
+
+      await request(app)
+        .patch('/api/items/1')
+        .send({ item: 'Buy oat milk', description: null })
+        .expect(200);
+
+      expect(mockStorage.createItemEvents).toHaveBeenCalledWith([expect.objectContaining({
+        type: 'edited',
+        changes: { item: { from: 'Buy milk', to: 'Buy oat milk' } }
+      })]);
+    });
+
+    it('should not fail the change when recording history fails', async () => {
+      mockStorage.createItemEvents.mockRejectedValue(new Error('db down'));
+
+      await request(app)
+        .delete('/api/items/1')
+        .expect(204);
+
+      expect(mockStorage.deleteItem).toHaveBeenCalledWith(1);
+    });
+  });
+});
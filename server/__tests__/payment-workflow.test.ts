@@ -353,4 +353,80 @@ describe('Payment Workflow', () => {
       });
     });
   });
+
+  describe('GET /api/billing/subscription - Subscription State', () => {
+    const subscription = {
+      id: 1,
+      userId: 'test-replit-user-id',
+      stripeSubscriptionId: 'sub_test123',
+      stripeCustomerId: 'cus_test123',
+      stripePriceId: 'price_test_pro123',
+      status: 'active',
+      currentPeriodEnd: new Date('2025-04-01T00:00:00.000Z'),
+      cancelAtPeriodEnd: true,
+      trialEnd: null,
+      canceledAt: new Date('2025-03-10T00:00:00.000Z'),
+      gracePeriodEndsAt: null
+    };
+
+    it('should return the free plan without a subscription', async () => {
+      const response = await request(app)
+        .get('/api/billing/subscription')
+        .expect(200);
+
+      expect(mockStorage.getSubscriptionsByUserId).toHaveBeenCalledWith('test-replit-user-id');
+      expect(response.body).toEqual({ plan: 'free', subscription: null });
+    });
+
+    it('should return the subscription granting the plan', async () => {
+      mockStorage.getSubscriptionsByUserId.mockResolvedValue([
+        { ...subscription, id: 2, stripeSubscriptionId: 'sub_test456', status: 'incomplete_expired' },
+        subscription
+      ]);
+
+      const response = await request(app)
+        .get('/api/billing/subscription')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        plan: 'pro',
+        subscription: {
+          status: 'active',
+          priceId: 'price_test_pro123',
+          interval: 'month',
+          currentPeriodEnd: '2025-04-01T00:00:00.000Z',
+          cancelAtPeriodEnd: true,
+          trialEnd: null,
+          canceledAt: '2025-03-10T00:00:00.000Z',
+          gracePeriodEndsAt: null
+        }
+      });
+    });
+
+    it('should keep pro while a failed payment is in its grace period', async () => {
+      const gracePeriodEndsAt = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000);
+      mockStorage.getSubscriptionsByUserId.mockResolvedValue([{ ...subscription, status: 'past_due', gracePeriodEndsAt }]);
+
+      const response = await request(app)
+        .get('/api/billing/subscription')
+        .expect(200);
+
+      expect(response.body.plan).toBe('pro');
+      expect(response.body.subscription).toEqual(expect.objectContaining({
+        status: 'past_due',
+        gracePeriodEndsAt: gracePeriodEndsAt.toISOString()
+      }));
+    });
+
+    it('should show an ended subscription on the free plan', async () => {
+      mockStorage.getSubscriptionsByUserId.mockResolvedValue([{ ...subscription, status: 'canceled' }]);
+
+      const response = await request(app)
+        .get('/api/billing/subscription')
+        .expect(200);
+
+      expect(response.body.plan).toBe('free');
+      expect(response.body.subscription.status).toBe('canceled');
+    });
+  });
 });
@@ -0,0 +1,471 @@
+import request from 'supertest';
+import express from 'express';
+import { registerPaymentRoutes } from '../routes/paymentRoutes';
+import { registerItemRoutes } from '../routes/itemRoutes';
+import { registerFileRoutes } from '../routes/fileRoutes';
+import { registerAiThreadRoutes } from '../routes/aiThreadRoutes';
+import { findPlanPrice, getPlan, getPlanForPriceId, PLAN_CATALOG } from '../lib/plans';
+import { getPlanForSubscriptions, syncStripeSubscription } from '../lib/subscriptions';
+import { applyPlanChange } from '../lib/planChanges';
+import { resetAllMocks, mockStorage, mockStripeInstance } from './setup/mocks';
+
+// Import and apply mocks
+import './setup/mocks';
+
+describe('Plan Workflow', () => {
+  let app: express.Express;
+
+  const user = (subscriptionType: string) => ({
+    id: 'test-replit-user-id',
+    email: 'test@example.com',
+    subscriptionType,
+    stripeCustomerId: 'cus_test123'
+  });
+
+  const items = (count: number) => Array.from({ length: count }, (_, i) => ({
+    id: i + 1,
+    item: `Item ${i + 1}`,
+    userId: 'test-replit-user-id'
+  }));
+
+  beforeAll(async () => {
+    app = express();
+    app.use(express.json());
+    await registerPaymentRoutes(app);
+    await registerItemRoutes(app);
+    await registerFileRoutes(app);
+    await registerAiThreadRoutes(app);
+  });
+
+  beforeEach(() => {
+    resetAllMocks();
+    process.env.STRIPE_PRICE_ID_PRO = 'price_test_pro123';
+    process.env.STRIPE_PRICE_ID_TEAM = 'price_test_team123';
+    process.env.STRIPE_PRICE_ID_PRO_ANNUAL = 'price_test_pro_annual123';
+  });
+
+  afterEach(() => {
+    delete process.env.STRIPE_PRICE_ID_TEAM;
+    delete process.env.STRIPE_PRICE_ID_PRO_ANNUAL;
+  });
+
+  describe('GET /api/plans', () => {
+    it('should list every plan with its price and entitlements', async () => {
+      const response = await request(app)
+        .get('/api/plans')
+        .expect(200);
+
+      expect(response.body.map((plan: any) => plan.id)).toEqual(['free', 'pro', 'team']);
+      expect(response.body[0]).toEqual(expect.objectContaining({
+        name: 'Free',
+        prices: {
+          month: { amount: 0, currency: 'usd', available: true },
+          year: { amount: 0, currency: 'usd', available: true }
+        },
+        entitlements: {
+          maxItems: 5,
+          files: { maxFiles: 10, maxTotalBytes: 100 * 1024 * 1024, maxFileBytes: 10 * 1024 * 1024 },
+          aiAccess: true
+        }
+      }));
+      expect(response.body[2].entitlements.maxItems).toBeNull();
+      // Stripe price IDs stay on the server
+      expect(JSON.stringify(response.body)).not.toContain('price_test');
+    });
+
+    it('should mark paid prices without a configured price ID as unavailable', async () => {
+      delete process.env.STRIPE_PRICE_ID_TEAM;
+
+      const response = await request(app)
+        .get('/api/plans')
+        .expect(200);
+
+      const team = response.body.find((plan: any) => plan.id === 'team');
+      const pro = response.body.find((plan: any) => plan.id === 'pro');
+      expect(team.prices.month.available).toBe(false);
+      expect(team.prices.year.available).toBe(false);
+      expect(pro.prices.month).toEqual({ amount: 999, currency: 'usd', available: true });
+      expect(pro.prices.year).toEqual({ amount: 9990, currency: 'usd', available: true });
+    });
+  });
+
+  describe('Price Mapping', () => {
+    it('should map Stripe prices to plans', () => {
+      expect(getPlanForPriceId('price_test_team123').id).toBe('team');
+      expect(getPlanForPriceId('price_test_pro123').id).toBe('pro');
+      expect(findPlanPrice('price_test_pro_annual123')).toEqual({ plan: getPlan('pro'), interval: 'year' });
+      expect(findPlanPrice('price_retired')).toBeUndefined();
+      // Prices outside the catalog grant nothing
+      expect(getPlanForPriceId('price_retired').id).toBe('free');
+      expect(getPlan('unknown').id).toBe('free');
+    });
+
+    it('should put users with several subscriptions on the highest plan', () => {
+      const subscriptions = [
+        { status: 'active', gracePeriodEndsAt: null, stripePriceId: 'price_test_pro123' },
+        { status: 'active', gracePeriodEndsAt: null, stripePriceId: 'price_test_team123' },
+        { status: 'canceled', gracePeriodEndsAt: null, stripePriceId: 'price_test_team123' }
+      ] as any[];
+
+      expect(getPlanForSubscriptions(subscriptions)).toBe('team');
+      expect(getPlanForSubscriptions([subscriptions[0], subscriptions[2]])).toBe('pro');
+    });
+
+    it('should cache the plan of a subscription\'s price on the user', async () => {
+      await syncStripeSubscription({
+        id: 'sub_test123',
+        status: 'active',
+        metadata: { userId: 'test-replit-user-id' },
+        items: { data: [{ price: { id: 'price_test_team123' } }] }
+      } as any);
+
+      expect(mockStorage.updateUser).toHaveBeenCalledWith('test-replit-user-id', {
+        subscriptionType: 'team',
+        isPremium: true
+      });
+    });
+  });
+
+  describe('requireEntitlement', () => {
+    it('should stop free users at the item limit', async () => {
+      mockStorage.getUserById.mockResolvedValue(user('free'));
+      mockStorage.getItemsByUserId.mockResolvedValue(items(5));
+
+      const response = await request(app)
+        .post('/api/items')
+        .send({ item: 'One too many' })
+        .expect(403);
+
+      expect(response.body.error).toBe('Item limit reached. Please upgrade to Pro plan.');
+      expect(mockStorage.createItem).not.toHaveBeenCalled();
+    });
+
+    it('should not limit items on paid plans', async () => {
+      mockStorage.getUserById.mockResolvedValue(user('team'));
+      mockStorage.getItemsByUserId.mockResolvedValue(items(50));
+      mockStorage.createItem.mockResolvedValue({ id: 51, item: 'Plenty of room', userId: 'test-replit-user-id' });
+
+      await request(app)
+        .post('/api/items')
+        .send({ item: 'Plenty of room' })
+        .expect(200);
+
+      expect(mockStorage.getItemsByUserId).not.toHaveBeenCalled();
+      expect(mockStorage.createItem).toHaveBeenCalled();
+    });
+
+    it('should apply the item limit to restores', async () => {
+      mockStorage.getUserById.mockResolvedValue(user('free'));
+      mockStorage.getItemsByUserId.mockResolvedValue(items(5));
+
+      await request(app)
+        .post('/api/items/9/restore')
+        .expect(403);
+
+      expect(mockStorage.restoreItem).not.toHaveBeenCalled();
+    });
+
+    it('should reject uploads once the file limit is reached', async () => {
+      mockStorage.getUserById.mockResolvedValue(user('pro'));
+      mockStorage.getFileUsageByUserId.mockResolvedValue({ fileCount: 100, totalBytes: 0 });
+
+      const response = await request(app)
+        .post('/api/files/upload')
+        .attach('file', Buffer.from('hello'), 'hello.txt')
+        .expect(403);
+
+      expect(response.body.error).toBe('File limit reached (100 files). Delete files or upgrade your plan.');
+      expect(response.body.limits.maxFiles).toBe(100);
+    });
+
+    it('should report the plan\'s file limits with the usage', async () => {
+      mockStorage.getUserById.mockResolvedValue(user('team'));
+
+      const response = await request(app)
+        .get('/api/files/usage')
+        .expect(200);
+
+      expect(response.body.plan).toBe('team');
+      expect(response.body.limits).toEqual(getPlan('team').entitlements.files);
+    });
+
+    it('should block AI chat for plans without AI access', async () => {
+      const free = PLAN_CATALOG.find((plan) => plan.id === 'free')!;
+      const original = free.entitlements;
+      free.entitlements = { ...original, aiAccess: false };
+      mockStorage.getUserById.mockResolvedValue(user('free'));
+
+      try {
+        const response = await request(app)
+          .post('/api/ai/threads')
+          .send({})
+          .expect(403);
+
+        expect(response.body.error).toBe('AI chat is not included in the Free plan. Please upgrade your plan.');
+        expect(mockStorage.createThread).not.toHaveBeenCalled();
+      } finally {
+        free.entitlements = original;
+      }
+    });
+  });
+
+  describe('POST /api/create-checkout-session', () => {
+    it('should check out the chosen plan\'s price', async () => {
+      mockStorage.getUserById.mockResolvedValue(user('free'));
+
+      await request(app)
+        .post('/api/create-checkout-session')
+        .send({ plan: 'team' })
+        .expect(200);
+
+      expect(mockStripeInstance.checkout.sessions.create).toHaveBeenCalledWith(expect.objectContaining({
+        line_items: [{ price: 'price_test_team123', quantity: 1 }]
+      }));
+    });
+
+    it('should check out the annual price', async () => {
+      mockStorage.getUserById.mockResolvedValue(user('free'));
+
+      await request(app)
+        .post('/api/create-checkout-session')
+        .send({ plan: 'pro', interval: 'year' })
+        .expect(200);
+
+      expect(mockStripeInstance.checkout.sessions.create).toHaveBeenCalledWith(expect.objectContaining({
+        line_items: [{ price: 'price_test_pro_annual123', quantity: 1 }]
+      }));
+    });
+
+    it('should reject unknown billing intervals', async () => {
+      mockStorage.getUserById.mockResolvedValue(user('free'));
+
+      const response = await request(app)
+        .post('/api/create-checkout-session')
+        .send({ plan: 'pro', interval: 'week' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Unknown billing interval');
+    });
+
+    it('should reject prices outside the catalog', async () => {
+      mockStorage.getUserById.mockResolvedValue(user('free'));
+
+      const response = await request(app)
+        .post('/api/create-checkout-session')
+        .send({ priceId: 'price_cheap_one_off' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Unknown price');
+      expect(mockStripeInstance.checkout.sessions.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject plans that cannot be bought', async () => {
+      mockStorage.getUserById.mockResolvedValue(user('free'));
+
+      const response = await request(app)
+        .post('/api/create-checkout-session')
+        .send({ plan: 'free' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Unknown plan');
+      expect(mockStripeInstance.checkout.sessions.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/billing/change-plan', () => {
+    const subscription = {
+      id: 1,
+      userId: 'test-replit-user-id',
+      stripeSubscriptionId: 'sub_test123',
+      stripeCustomerId: 'cus_test123',
+      stripePriceId: 'price_test_pro123',
+      status: 'active',
+      currentPeriodEnd: new Date('2025-04-01T00:00:00.000Z'),
+      cancelAtPeriodEnd: false,
+      trialEnd: null,
+      canceledAt: null,
+      gracePeriodEndsAt: null,
+      lastEventAt: null
+    };
+
+    const stripeSubscription = (priceId: string) => ({
+      id: 'sub_test123',
+      status: 'active',
+      customer: 'cus_test123',
+      metadata: { userId: 'test-replit-user-id' },
+      cancel_at_period_end: false,
+      items: { data: [{ id: 'si_test123', price: { id: priceId }, current_period_end: 1743465600 }] }
+    });
+
+    beforeEach(() => {
+      mockStorage.getSubscriptionsByUserId.mockResolvedValue([subscription]);
+      mockStripeInstance.subscriptions.retrieve.mockResolvedValue(stripeSubscription('price_test_pro123'));
+    });
+
+    const previewChange = async (plan: string, interval: string) => {
+      mockStripeInstance.invoices.createPreview.mockResolvedValue({ amount_due: 2000, currency: 'usd', lines: { data: [] } });
+      const response = await request(app)
+        .post('/api/billing/change-plan')
+        .send({ plan, interval, preview: true })
+        .expect(200);
+      return { prorationDate: response.body.prorationDate, prorationSignature: response.body.prorationSignature };
+    };
+
+    it('should preview the prorated invoice without changing the subscription', async () => {
+      mockStripeInstance.invoices.createPreview.mockResolvedValue({
+        amount_due: 8500,
+        currency: 'usd',
+        lines: {
+          data: [
+            { description: 'Unused time on Pro after 15 Mar 2025', amount: -499 },
+            { description: '1 × Pro (at $99.90 / year)', amount: 8999 }
+          ]
+        }
+      });
+
+      const response = await request(app)
+        .post('/api/billing/change-plan')
+        .send({ plan: 'pro', interval: 'year', preview: true })
+        .expect(200);
+
+      expect(mockStripeInstance.invoices.createPreview).toHaveBeenCalledWith({
+        subscription: 'sub_test123',
+        subscription_details: {
+          items: [{ id: 'si_test123', price: 'price_test_pro_annual123' }],
+          proration_behavior: 'always_invoice',
+          proration_date: response.body.prorationDate
+        }
+      });
+      expect(response.body).toEqual({
+        plan: 'pro',
+        interval: 'year',
+        amountDue: 8500,
+        currency: 'usd',
+        prorationDate: expect.any(Number),
+        prorationSignature: expect.any(String),
+        lines: [
+          { description: 'Unused time on Pro after 15 Mar 2025', amount: -499 },
+          { description: '1 × Pro (at $99.90 / year)', amount: 8999 }
+        ]
+      });
+      expect(mockStripeInstance.subscriptions.update).not.toHaveBeenCalled();
+    });
+
+    it('should apply the change at the previewed proration date and update the plan', async () => {
+      const updated = stripeSubscription('price_test_team123');
+      mockStripeInstance.subscriptions.update.mockResolvedValue(updated);
+      mockStorage.upsertSubscription.mockResolvedValue({ ...subscription, stripePriceId: 'price_test_team123' });
+      const confirmation = await previewChange('team', 'month');
+      mockStorage.getSubscriptionsByUserId
+        .mockResolvedValueOnce([subscription])
+        .mockResolvedValue([{ ...subscription, stripePriceId: 'price_test_team123' }]);
+
+      const response = await request(app)
+        .post('/api/billing/change-plan')
+        .send({ plan: 'team', interval: 'month', ...confirmation })
+        .expect(200);
+
+      expect(mockStripeInstance.subscriptions.update).toHaveBeenCalledWith('sub_test123', {
+        items: [{ id: 'si_test123', price: 'price_test_team123' }],
+        proration_behavior: 'always_invoice',
+        payment_behavior: 'error_if_incomplete',
+        proration_date: confirmation.prorationDate
+      });
+      expect(mockStorage.updateUser).toHaveBeenCalledWith('test-replit-user-id', {
+        subscriptionType: 'team',
+        isPremium: true
+      });
+      expect(response.body.plan).toBe('team');
+      expect(response.body.subscription).toEqual(expect.objectContaining({
+        priceId: 'price_test_team123',
+        interval: 'month'
+      }));
+    });
+
+    it('should reject proration dates the server did not sign', async () => {
+      const { prorationDate, prorationSignature } = await previewChange('pro', 'year');
+
+      // A date near the end of the period would make the upgrade nearly free
+      const forged = await request(app)
+        .post('/api/billing/change-plan')
+        .send({ plan: 'pro', interval: 'year', prorationDate: prorationDate + 25 * 24 * 60 * 60, prorationSignature })
+        .expect(400);
+      expect(forged.body.error).toBe('Invalid plan change preview');
+
+      // A signature for another target does not carry over
+      await request(app)
+        .post('/api/billing/change-plan')
+        .send({ plan: 'team', interval: 'year', prorationDate, prorationSignature })
+        .expect(400);
+
+      await request(app)
+        .post('/api/billing/change-plan')
+        .send({ plan: 'pro', interval: 'year', prorationDate })
+        .expect(400);
+
+      expect(mockStripeInstance.subscriptions.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject previews older than five minutes', async () => {
+      const confirmation = await previewChange('pro', 'year');
+      const later = new Date((confirmation.prorationDate + 6 * 60) * 1000);
+
+      await expect(applyPlanChange(mockStripeInstance as any, 'test-replit-user-id', { plan: 'pro', interval: 'year' }, confirmation, later))
+        .rejects.toThrow('Plan change preview expired. Preview the change again.');
+      expect(mockStripeInstance.subscriptions.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a change to the current price', async () => {
+      const response = await request(app)
+        .post('/api/billing/change-plan')
+        .send({ plan: 'pro', interval: 'month', preview: true })
+        .expect(409);
+
+      expect(response.body.error).toBe('Already on the Pro plan, billed monthly');
+      expect(mockStripeInstance.invoices.createPreview).not.toHaveBeenCalled();
+    });
+
+    it('should send users without an active subscription to checkout', async () => {
+      mockStorage.getSubscriptionsByUserId.mockResolvedValue([{ ...subscription, status: 'canceled' }]);
+
+      const response = await request(app)
+        .post('/api/billing/change-plan')
+        .send({ plan: 'team' })
+        .expect(409);
+
+      expect(response.body.error).toBe('No active subscription to change. Subscribe through checkout instead.');
+      expect(mockStripeInstance.subscriptions.update).not.toHaveBeenCalled();
+    });
+
+    it('should leave downgrades to Free to the billing portal', async () => {
+      await request(app)
+        .post('/api/billing/change-plan')
+        .send({ plan: 'free' })
+        .expect(400);
+
+      expect(mockStripeInstance.subscriptions.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown billing intervals', async () => {
+      await request(app)
+        .post('/api/billing/change-plan')
+        .send({ plan: 'team', interval: 'week' })
+        .expect(400);
+
+      expect(mockStorage.getSubscriptionsByUserId).not.toHaveBeenCalled();
+    });
+
+    it('should return Stripe errors such as a declined prorated invoice', async () => {
+      const Stripe = require('stripe');
+      mockStripeInstance.subscriptions.update.mockRejectedValue(new Stripe.errors.StripeError('Your card was declined.'));
+
+      const response = await request(app)
+        .post('/api/billing/change-plan')
+        .send({ plan: 'team' })
+        .expect(400);
+
+      expect(response.body).toEqual({ error: 'Your card was declined.' });
+      expect(mockStorage.upsertSubscription).not.toHaveBeenCalled();
+    });
+  });
+});
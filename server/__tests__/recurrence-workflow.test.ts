@@ -0,0 +1,285 @@
+import request from 'supertest';
+import express from 'express';
+import { registerItemRoutes } from '../routes/itemRoutes';
+import { registerChatKitRoutes } from '../routes/chatKitRoutes';
+import { getAnchoredRecurrence, getNextDueDate, scheduleNextOccurrence } from '../lib/itemRecurrence';
+import { parseRecurrence, formatRecurrence, describeRecurrence } from '@shared/recurrence';
+import { itemDetailsSchema } from '@shared/schema';
+import { resetAllMocks, mockStorage } from './setup/mocks';
+
+// Import and apply mocks
+import './setup/mocks';
+
+describe('Recurring Items', () => {
+  let app: express.Express;
+
+  const recurringItem = {
+    id: 1,
+    item: 'Water plants',
+    userId: 'test-replit-user-id',
+    status: 'open',
+    description: null,
+    dueDate: '2025-03-03T00:00:00.000Z',
+    priority: null,
+    recurrence: 'FREQ=WEEKLY;BYDAY=MO,TH',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z'
+  };
+
+  const nextItem = { ...recurringItem, id: 2, dueDate: '2025-03-06T00:00:00.000Z' };
+
+  beforeAll(async () => {
+    app = express();
+    app.use(express.json());
+    await registerItemRoutes(app);
+    await registerChatKitRoutes(app);
+  });
+
+  beforeEach(() => {
+    resetAllMocks();
+    mockStorage.getItemsByUserId.mockResolvedValue([recurringItem]);
+    mockStorage.getItemById.mockResolvedValue(recurringItem);
+    mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', subscriptionType: 'pro' });
+    mockStorage.updateItemStatus.mockResolvedValue({ ...recurringItem, status: 'completed' });
+  });
+
+  describe('Rules', () => {
+    it('should parse and normalize RRULE strings', () => {
+      expect(parseRecurrence('RRULE:freq=weekly;byday=th,mo;interval=2')).toEqual({
+        frequency: 'weekly',
+        interval: 2,
+        weekdays: ['MO', 'TH']
+      });
+      expect(formatRecurrence(parseRecurrence('FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=15'))).toBe('FREQ=MONTHLY;BYMONTHDAY=15');
+    });
+
+    it('should reject rules outside the supported subset', () => {
+      expect(() => parseRecurrence('FREQ=YEARLY')).toThrow('FREQ must be DAILY, WEEKLY or MONTHLY');
+      expect(() => parseRecurrence('FREQ=DAILY;COUNT=3')).toThrow('Unsupported recurrence part COUNT');
+      expect(() => parseRecurrence('FREQ=DAILY;BYDAY=MO')).toThrow('BYDAY is only supported for weekly rules');
+      expect(() => parseRecurrence('FREQ=WEEKLY;BYDAY=XX')).toThrow('Invalid weekday "XX"');
+      expect(() => parseRecurrence('FREQ=DAILY;INTERVAL=0')).toThrow('INTERVAL must be a whole number from 1 to 365');
+    });
+
+    it('should accept rule objects or RRULE strings in item details', () => {
+      expect(itemDetailsSchema.parse({ recurrence: { frequency: 'weekly', weekdays: ['FR', 'MO'] } }).recurrence)
+        .toBe('FREQ=WEEKLY;BYDAY=MO,FR');
+      expect(itemDetailsSchema.parse({ recurrence: 'FREQ=DAILY;INTERVAL=3' }).recurrence).toBe('FREQ=DAILY;INTERVAL=3');
+      expect(itemDetailsSchema.parse({ recurrence: null }).recurrence).toBeNull();
+      expect(itemDetailsSchema.safeParse({ recurrence: { frequency: 'daily', monthDay: 3 } }).success).toBe(false);
+    });
+
+    it('should describe rules', () => {
+      expect(describeRecurrence(parseRecurrence('FREQ=DAILY'))).toBe('Daily');
+      expect(describeRecurrence(parseRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE'))).toBe('Every 2 weeks on Mon, Wed');
+      expect(describeRecurrence(parseRecurrence('FREQ=MONTHLY;BYMONTHDAY=1'))).toBe('Monthly on day 1');
+    });
+  });
+
+  describe('Next due date', () => {
+    const now = new Date('2025-03-03T15:00:00.000Z'); // a Monday
+
+    it('should step daily and weekly rules from the due date', () => {
+      expect(getNextDueDate('FREQ=DAILY;INTERVAL=2', new Date('2025-03-03T00:00:00.000Z'), now))
+        .toEqual(new Date('2025-03-05T00:00:00.000Z'));
+      expect(getNextDueDate('FREQ=WEEKLY', new Date('2025-03-03T00:00:00.000Z'), now))
+        .toEqual(new Date('2025-03-10T00:00:00.000Z'));
+      expect(getNextDueDate('FREQ=WEEKLY;BYDAY=MO,TH', new Date('2025-03-03T00:00:00.000Z'), now))
+        .toEqual(new Date('2025-03-06T00:00:00.000Z'));
+    });
+
+    it('should skip the weeks in between for weekly intervals', () => {
+      expect(getNextDueDate('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', new Date('2025-03-06T00:00:00.000Z'), now))
+        .toEqual(new Date('2025-03-17T00:00:00.000Z'));
+    });
+
+    it('should clamp monthly rules to the end of shorter months', () => {
+      expect(getNextDueDate('FREQ=MONTHLY', new Date('2025-01-31T00:00:00.000Z'), new Date('2025-01-31T00:00:00.000Z')))
+        .toEqual(new Date('2025-02-28T00:00:00.000Z'));
+      expect(getNextDueDate('FREQ=MONTHLY;BYMONTHDAY=15', null, now))
+        .toEqual(new Date('2025-03-15T00:00:00.000Z'));
+    });
+
+    it('should keep monthly series on their first day after a short month', () => {
+      const recurrence = getAnchoredRecurrence('FREQ=MONTHLY', new Date('2025-01-31T00:00:00.000Z'));
+      expect(recurrence).toBe('FREQ=MONTHLY;BYMONTHDAY=31');
+      // Already pinned rules are left as they are
+      expect(getAnchoredRecurrence(recurrence, new Date('2025-02-28T00:00:00.000Z'))).toBe(recurrence);
+
+      const february = getNextDueDate(recurrence, new Date('2025-01-31T00:00:00.000Z'), new Date('2025-01-31T00:00:00.000Z'));
+      expect(february).toEqual(new Date('2025-02-28T00:00:00.000Z'));
+      expect(getNextDueDate(recurrence, february, february)).toEqual(new Date('2025-03-31T00:00:00.000Z'));
+    });
+
+    it('should carry the pinned day to the next occurrence', async () => {
+      const monthlyItem = { ...recurringItem, recurrence: 'FREQ=MONTHLY', dueDate: new Date('2025-01-31T00:00:00.000Z') };
+      mockStorage.getItemsByUserId.mockResolvedValue([monthlyItem]);
+      mockStorage.createNextOccurrence.mockResolvedValue(nextItem);
+
+      await scheduleNextOccurrence(monthlyItem as any, 'completed' as any, 'ui' as any);
+
+      expect(mockStorage.createNextOccurrence).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1, recurrence: 'FREQ=MONTHLY;BYMONTHDAY=31' }),
+        expect.any(Date)
+      );
+    });
+
+    it('should start from today without a due date and skip past occurrences', () => {
+      expect(getNextDueDate('FREQ=DAILY', null, now)).toEqual(new Date('2025-03-04T00:00:00.000Z'));
+      expect(getNextDueDate('FREQ=WEEKLY;BYDAY=FR', new Date('2025-02-07T00:00:00.000Z'), now))
+        .toEqual(new Date('2025-03-07T00:00:00.000Z'));
+    });
+  });
+
+  describe('PATCH /api/items/:id/status', () => {
+    it('should create the next occurrence when a recurring item is completed', async () => {
+      mockStorage.createNextOccurrence.mockResolvedValue(nextItem);
+
+      const response = await request(app)
+        .patch('/api/items/1/status')
+        .send({ status: 'completed' })
+        .expect(200);
+
+      expect(mockStorage.createNextOccurrence).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1, recurrence: 'FREQ=WEEKLY;BYDAY=MO,TH' }),
+        expect.any(Date)
+      );
+      expect(response.body.status).toBe('completed');
+      expect(response.body.nextItem.id).toBe(2);
+      expect(mockStorage.createItemEvents).toHaveBeenCalledWith([expect.objectContaining({
+        itemId: 2,
+        type: 'created',
+        source: 'ui'
+      })]);
+    });
+
+    it('should not create an occurrence for other status changes', async () => {
+      mockStorage.updateItemStatus.mockResolvedValue({ ...recurringItem, status: 'in_progress' });
+
+      const response = await request(app)
+        .patch('/api/items/1/status')
+        .send({ status: 'in_progress' })
+        .expect(200);
+
+      expect(mockStorage.createNextOccurrence).not.toHaveBeenCalled();
+      expect(response.body.nextItem).toBeUndefined();
+    });
+
+    it('should not create an occurrence for items without a rule', async () => {
+      mockStorage.getItemsByUserId.mockResolvedValue([{ ...recurringItem, recurrence: null }]);
+
+      await request(app)
+        .patch('/api/items/1/status')
+        .send({ status: 'completed' })
+        .expect(200);
+
+      expect(mockStorage.createNextOccurrence).not.toHaveBeenCalled();
+    });
+
+    it('should keep free plans within the item limit', async () => {
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', subscriptionType: 'free' });
+      mockStorage.getItemsByUserId.mockResolvedValue([recurringItem, ...[2, 3, 4, 5].map((id) => ({ ...recurringItem, id }))]);
+
+      await request(app)
+        .patch('/api/items/1/status')
+        .send({ status: 'completed' })
+        .expect(200);
+
+      expect(mockStorage.createNextOccurrence).not.toHaveBeenCalled();
+    });
+
+    it('should create the next occurrence of recurring items a bulk action completes', async () => {
+      const plainItem = { ...recurringItem, id: 3, recurrence: null };
+      const doneItem = { ...recurringItem, id: 4, status: 'completed' };
+      mockStorage.getOwnedItemIds.mockResolvedValue([1, 3, 4]);
+      mockStorage.getItemsByIds.mockResolvedValue([recurringItem, plainItem, doneItem]);
+      mockStorage.applyBulkItemAction.mockResolvedValue(3);
+      mockStorage.createNextOccurrence.mockResolvedValue(nextItem);
+
+      await request(app)
+        .post('/api/items/bulk')
+        .send({ action: 'set_status', ids: [1, 3, 4], status: 'completed' })
+        .expect(200);
+
+      expect(mockStorage.getItemsByIds).toHaveBeenCalledWith('test-replit-user-id', [1, 3, 4]);
+      // Only the open recurring item starts a new occurrence
+      expect(mockStorage.createNextOccurrence).toHaveBeenCalledTimes(1);
+      expect(mockStorage.createNextOccurrence).toHaveBeenCalledWith(expect.objectContaining({ id: 1 }), expect.any(Date));
+      expect(mockStorage.createItemEvents).toHaveBeenCalledWith([expect.objectContaining({
+        itemId: 2,
+        type: 'created',
+        source: 'ui'
+      })]);
+    });
+
+    it('should save a rule when editing an item', async () => {
+      mockStorage.updateItem.mockResolvedValue({ ...recurringItem, recurrence: 'FREQ=DAILY' });
+
+      await request(app)
+        .patch('/api/items/1')
+        .send({ recurrence: { frequency: 'daily' } })
+        .expect(200);
+
+      expect(mockStorage.updateItem).toHaveBeenCalledWith(1, { recurrence: 'FREQ=DAILY' });
+    });
+
+    it('should reject invalid rules', async () => {
+      const response = await request(app)
+        .patch('/api/items/1')
+        .send({ recurrence: 'FREQ=HOURLY' })
+        .expect(400);
+
+      expect(JSON.stringify(response.body)).toContain('FREQ must be DAILY, WEEKLY or MONTHLY');
+      expect(mockStorage.updateItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Agent tools', () => {
+    it('should create the next occurrence when the agent completes a recurring todo', async () => {
+      mockStorage.createNextOccurrence.mockResolvedValue(nextItem);
+
+      const response = await request(app)
+        .post('/api/chatkit/tools/updateTodoStatus')
+        .send({ id: '1', status: 'completed' })
+        .expect(200);
+
+      expect(mockStorage.createNextOccurrence).toHaveBeenCalled();
+      expect(response.body.nextTodo).toEqual(expect.objectContaining({ id: 2, recurrence: 'FREQ=WEEKLY;BYDAY=MO,TH' }));
+      expect(mockStorage.createItemEvents).toHaveBeenCalledWith([expect.objectContaining({
+        itemId: 2,
+        type: 'created',
+        source: 'agent'
+      })]);
+    });
+
+    it('should create the next occurrence when the agent bulk-completes recurring todos', async () => {
+      mockStorage.getOwnedItemIds.mockResolvedValue([1]);
+      mockStorage.getItemsByIds.mockResolvedValue([recurringItem]);
+      mockStorage.applyBulkItemAction.mockResolvedValue(1);
+      mockStorage.createNextOccurrence.mockResolvedValue(nextItem);
+
+      await request(app)
+        .post('/api/chatkit/tools/bulkUpdateTodos')
+        .send({ action: 'set_status', ids: ['1'], status: 'completed' })
+        .expect(200);
+
+      expect(mockStorage.createNextOccurrence).toHaveBeenCalledWith(expect.objectContaining({ id: 1 }), expect.any(Date));
+      expect(mockStorage.createItemEvents).toHaveBeenCalledWith([expect.objectContaining({
+        itemId: 2,
+        type: 'created',
+        source: 'agent'
+      })]);
+    });
+
+    it('should let the agent set a repeat rule', async () => {
+      mockStorage.updateItem.mockResolvedValue({ ...recurringItem, recurrence: 'FREQ=MONTHLY;BYMONTHDAY=1' });
+
+      await request(app)
+        .post('/api/chatkit/tools/updateTodo')
+        .send({ id: '1', recurrence: 'FREQ=MONTHLY;BYMONTHDAY=1' })
+        .expect(200);
+
+      expect(mockStorage.updateItem).toHaveBeenCalledWith(1, { recurrence: 'FREQ=MONTHLY;BYMONTHDAY=1' });
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import request from 'supertest';
+import express from 'express';
+import { registerUserRoutes } from '../routes/userRoutes';
+import { registerJobHandler, registerPeriodicJob, runDueJobs, enqueueJob, getRetryDelay } from '../lib/jobs';
+import { pickLeadMinutes, scanReminders, sendReminder, REMINDER_SEND_JOB } from '../lib/reminders';
+import { resetAllMocks, mockStorage } from './setup/mocks';
+
+// Import and apply mocks
+import './setup/mocks';
+
+describe('Reminder Workflow', () => {
+  let app: express.Express;
+
+  const now = new Date('2025-03-03T12:00:00.000Z');
+
+  const dueItem = {
+    id: 7,
+    item: 'Pay rent',
+    userId: 'test-replit-user-id',
+    status: 'open',
+    dueDate: new Date('2025-03-04T00:00:00.000Z'),
+    deletedAt: null
+  };
+
+  const user = {
+    id: 'test-replit-user-id',
+    email: 'test@example.com',
+    emailNotifications: true,
+    reminderLeadMinutes: [1440]
+  };
+
+  const job = (overrides: Record<string, unknown> = {}) => ({
+    id: 1,
+    type: 'test.job',
+    payload: {},
+    status: 'running',
+    runAt: now,
+    attempts: 1,
+    maxAttempts: 3,
+    lastError: null,
+    lockedBy: 'worker',
+    lockedAt: now,
+    uniqueKey: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides
+  });
+
+  beforeAll(async () => {
+    app = express();
+    app.use(express.json());
+    await registerUserRoutes(app);
+  });
+
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  describe('Job scheduler', () => {
+    it('should enqueue jobs with a unique key', async () => {
+      await enqueueJob('test.job', { value: 1 }, { uniqueKey: 'test:1', runAt: now });
+
+      expect(mockStorage.enqueueJob).toHaveBeenCalledWith({
+        type: 'test.job',
+        payload: { value: 1 },
+        runAt: now,
+        uniqueKey: 'test:1'
+      });
+    });
+
+    it('should run claimed jobs and mark them completed', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      registerJobHandler('test.success', handler);
+      mockStorage.claimDueJobs.mockResolvedValue([job({ type: 'test.success', payload: { value: 1 } })]);
+
+      await expect(runDueJobs(now)).resolves.toBe(1);
+
+      expect(mockStorage.claimDueJobs).toHaveBeenCalledWith(expect.any(String), now, 20);
+      expect(handler).toHaveBeenCalledWith({ value: 1 }, expect.objectContaining({ id: 1 }));
+      expect(mockStorage.completeJob).toHaveBeenCalledWith(1);
+    });
+
+    it('should retry failed jobs with backoff until attempts run out', async () => {
+      registerJobHandler('test.failure', jest.fn().mockRejectedValue(new Error('boom')));
+      mockStorage.claimDueJobs.mockResolvedValue([
+        job({ id: 1, type: 'test.failure', attempts: 1 }),
+        job({ id: 2, type: 'test.failure', attempts: 3 })
+      ]);
+
+      await runDueJobs(now);
+
+      expect(mockStorage.failJob).toHaveBeenCalledWith(1, 'boom', expect.any(Date));
+      expect(mockStorage.failJob).toHaveBeenCalledWith(2, 'boom', null);
+      expect(mockStorage.completeJob).not.toHaveBeenCalled();
+      expect(getRetryDelay(1)).toBe(30 * 1000);
+      expect(getRetryDelay(3)).toBe(2 * 60 * 1000);
+      expect(getRetryDelay(20)).toBe(60 * 60 * 1000);
+    });
+
+    it('should fail jobs without a handler', async () => {
+      mockStorage.claimDueJobs.mockResolvedValue([job({ type: 'test.unknown' })]);
+
+      await runDueJobs(now);
+
+      expect(mockStorage.failJob).toHaveBeenCalledWith(1, 'No handler registered for job type test.unknown', null);
+    });
+
+    it('should enqueue one periodic job per interval slot and release stale locks', async () => {
+      registerPeriodicJob('test.periodic', 60 * 60 * 1000, jest.fn().mockResolvedValue(undefined));
+
+      await runDueJobs(now);
+
+      expect(mockStorage.enqueueJob).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'test.periodic',
+        runAt: now,
+        uniqueKey: `test.periodic:${now.getTime()}`,
+        maxAttempts: 1
+      }));
+      expect(mockStorage.releaseStaleJobs).toHaveBeenCalledWith(new Date(now.getTime() - 10 * 60 * 1000));
+    });
+  });
+
+  describe('Reminders', () => {
+    it('should pick the shortest lead time the due date falls within', () => {
+      const dueDate = new Date(now.getTime() + 30 * 60 * 1000);
+
+      expect(pickLeadMinutes(dueDate, now, [1440, 60])).toBe(60);
+      expect(pickLeadMinutes(dueDate, now, [1440])).toBe(1440);
+      expect(pickLeadMinutes(dueDate, now, [15])).toBeUndefined();
+    });
+
+    it('should queue reminders for items within a lead time', async () => {
+      mockStorage.getDueItemsForReminders.mockResolvedValue([
+        { item: dueItem, email: user.email, reminderLeadMinutes: [1440, 60] },
+        { item: { ...dueItem, id: 8, dueDate: new Date('2025-03-08T00:00:00.000Z') }, email: user.email, reminderLeadMinutes: [1440] }
+      ]);
+      mockStorage.enqueueJob.mockImplementation(async (data: any) => ({ id: 1, ...data }));
+
+      await expect(scanReminders(now)).resolves.toBe(1);
+
+      expect(mockStorage.getDueItemsForReminders).toHaveBeenCalledWith(now, new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000));
+      expect(mockStorage.enqueueJob).toHaveBeenCalledTimes(1);
+      expect(mockStorage.enqueueJob).toHaveBeenCalledWith(expect.objectContaining({
+        type: REMINDER_SEND_JOB,
+        payload: { itemId: 7, dueDate: '2025-03-04T00:00:00.000Z', leadMinutes: 1440 },
+        uniqueKey: 'reminder:7:2025-03-04T00:00:00.000Z:1440'
+      }));
+    });
+
+    it('should email a reminder to the item owner', async () => {
+      mockStorage.getItemById.mockResolvedValue(dueItem);
+      mockStorage.getUserById.mockResolvedValue(user);
+
+      await sendReminder({ itemId: 7, dueDate: '2025-03-04T00:00:00.000Z', leadMinutes: 1440 });
+
+      expect(mockStorage.enqueueEmail).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'test@example.com',
+        subject: 'Reminder: "Pay rent" is due Tuesday, March 4',
+        template: 'reminder'
+      }));
+    });
+
+    it('should skip reminders that no longer apply', async () => {
+      mockStorage.getUserById.mockResolvedValue(user);
+      const payload = { itemId: 7, dueDate: '2025-03-04T00:00:00.000Z', leadMinutes: 1440 };
+
+      mockStorage.getItemById.mockResolvedValue({ ...dueItem, status: 'completed' });
+      await sendReminder(payload);
+
+      mockStorage.getItemById.mockResolvedValue({ ...dueItem, dueDate: new Date('2025-03-05T00:00:00.000Z') });
+      await sendReminder(payload);
+
+      mockStorage.getItemById.mockResolvedValue(dueItem);
+      mockStorage.getUserById.mockResolvedValue({ ...user, emailNotifications: false });
+      await sendReminder(payload);
+
+      expect(mockStorage.enqueueEmail).not.toHaveBeenCalled();
+    });
+
+    it('should throw so the job is retried when the email cannot be queued', async () => {
+      mockStorage.getItemById.mockResolvedValue(dueItem);
+      mockStorage.getUserById.mockResolvedValue(user);
+      mockStorage.enqueueEmail.mockRejectedValue(new Error('Outbox unavailable'));
+
+      await expect(sendReminder({ itemId: 7, dueDate: '2025-03-04T00:00:00.000Z' }))
+        .rejects.toThrow('Outbox unavailable');
+    });
+  });
+
+  describe('PATCH /api/users/profile', () => {
+    it('should save reminder lead times', async () => {
+      mockStorage.getUserById.mockResolvedValue(user);
+      mockStorage.updateUser.mockResolvedValue({ ...user, reminderLeadMinutes: [60, 1440] });
+
+      await request(app)
+        .patch('/api/users/profile')
+        .send({ reminderLeadMinutes: [60, 1440] })
+        .expect(200);
+
+      expect(mockStorage.updateUser).toHaveBeenCalledWith('test-replit-user-id', { reminderLeadMinutes: [60, 1440] });
+    });
+
+    it('should reject invalid reminder lead times', async () => {
+      mockStorage.getUserById.mockResolvedValue(user);
+
+      for (const reminderLeadMinutes of [[1], [60, 60], [20000]]) {
+        await request(app)
+          .patch('/api/users/profile')
+          .send({ reminderLeadMinutes })
+          .expect(400);
+      }
+
+      expect(mockStorage.updateUser).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -91,13 +91,74 @@ export const resetAllMocks = () => {
   // Reset mock implementations to defaults
   if (mockStorage.getUserById) mockStorage.getUserById.mockResolvedValue(null);
   if (mockStorage.getUserByEmail) mockStorage.getUserByEmail.mockResolvedValue(null);
+  if (mockStorage.getUserByStripeCustomerId) mockStorage.getUserByStripeCustomerId.mockResolvedValue(null);
+  if (mockStorage.getDigestUsers) mockStorage.getDigestUsers.mockResolvedValue([]);
   if (mockStorage.getItemsByUserId) mockStorage.getItemsByUserId.mockResolvedValue([]);
+  if (mockStorage.getItemById) mockStorage.getItemById.mockResolvedValue(null);
+  if (mockStorage.listItems) mockStorage.listItems.mockResolvedValue({ items: [], total: 0, nextCursor: null });
   if (mockStorage.createUser) mockStorage.createUser.mockResolvedValue({ id: 'test-replit-user-id' });
   if (mockStorage.updateUser) mockStorage.updateUser.mockResolvedValue({ id: 'test-replit-user-id' });
   if (mockStorage.upsertUser) mockStorage.upsertUser.mockResolvedValue({ id: 'test-replit-user-id' });
   if (mockStorage.createItem) mockStorage.createItem.mockResolvedValue({ id: 1, item: 'test', userId: 'test-replit-user-id' });
+  if (mockStorage.reorderItems) mockStorage.reorderItems.mockResolvedValue(undefined);
+  if (mockStorage.getDeletedItemsByUserId) mockStorage.getDeletedItemsByUserId.mockResolvedValue([]);
+  if (mockStorage.createNextOccurrence) mockStorage.createNextOccurrence.mockResolvedValue(undefined);
+  if (mockStorage.getDueItemsForReminders) mockStorage.getDueItemsForReminders.mockResolvedValue([]);
+  if (mockStorage.getItemDigest) mockStorage.getItemDigest.mockResolvedValue({ counts: { open: 0, in_progress: 0, completed: 0 }, overdueCount: 0, overdue: [] });
+  if (mockStorage.restoreItem) mockStorage.restoreItem.mockResolvedValue(null);
+  if (mockStorage.purgeDeletedItems) mockStorage.purgeDeletedItems.mockResolvedValue(0);
+  if (mockStorage.getOwnedItemIds) mockStorage.getOwnedItemIds.mockResolvedValue([]);
+  if (mockStorage.getItemsByIds) mockStorage.getItemsByIds.mockResolvedValue([]);
+  if (mockStorage.applyBulkItemAction) mockStorage.applyBulkItemAction.mockResolvedValue(0);
   if (mockStorage.updateItemStatus) mockStorage.updateItemStatus.mockResolvedValue({ id: 1, item: 'test', userId: 'test-replit-user-id', status: 'completed' });
+  if (mockStorage.updateItem) mockStorage.updateItem.mockResolvedValue({ id: 1, item: 'test', userId: 'test-replit-user-id', status: 'open' });
   if (mockStorage.deleteItem) mockStorage.deleteItem.mockResolvedValue(undefined);
+  if (mockStorage.getItemEventsByItemId) mockStorage.getItemEventsByItemId.mockResolvedValue([]);
+  if (mockStorage.createItemEvents) mockStorage.createItemEvents.mockResolvedValue([]);
+  if (mockStorage.enqueueJob) mockStorage.enqueueJob.mockResolvedValue(undefined);
+  if (mockStorage.claimDueJobs) mockStorage.claimDueJobs.mockResolvedValue([]);
+  if (mockStorage.completeJob) mockStorage.completeJob.mockResolvedValue(undefined);
+  if (mockStorage.failJob) mockStorage.failJob.mockResolvedValue(undefined);
+  if (mockStorage.releaseJobUniqueKey) mockStorage.releaseJobUniqueKey.mockResolvedValue(undefined);
+  if (mockStorage.releaseStaleJobs) mockStorage.releaseStaleJobs.mockResolvedValue(0);
+  if (mockStorage.deleteFinishedJobs) mockStorage.deleteFinishedJobs.mockResolvedValue(0);
+  if (mockStorage.enqueueEmail) mockStorage.enqueueEmail.mockImplementation(async (email: any) => ({ id: 1, status: 'pending', attempts: 0, ...email }));
+  if (mockStorage.claimDueEmails) mockStorage.claimDueEmails.mockResolvedValue([]);
+  if (mockStorage.markEmailSent) mockStorage.markEmailSent.mockResolvedValue(undefined);
+  if (mockStorage.markEmailFailed) mockStorage.markEmailFailed.mockResolvedValue(undefined);
+  if (mockStorage.releaseStaleEmails) mockStorage.releaseStaleEmails.mockResolvedValue(0);
+  if (mockStorage.deleteSentEmails) mockStorage.deleteSentEmails.mockResolvedValue(0);
+  if (mockStorage.upsertSubscription) mockStorage.upsertSubscription.mockImplementation(async (subscription: any) => ({ id: 1, ...subscription }));
+  if (mockStorage.getSubscriptionByStripeId) mockStorage.getSubscriptionByStripeId.mockResolvedValue(null);
+  if (mockStorage.getSubscriptionsByUserId) mockStorage.getSubscriptionsByUserId.mockResolvedValue([]);
+  if (mockStorage.recordWebhookEvent) mockStorage.recordWebhookEvent.mockImplementation(async (event: any) => ({ status: 'pending', attempts: 0, ...event }));
+  if (mockStorage.getWebhookEvent) mockStorage.getWebhookEvent.mockResolvedValue(null);
+  if (mockStorage.claimWebhookEvent) mockStorage.claimWebhookEvent.mockImplementation(async (id: string) => ({ id, status: 'processing', attempts: 1 }));
+  if (mockStorage.markWebhookEventProcessed) mockStorage.markWebhookEventProcessed.mockResolvedValue(undefined);
+  if (mockStorage.markWebhookEventFailed) mockStorage.markWebhookEventFailed.mockResolvedValue(undefined);
+  if (mockStorage.listWebhookEvents) mockStorage.listWebhookEvents.mockResolvedValue([]);
+  if (mockStorage.deleteProcessedWebhookEvents) mockStorage.deleteProcessedWebhookEvents.mockResolvedValue(0);
+  if (mockStorage.getTagsByUserId) mockStorage.getTagsByUserId.mockResolvedValue([]);
+  if (mockStorage.getTagById) mockStorage.getTagById.mockResolvedValue(null);
+  if (mockStorage.getTagByName) mockStorage.getTagByName.mockResolvedValue(null);
+  if (mockStorage.deleteTag) mockStorage.deleteTag.mockResolvedValue(undefined);
+  if (mockStorage.getTagsForItems) mockStorage.getTagsForItems.mockResolvedValue({});
+  if (mockStorage.addTagToItem) mockStorage.addTagToItem.mockResolvedValue(undefined);
+  if (mockStorage.removeTagFromItem) mockStorage.removeTagFromItem.mockResolvedValue(undefined);
+  if (mockStorage.getSubtasksByItemId) mockStorage.getSubtasksByItemId.mockResolvedValue([]);
+  if (mockStorage.getSubtaskById) mockStorage.getSubtaskById.mockResolvedValue(null);
+  if (mockStorage.deleteSubtask) mockStorage.deleteSubtask.mockResolvedValue(undefined);
+  if (mockStorage.reorderSubtasks) mockStorage.reorderSubtasks.mockResolvedValue([]);
+  if (mockStorage.getSubtaskProgress) mockStorage.getSubtaskProgress.mockResolvedValue({});
+  if (mockStorage.getFilesByUserId) mockStorage.getFilesByUserId.mockResolvedValue([]);
+  if (mockStorage.getFileById) mockStorage.getFileById.mockResolvedValue(null);
+  if (mockStorage.getFileUsageByUserId) mockStorage.getFileUsageByUserId.mockResolvedValue({ fileCount: 0, totalBytes: 0 });
+  if (mockStorage.deleteFile) mockStorage.deleteFile.mockResolvedValue(undefined);
+  if (mockStorage.getThreadsByUserId) mockStorage.getThreadsByUserId.mockResolvedValue([]);
+  if (mockStorage.getThreadById) mockStorage.getThreadById.mockResolvedValue(null);
+  if (mockStorage.deleteThread) mockStorage.deleteThread.mockResolvedValue(undefined);
+  if (mockStorage.getMessagesByThreadId) mockStorage.getMessagesByThreadId.mockResolvedValue([]);
+  if (mockStorage.saveMessages) mockStorage.saveMessages.mockResolvedValue(0);
 
   // Reset SendGrid mock defaults
   if ((global as any).mockMailServiceInstance) {
@@ -0,0 +1,159 @@
+import request from 'supertest';
+import express from 'express';
+import { registerSubtaskRoutes } from '../routes/subtaskRoutes';
+import { registerItemRoutes } from '../routes/itemRoutes';
+import { resetAllMocks, mockStorage } from './setup/mocks';
+
+// Import and apply mocks
+import './setup/mocks';
+
+describe('Subtask Workflow', () => {
+  let app: express.Express;
+
+  const ownedItem = {
+    id: 1,
+    item: 'Plan trip',
+    userId: 'test-replit-user-id',
+    status: 'open'
+  };
+
+  const subtask = {
+    id: 10,
+    itemId: 1,
+    title: 'Book flights',
+    completed: false,
+    position: 0
+  };
+
+  beforeAll(async () => {
+    app = express();
+    app.use(express.json());
+    await registerItemRoutes(app);
+    await registerSubtaskRoutes(app);
+  });
+
+  beforeEach(() => {
+    resetAllMocks();
+    mockStorage.getItemsByUserId.mockResolvedValue([ownedItem]);
+  });
+
+  it('should list an item\'s subtasks', async () => {
+    mockStorage.getSubtasksByItemId.mockResolvedValue([subtask]);
+
+    const response = await request(app)
+      .get('/api/items/1/subtasks')
+      .expect(200);
+
+    expect(mockStorage.getSubtasksByItemId).toHaveBeenCalledWith(1);
+    expect(response.body).toEqual([subtask]);
+  });
+
+  it('should create a subtask', async () => {
+    mockStorage.createSubtask.mockResolvedValue(subtask);
+
+    await request(app)
+      .post('/api/items/1/subtasks')
+      .send({ title: ' Book flights ' })
+      .expect(200);
+
+    expect(mockStorage.createSubtask).toHaveBeenCalledWith({ itemId: 1, title: 'Book flights' });
+  });
+
+  it('should reject empty subtask titles', async () => {
+    await request(app)
+      .post('/api/items/1/subtasks')
+      .send({ title: '   ' })
+      .expect(400);
+
+    expect(mockStorage.createSubtask).not.toHaveBeenCalled();
+  });
+
+  it('should complete and rename a subtask', async () => {
+    mockStorage.getSubtaskById.mockResolvedValue(subtask);
+    mockStorage.updateSubtask.mockResolvedValue({ ...subtask, title: 'Book train', completed: true });
+
+    const response = await request(app)
+      .patch('/api/items/1/subtasks/10')
+      .send({ title: 'Book train', completed: true })
+      .expect(200);
+
+    expect(mockStorage.updateSubtask).toHaveBeenCalledWith(10, { title: 'Book train', completed: true });
+    expect(response.body.completed).toBe(true);
+  });
+
+  it('should delete a subtask', async () => {
+    mockStorage.getSubtaskById.mockResolvedValue(subtask);
+
+    await request(app)
+      .delete('/api/items/1/subtasks/10')
+      .expect(204);
+
+    expect(mockStorage.deleteSubtask).toHaveBeenCalledWith(10);
+  });
+
+  it('should not reach subtasks through another item', async () => {
+    mockStorage.getSubtaskById.mockResolvedValue({ ...subtask, itemId: 2 });
+
+    await request(app)
+      .patch('/api/items/1/subtasks/10')
+      .send({ completed: true })
+      .expect(404);
+
+    await request(app)
+      .delete('/api/items/1/subtasks/10')
+      .expect(404);
+
+    expect(mockStorage.updateSubtask).not.toHaveBeenCalled();
+    expect(mockStorage.deleteSubtask).not.toHaveBeenCalled();
+  });
+
+  it('should not expose subtasks of items owned by other users', async () => {
+    mockStorage.getItemsByUserId.mockResolvedValue([]);
+
+    await request(app)
+      .get('/api/items/1/subtasks')
+      .expect(404);
+
+    await request(app)
+      .post('/api/items/1/subtasks')
+      .send({ title: 'Sneaky' })
+      .expect(404);
+
+    expect(mockStorage.getSubtasksByItemId).not.toHaveBeenCalled();
+    expect(mockStorage.createSubtask).not.toHaveBeenCalled();
+  });
+
+  it('should reorder subtasks', async () => {
+    const second = { ...subtask, id: 11, title: 'Pack', position: 1 };
+    mockStorage.getSubtasksByItemId.mockResolvedValue([subtask, second]);
+
+    await request(app)
+      .put('/api/items/1/subtasks/order')
+      .send({ ids: [11, 10] })
+      .expect(200);
+
+    expect(mockStorage.reorderSubtasks).toHaveBeenCalledWith(1, [11, 10]);
+  });
+
+  it('should reject orderings that do not match the item\'s subtasks', async () => {
+    mockStorage.getSubtasksByItemId.mockResolvedValue([subtask]);
+
+    await request(app)
+      .put('/api/items/1/subtasks/order')
+      .send({ ids: [10, 99] })
+      .expect(400);
+
+    expect(mockStorage.reorderSubtasks).not.toHaveBeenCalled();
+  });
+
+  it('should include subtask progress in GET /api/items', async () => {
+    mockStorage.getSubtaskProgress.mockResolvedValue({ 1: { total: 3, completed: 1 } });
+
+    const response = await request(app)
+      .get('/api/items')
+      .expect(200);
+
+    expect(mockStorage.getSubtaskProgress).toHaveBeenCalledWith([1]);
+    expect(response.body[0].subtaskProgress).toEqual({ total: 3, completed: 1 });
+  });
+});
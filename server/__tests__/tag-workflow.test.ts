@@ -0,0 +1,186 @@
+import request from 'supertest';
+import express from 'express';
+import { registerTagRoutes } from '../routes/tagRoutes';
+import { registerItemRoutes } from '../routes/itemRoutes';
+import { resetAllMocks, mockStorage } from './setup/mocks';
+
+// Import and apply mocks
+import './setup/mocks';
+
+describe('Tag Workflow', () => {
+  let app: express.Express;
+
+  const ownedTag = {
+    id: 5,
+    name: 'work',
+    color: '#3b82f6',
+    userId: 'test-replit-user-id',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z'
+  };
+
+  const ownedItem = {
+    id: 1,
+    item: 'Write report',
+    userId: 'test-replit-user-id',
+    status: 'open'
+  };
+
+  beforeAll(async () => {
+    app = express();
+    app.use(express.json());
+    await registerItemRoutes(app);
+    await registerTagRoutes(app);
+  });
+
+  beforeEach(() => {
+    resetAllMocks();
+    mockStorage.getItemsByUserId.mockResolvedValue([ownedItem]);
+  });
+
+  describe('Tag CRUD', () => {
+    it('should list the user\'s tags', async () => {
+      mockStorage.getTagsByUserId.mockResolvedValue([ownedTag]);
+
+      const response = await request(app)
+        .get('/api/tags')
+        .expect(200);
+
+      expect(mockStorage.getTagsByUserId).toHaveBeenCalledWith('test-replit-user-id');
+      expect(response.body).toEqual([ownedTag]);
+    });
+
+    it('should create a tag', async () => {
+      mockStorage.createTag.mockImplementation(async (data: any) => ({ id: 6, ...data }));
+
+      const response = await request(app)
+        .post('/api/tags')
+        .send({ name: ' home ', color: '#22c55e' })
+        .expect(200);
+
+      expect(mockStorage.createTag).toHaveBeenCalledWith({
+        userId: 'test-replit-user-id',
+        name: 'home',
+        color: '#22c55e'
+      });
+      expect(response.body.id).toBe(6);
+    });
+
+    it('should reject duplicate tag names', async () => {
+      mockStorage.getTagByName.mockResolvedValue(ownedTag);
+
+      await request(app)
+        .post('/api/tags')
+        .send({ name: 'work' })
+        .expect(409);
+
+      expect(mockStorage.createTag).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid colors', async () => {
+      await request(app)
+        .post('/api/tags')
+        .send({ name: 'home', color: 'red' })
+        .expect(400);
+    });
+
+    it('should rename and recolor a tag', async () => {
+      mockStorage.getTagById.mockResolvedValue(ownedTag);
+      mockStorage.updateTag.mockResolvedValue({ ...ownedTag, name: 'office', color: '#ef4444' });
+
+      const response = await request(app)
+        .patch('/api/tags/5')
+        .send({ name: 'office', color: '#ef4444' })
+        .expect(200);
+
+      expect(mockStorage.updateTag).toHaveBeenCalledWith(5, { name: 'office', color: '#ef4444' });
+      expect(response.body.name).toBe('office');
+    });
+
+    it('should delete a tag', async () => {
+      mockStorage.getTagById.mockResolvedValue(ownedTag);
+
+      await request(app)
+        .delete('/api/tags/5')
+        .expect(204);
+
+      expect(mockStorage.deleteTag).toHaveBeenCalledWith(5);
+    });
+
+    it('should not modify tags owned by other users', async () => {
+      mockStorage.getTagById.mockResolvedValue({ ...ownedTag, userId: 'other-replit-user-id' });
+
+      await request(app)
+        .patch('/api/tags/5')
+        .send({ name: 'mine' })
+        .expect(403);
+
+      await request(app)
+        .delete('/api/tags/5')
+        .expect(403);
+
+      expect(mockStorage.updateTag).not.toHaveBeenCalled();
+      expect(mockStorage.deleteTag).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Item Tags', () => {
+    it('should attach a tag to an item', async () => {
+      mockStorage.getTagById.mockResolvedValue(ownedTag);
+
+      await request(app)
+        .put('/api/items/1/tags/5')
+        .expect(204);
+
+      expect(mockStorage.addTagToItem).toHaveBeenCalledWith(1, 5);
+    });
+
+    it('should not attach another user\'s tag', async () => {
+      mockStorage.getTagById.mockResolvedValue({ ...ownedTag, userId: 'other-replit-user-id' });
+
+      await request(app)
+        .put('/api/items/1/tags/5')
+        .expect(404);
+
+      expect(mockStorage.addTagToItem).not.toHaveBeenCalled();
+    });
+
+    it('should not tag items owned by other users', async () => {
+      mockStorage.getItemsByUserId.mockResolvedValue([]);
+      mockStorage.getTagById.mockResolvedValue(ownedTag);
+
+      await request(app)
+        .put('/api/items/1/tags/5')
+        .expect(404);
+
+      expect(mockStorage.addTagToItem).not.toHaveBeenCalled();
+    });
+
+    it('should detach a tag from an item', async () => {
+      await request(app)
+        .delete('/api/items/1/tags/5')
+        .expect(204);
+
+      expect(mockStorage.removeTagFromItem).toHaveBeenCalledWith(1, 5);
+    });
+
+    it('should filter items by tag and include tags in the page', async () => {
+      mockStorage.listItems.mockResolvedValue({ items: [ownedItem], total: 1, nextCursor: null });
+      mockStorage.getTagsForItems.mockResolvedValue({ 1: [ownedTag] });
+
+      const response = await request(app)
+        .get('/api/items?tag=5')
+        .expect(200);
+
+      expect(mockStorage.listItems).toHaveBeenCalledWith('test-replit-user-id', expect.objectContaining({ tag: 5 }));
+      expect(mockStorage.getTagsForItems).toHaveBeenCalledWith([1]);
+      expect(response.body.items[0].tags).toEqual([ownedTag]);
+    });
+
+    it('should reject non-numeric tag filters', async () => {
+      await request(app)
+        .get('/api/items?tag=work')
+        .expect(400);
+    });
+  });
+});
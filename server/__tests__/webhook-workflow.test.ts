@@ -1,6 +1,8 @@
 import request from 'supertest';
 import express from 'express';
 import { registerWebhookRoutes } from '../routes/webhookRoutes';
+import { processWebhookEvent, registerWebhookJobs, WEBHOOK_PROCESS_JOB } from '../lib/stripeWebhooks';
+import { runDueJobs } from '../lib/jobs';
 import { resetAllMocks, mockStorage, mockStripeInstance } from './setup/mocks';
 
 // Import and apply mocks
@@ -18,14 +20,23 @@ describe('Webhook Workflow', () => {
 
   beforeAll(() => {
     process.env.STRIPE_WEBHOOK_SECRET = 'whsec_test_secret';
+    process.env.STRIPE_PRICE_ID_PRO = 'price_test_pro123';
   });
 
   beforeEach(() => {
     resetAllMocks();
+    // Checkout fulfillment and invoice events look up the subscription
+    mockStripeInstance.subscriptions.retrieve.mockResolvedValue({
+      id: 'sub_test123',
+      status: 'active',
+      metadata: { userId: 'test-replit-user-id' },
+      items: { data: [{ price: { id: 'price_test_pro123' } }] }
+    });
   });
 
   afterAll(() => {
     delete process.env.STRIPE_WEBHOOK_SECRET;
+    delete process.env.STRIPE_PRICE_ID_PRO;
   });
 
   // Mock webhook event data based on actual Stripe event structures
@@ -77,6 +88,9 @@ describe('Webhook Workflow', () => {
           status: 'active',
           metadata: {
             userId: 'test-replit-user-id'
+          },
+          items: {
+            data: [{ price: { id: 'price_test_pro123' } }]
           }
         }
       }
@@ -94,6 +108,9 @@ describe('Webhook Workflow', () => {
           status: 'active',
           metadata: {
             userId: 'test-replit-user-id'
+          },
+          items: {
+            data: [{ price: { id: 'price_test_pro123' } }]
           }
         }
       }
@@ -111,6 +128,9 @@ describe('Webhook Workflow', () => {
           status: 'canceled',
           metadata: {
             userId: 'test-replit-user-id'
+          },
+          items: {
+            data: [{ price: { id: 'price_test_pro123' } }]
           }
         }
       }
@@ -236,6 +256,13 @@ describe('Webhook Workflow', () => {
     it('should fulfill subscription checkout session and upgrade user to pro', async () => {
       const { payload, signature } = createWebhookPayload(mockEvents.checkoutSessionCompleted);
       mockConstructEvent(mockEvents.checkoutSessionCompleted);
+      mockStripeInstance.subscriptions.retrieve.mockResolvedValue({
+        id: 'sub_test123',
+        status: 'active',
+        customer: 'cus_test123',
+        metadata: {},
+        items: { data: [{ price: { id: 'price_test_pro123' } }] }
+      });
       
       mockStorage.updateUser.mockResolvedValue({
         id: 'test-replit-user-id',
@@ -248,14 +275,42 @@ describe('Webhook Workflow', () => {
         .set('stripe-signature', signature)
         .expect(200);
 
+      // Verify the subscription was stored for the session's user
+      expect(mockStripeInstance.subscriptions.retrieve).toHaveBeenCalledWith('sub_test123');
+      expect(mockStorage.upsertSubscription).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'test-replit-user-id',
+        stripeSubscriptionId: 'sub_test123',
+        stripeCustomerId: 'cus_test123',
+        status: 'active'
+      }));
+
       // Verify user subscription was updated
       expect(mockStorage.updateUser).toHaveBeenCalledWith('test-replit-user-id', {
-        subscriptionType: 'pro'
+        subscriptionType: 'pro',
+        isPremium: true
       });
 
       expect(response.body).toEqual({ received: true });
     });
 
+    it('should email a subscription confirmation', async () => {
+      const { payload, signature } = createWebhookPayload(mockEvents.checkoutSessionCompleted);
+      mockConstructEvent(mockEvents.checkoutSessionCompleted);
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', email: 'test@example.com' });
+
+      await request(app)
+        .post('/api/webhook')
+        .send(payload)
+        .set('stripe-signature', signature)
+        .expect(200);
+
+      expect(mockStorage.enqueueEmail).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'test@example.com',
+        subject: 'Welcome to Pro',
+        template: 'subscriptionConfirmed'
+      }));
+    });
+
     it('should handle one-time payment checkout session', async () => {
       const paymentEvent = {
         ...mockEvents.checkoutSessionCompleted,
@@ -390,8 +445,85 @@ describe('Webhook Workflow', () => {
         .set('stripe-signature', signature)
         .expect(200);
 
+      expect(mockStorage.upsertSubscription).toHaveBeenCalledWith(expect.objectContaining({
+        stripeSubscriptionId: 'sub_test123',
+        status: 'active'
+      }));
       expect(response.body).toEqual({ received: true });
     });
+
+    it('should store the full subscription record', async () => {
+      const trialingEvent = {
+        ...mockEvents.subscriptionCreated,
+        data: {
+          object: {
+            ...mockEvents.subscriptionCreated.data.object,
+            status: 'trialing',
+            customer: 'cus_test123',
+            cancel_at_period_end: true,
+            canceled_at: 1740787200,
+            trial_end: 1741392000,
+            items: {
+              data: [{ price: { id: 'price_test_pro123' }, current_period_end: 1743465600 }]
+            }
+          }
+        }
+      };
+      const { payload, signature } = createWebhookPayload(trialingEvent);
+      mockConstructEvent(trialingEvent);
+
+      await request(app)
+        .post('/api/webhook')
+        .send(payload)
+        .set('stripe-signature', signature)
+        .expect(200);
+
+      expect(mockStorage.upsertSubscription).toHaveBeenCalledWith({
+        userId: 'test-replit-user-id',
+        stripeSubscriptionId: 'sub_test123',
+        stripeCustomerId: 'cus_test123',
+        stripePriceId: 'price_test_pro123',
+        status: 'trialing',
+        currentPeriodEnd: new Date('2025-04-01T00:00:00.000Z'),
+        cancelAtPeriodEnd: true,
+        trialEnd: new Date('2025-03-08T00:00:00.000Z'),
+        canceledAt: new Date('2025-03-01T00:00:00.000Z'),
+        gracePeriodEndsAt: null,
+        lastEventAt: new Date(1234567890 * 1000)
+      });
+      // Trials get the paid plan
+      expect(mockStorage.updateUser).toHaveBeenCalledWith('test-replit-user-id', {
+        subscriptionType: 'pro',
+        isPremium: true
+      });
+    });
+
+    it('should match subscriptions without a user ID through the Stripe customer', async () => {
+      const dashboardEvent = {
+        ...mockEvents.subscriptionCreated,
+        data: {
+          object: {
+            ...mockEvents.subscriptionCreated.data.object,
+            customer: 'cus_test123',
+            metadata: {}
+          }
+        }
+      };
+      const { payload, signature } = createWebhookPayload(dashboardEvent);
+      mockConstructEvent(dashboardEvent);
+      mockStorage.getUserByStripeCustomerId.mockResolvedValue({ id: 'test-replit-user-id' });
+
+      await request(app)
+        .post('/api/webhook')
+        .send(payload)
+        .set('stripe-signature', signature)
+        .expect(200);
+
+      expect(mockStorage.getUserByStripeCustomerId).toHaveBeenCalledWith('cus_test123');
+      expect(mockStorage.upsertSubscription).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'test-replit-user-id'
+      }));
+    });
   });
 
   describe('customer.subscription.updated', () => {
@@ -411,7 +543,8 @@ describe('Webhook Workflow', () => {
         .expect(200);
 
       expect(mockStorage.updateUser).toHaveBeenCalledWith('test-replit-user-id', {
-        subscriptionType: 'pro'
+        subscriptionType: 'pro',
+        isPremium: true
       });
 
       expect(response.body).toEqual({ received: true });
@@ -443,13 +576,15 @@ describe('Webhook Workflow', () => {
         .expect(200);
 
       expect(mockStorage.updateUser).toHaveBeenCalledWith('test-replit-user-id', {
-        subscriptionType: 'free'
+        subscriptionType: 'free',
+        isPremium: false
       });
 
       expect(response.body).toEqual({ received: true });
     });
 
-    it('should downgrade user when subscription is past due', async () => {
+    // The test events are years old, so their grace period is long over
+    it('should downgrade user when subscription is past due past the grace period', async () => {
       const pastDueEvent = {
         ...mockEvents.subscriptionUpdated,
         data: {
@@ -475,11 +610,12 @@ describe('Webhook Workflow', () => {
         .expect(200);
 
       expect(mockStorage.updateUser).toHaveBeenCalledWith('test-replit-user-id', {
-        subscriptionType: 'free'
+        subscriptionType: 'free',
+        isPremium: false
       });
     });
 
-    it('should downgrade user when subscription is unpaid', async () => {
+    it('should downgrade user when subscription is unpaid past the grace period', async () => {
       const unpaidEvent = {
         ...mockEvents.subscriptionUpdated,
         data: {
@@ -500,7 +636,8 @@ describe('Webhook Workflow', () => {
         .expect(200);
 
       expect(mockStorage.updateUser).toHaveBeenCalledWith('test-replit-user-id', {
-        subscriptionType: 'free'
+        subscriptionType: 'free',
+        isPremium: false
       });
     });
 
@@ -530,6 +667,30 @@ describe('Webhook Workflow', () => {
   });
 
   describe('customer.subscription.deleted', () => {
+    it('should keep the user on pro while another subscription is active', async () => {
+      const { payload, signature } = createWebhookPayload(mockEvents.subscriptionDeleted);
+      mockConstructEvent(mockEvents.subscriptionDeleted);
+      mockStorage.getSubscriptionsByUserId.mockResolvedValue([
+        { id: 2, stripeSubscriptionId: 'sub_test456', stripePriceId: 'price_test_pro123', status: 'active' },
+        { id: 1, stripeSubscriptionId: 'sub_test123', stripePriceId: 'price_test_pro123', status: 'active' }
+      ]);
+
+      await request(app)
+        .post('/api/webhook')
+        .send(payload)
+        .set('stripe-signature', signature)
+        .expect(200);
+
+      expect(mockStorage.upsertSubscription).toHaveBeenCalledWith(expect.objectContaining({
+        stripeSubscriptionId: 'sub_test123',
+        status: 'canceled'
+      }));
+      expect(mockStorage.updateUser).toHaveBeenCalledWith('test-replit-user-id', {
+        subscriptionType: 'pro',
+        isPremium: true
+      });
+    });
+
     it('should downgrade user when subscription is deleted', async () => {
       const { payload, signature } = createWebhookPayload(mockEvents.subscriptionDeleted);
       mockConstructEvent(mockEvents.subscriptionDeleted);
@@ -546,7 +707,8 @@ describe('Webhook Workflow', () => {
         .expect(200);
 
       expect(mockStorage.updateUser).toHaveBeenCalledWith('test-replit-user-id', {
-        subscriptionType: 'free'
+        subscriptionType: 'free',
+        isPremium: false
       });
 
       expect(response.body).toEqual({ received: true });
@@ -585,9 +747,11 @@ describe('Webhook Workflow', () => {
       // Mock subscription retrieve
       mockStripeInstance.subscriptions.retrieve.mockResolvedValue({
         id: 'sub_test123',
+        status: 'active',
         metadata: {
           userId: 'test-replit-user-id'
-        }
+        },
+        items: { data: [{ price: { id: 'price_test_pro123' } }] }
       });
 
       mockStorage.updateUser.mockResolvedValue({
@@ -603,7 +767,8 @@ describe('Webhook Workflow', () => {
 
       expect(mockStripeInstance.subscriptions.retrieve).toHaveBeenCalledWith('sub_test123');
       expect(mockStorage.updateUser).toHaveBeenCalledWith('test-replit-user-id', {
-        subscriptionType: 'pro'
+        subscriptionType: 'pro',
+        isPremium: true
       });
 
       expect(response.body).toEqual({ received: true });
@@ -663,9 +828,11 @@ describe('Webhook Workflow', () => {
       // Mock subscription retrieve
       mockStripeInstance.subscriptions.retrieve.mockResolvedValue({
         id: 'sub_test123',
+        status: 'past_due',
         metadata: {
           userId: 'test-replit-user-id'
-        }
+        },
+        items: { data: [{ price: { id: 'price_test_pro123' } }] }
       });
 
       const response = await request(app)
@@ -677,10 +844,47 @@ describe('Webhook Workflow', () => {
       expect(mockStripeInstance.subscriptions.retrieve).toHaveBeenCalledWith('sub_test123');
       
       // Should not downgrade user immediately on payment failure
-      expect(mockStorage.updateUser).not.toHaveBeenCalled();
+      expect(mockStorage.updateUser).toHaveBeenCalledWith('test-replit-user-id', {
+        subscriptionType: 'pro',
+        isPremium: true
+      });
       expect(response.body).toEqual({ received: true });
     });
 
+    it('should email the user that their payment failed', async () => {
+      const failedInvoice = {
+        ...mockEvents.invoicePaymentFailed,
+        data: {
+          object: {
+            ...mockEvents.invoicePaymentFailed.data.object,
+            amount_due: 999,
+            currency: 'usd',
+            hosted_invoice_url: 'https://invoice.stripe.com/i/test'
+          }
+        }
+      };
+      const { payload, signature } = createWebhookPayload(failedInvoice);
+      mockConstructEvent(failedInvoice);
+      mockStripeInstance.subscriptions.retrieve.mockResolvedValue({
+        id: 'sub_test123',
+        status: 'past_due',
+        metadata: { userId: 'test-replit-user-id' }
+      });
+      mockStorage.getUserById.mockResolvedValue({ id: 'test-replit-user-id', email: 'test@example.com' });
+
+      await request(app)
+        .post('/api/webhook')
+        .send(payload)
+        .set('stripe-signature', signature)
+        .expect(200);
+
+      const message = mockStorage.enqueueEmail.mock.calls[0][0];
+      expect(message.subject).toBe('Your payment failed');
+      expect(message.text).toContain('$9.99');
+      expect(message.text).toContain('Your plan stays active until');
+      expect(message.html).toContain('<a href="https://invoice.stripe.com/i/test">');
+    });
+
     it('should handle failed payment without subscription', async () => {
       const failedInvoiceWithoutSub = {
         ...mockEvents.invoicePaymentFailed,
@@ -770,6 +974,173 @@ describe('Webhook Workflow', () => {
     });
   });
 
+  describe('Event Recording', () => {
+    afterEach(() => {
+      delete process.env.STRIPE_WEBHOOK_MODE;
+    });
+
+    it('should record each event and mark it processed', async () => {
+      const { payload, signature } = createWebhookPayload(mockEvents.subscriptionUpdated);
+      mockConstructEvent(mockEvents.subscriptionUpdated);
+
+      await request(app)
+        .post('/api/webhook')
+        .send(payload)
+        .set('stripe-signature', signature)
+        .expect(200);
+
+      expect(mockStorage.recordWebhookEvent).toHaveBeenCalledWith({
+        id: mockEvents.subscriptionUpdated.id,
+        type: 'customer.subscription.updated',
+        payload: mockEvents.subscriptionUpdated,
+        eventCreatedAt: new Date(mockEvents.subscriptionUpdated.created * 1000)
+      });
+      expect(mockStorage.claimWebhookEvent).toHaveBeenCalledWith(mockEvents.subscriptionUpdated.id, expect.any(Date), expect.any(Date));
+      expect(mockStorage.markWebhookEventProcessed).toHaveBeenCalledWith(mockEvents.subscriptionUpdated.id);
+    });
+
+    it('should acknowledge an already processed event without handling it again', async () => {
+      const { payload, signature } = createWebhookPayload(mockEvents.subscriptionUpdated);
+      mockConstructEvent(mockEvents.subscriptionUpdated);
+      mockStorage.recordWebhookEvent.mockResolvedValue({ id: mockEvents.subscriptionUpdated.id, status: 'processed' });
+
+      const response = await request(app)
+        .post('/api/webhook')
+        .send(payload)
+        .set('stripe-signature', signature)
+        .expect(200);
+
+      expect(response.body).toEqual({ received: true, duplicate: true });
+      expect(mockStorage.claimWebhookEvent).not.toHaveBeenCalled();
+      expect(mockStorage.upsertSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should not handle an event another delivery is processing', async () => {
+      const { payload, signature } = createWebhookPayload(mockEvents.subscriptionUpdated);
+      mockConstructEvent(mockEvents.subscriptionUpdated);
+      mockStorage.recordWebhookEvent.mockResolvedValue({ id: mockEvents.subscriptionUpdated.id, status: 'processing' });
+      mockStorage.claimWebhookEvent.mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/api/webhook')
+        .send(payload)
+        .set('stripe-signature', signature)
+        .expect(200);
+
+      expect(response.body).toEqual({ received: true, duplicate: true });
+      expect(mockStorage.upsertSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should record the error when processing fails', async () => {
+      const { payload, signature } = createWebhookPayload(mockEvents.invoicePaymentSucceeded);
+      mockConstructEvent(mockEvents.invoicePaymentSucceeded);
+      mockStripeInstance.subscriptions.retrieve.mockRejectedValue(new Error('Stripe API Error'));
+
+      await request(app)
+        .post('/api/webhook')
+        .send(payload)
+        .set('stripe-signature', signature)
+        .expect(500);
+
+      expect(mockStorage.markWebhookEventFailed).toHaveBeenCalledWith(mockEvents.invoicePaymentSucceeded.id, 'Stripe API Error');
+      expect(mockStorage.markWebhookEventProcessed).not.toHaveBeenCalled();
+    });
+
+    it('should ignore subscription events older than the stored state', async () => {
+      const { payload, signature } = createWebhookPayload(mockEvents.subscriptionUpdated);
+      mockConstructEvent(mockEvents.subscriptionUpdated);
+      mockStorage.getSubscriptionByStripeId.mockResolvedValue({
+        stripeSubscriptionId: 'sub_test123',
+        status: 'canceled',
+        lastEventAt: new Date((mockEvents.subscriptionUpdated.created + 60) * 1000)
+      });
+
+      await request(app)
+        .post('/api/webhook')
+        .send(payload)
+        .set('stripe-signature', signature)
+        .expect(200);
+
+      expect(mockStorage.upsertSubscription).not.toHaveBeenCalled();
+      expect(mockStorage.updateUser).not.toHaveBeenCalled();
+      // The stale event is still done with, so it is not retried
+      expect(mockStorage.markWebhookEventProcessed).toHaveBeenCalledWith(mockEvents.subscriptionUpdated.id);
+    });
+
+    it('should leave the plan alone when a newer state is written concurrently', async () => {
+      const { payload, signature } = createWebhookPayload(mockEvents.subscriptionUpdated);
+      mockConstructEvent(mockEvents.subscriptionUpdated);
+      mockStorage.upsertSubscription.mockResolvedValue(undefined);
+
+      await request(app)
+        .post('/api/webhook')
+        .send(payload)
+        .set('stripe-signature', signature)
+        .expect(200);
+
+      expect(mockStorage.updateUser).not.toHaveBeenCalled();
+    });
+
+    it('should queue events for the job runner in async mode', async () => {
+      process.env.STRIPE_WEBHOOK_MODE = 'async';
+      const { payload, signature } = createWebhookPayload(mockEvents.subscriptionUpdated);
+      mockConstructEvent(mockEvents.subscriptionUpdated);
+
+      const response = await request(app)
+        .post('/api/webhook')
+        .send(payload)
+        .set('stripe-signature', signature)
+        .expect(200);
+
+      expect(response.body).toEqual({ received: true });
+      expect(mockStorage.recordWebhookEvent).toHaveBeenCalled();
+      expect(mockStorage.enqueueJob).toHaveBeenCalledWith(expect.objectContaining({
+        type: WEBHOOK_PROCESS_JOB,
+        payload: { eventId: mockEvents.subscriptionUpdated.id },
+        uniqueKey: `webhook:${mockEvents.subscriptionUpdated.id}`,
+        maxAttempts: 5
+      }));
+      expect(mockStorage.claimWebhookEvent).not.toHaveBeenCalled();
+      expect(mockStorage.upsertSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should let a redelivery queue the event again once its job is out of retries', async () => {
+      registerWebhookJobs();
+      const webhookJob = (id: number, attempts: number) => ({
+        id,
+        type: WEBHOOK_PROCESS_JOB,
+        payload: { eventId: mockEvents.subscriptionUpdated.id },
+        attempts,
+        maxAttempts: 5
+      });
+      mockStorage.claimDueJobs.mockResolvedValue([webhookJob(1, 2), webhookJob(2, 5)]);
+      mockStorage.claimWebhookEvent.mockRejectedValue(new Error('db down'));
+
+      await runDueJobs(new Date());
+
+      expect(mockStorage.failJob).toHaveBeenCalledWith(1, 'db down', expect.any(Date));
+      expect(mockStorage.failJob).toHaveBeenCalledWith(2, 'db down', null);
+      expect(mockStorage.releaseJobUniqueKey).toHaveBeenCalledTimes(1);
+      expect(mockStorage.releaseJobUniqueKey).toHaveBeenCalledWith(2);
+    });
+
+    it('should replay a recorded event from its stored payload', async () => {
+      mockStorage.claimWebhookEvent.mockResolvedValue({
+        id: mockEvents.subscriptionUpdated.id,
+        status: 'processing',
+        attempts: 2,
+        payload: mockEvents.subscriptionUpdated
+      });
+
+      await expect(processWebhookEvent(mockEvents.subscriptionUpdated.id)).resolves.toBe(true);
+
+      expect(mockStorage.upsertSubscription).toHaveBeenCalledWith(expect.objectContaining({
+        stripeSubscriptionId: 'sub_test123'
+      }));
+      expect(mockStorage.markWebhookEventProcessed).toHaveBeenCalledWith(mockEvents.subscriptionUpdated.id);
+    });
+  });
+
   describe('Security and Validation', () => {
     it('should verify webhook signature before processing', async () => {
       const { payload } = createWebhookPayload(mockEvents.checkoutSessionCompleted);
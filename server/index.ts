@@ -21,6 +21,13 @@ const PORT = parseInt(process.env.PORT || '5000', 10);
 app.set('trust proxy', true);
 
 import { posthog, logEvent, logSecurity } from './lib/audit';
+import { registerItemPurgeJob } from './lib/itemTrash';
+import { registerReminderJobs } from './lib/reminders';
+import { registerDigestJobs } from './lib/digests';
+import { registerEmailOutboxJobs } from './lib/emailOutbox';
+import { registerWebhookJobs } from './lib/stripeWebhooks';
+import { registerDunningJobs } from './lib/subscriptions';
+import { startJobScheduler } from './lib/jobs';
 
 (async () => {
   // Security headers with Helmet
@@ -350,5 +357,12 @@ function getProductionErrorMessage(status: number): string {
 
   server.listen(PORT, "0.0.0.0", () => {
     log(`serving on port ${PORT}`);
+    registerItemPurgeJob();
+    registerReminderJobs();
+    registerDigestJobs();
+    registerEmailOutboxJobs();
+    registerWebhookJobs();
+    registerDunningJobs();
+    startJobScheduler();
   });
 })();
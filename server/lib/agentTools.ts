@@ -0,0 +1,300 @@
+import { z } from 'zod';
+import { updateItemSchema, createSubtaskSchema, createTagSchema, bulkItemActionSchema, ItemEventSource, type Item, type ItemStatus, type Subtask } from '@shared/schema';
+import { storage } from '../storage/index';
+import { errors } from './errors';
+import { itemEvents } from './itemEvents';
+import { scheduleNextOccurrence } from './itemRecurrence';
+import { applyBulkItemAction } from './itemBulkActions';
+import { assertEntitlement } from './plans';
+import getTodosDefinition from '../../docs/agent-function-getTodos.json';
+import createTodoDefinition from '../../docs/agent-function-createTodo.json';
+import updateTodoStatusDefinition from '../../docs/agent-function-updateTodoStatus.json';
+import updateTodoDefinition from '../../docs/agent-function-updateTodo.json';
+import deleteTodoDefinition from '../../docs/agent-function-deleteTodo.json';
+import restoreTodoDefinition from '../../docs/agent-function-restoreTodo.json';
+import getSubtasksDefinition from '../../docs/agent-function-getSubtasks.json';
+import addSubtaskDefinition from '../../docs/agent-function-addSubtask.json';
+import completeSubtaskDefinition from '../../docs/agent-function-completeSubtask.json';
+import bulkUpdateTodosDefinition from '../../docs/agent-function-bulkUpdateTodos.json';
+
+// Subset of JSON Schema used by the agent function definitions in docs/
+interface JsonSchemaProperty {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  enum?: string[];
+  items?: JsonSchemaProperty;
+  description?: string;
+}
+
+interface AgentFunctionDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, JsonSchemaProperty>;
+    required?: string[];
+    additionalProperties?: boolean;
+  };
+}
+
+export interface AgentTool {
+  definition: AgentFunctionDefinition;
+  schema: z.ZodType<Record<string, any>>;
+  execute: (userId: string, params: Record<string, any>) => Promise<Record<string, unknown>>;
+}
+
+function propertyToZod(property: JsonSchemaProperty): z.ZodTypeAny {
+  let schema: z.ZodTypeAny;
+  switch (property.type) {
+    case 'string':
+      schema = property.enum?.length
+        ? z.enum(property.enum as [string, ...string[]])
+        : z.string();
+      break;
+    case 'number':
+      schema = z.number();
+      break;
+    case 'integer':
+      schema = z.number().int();
+      break;
+    case 'boolean':
+      schema = z.boolean();
+      break;
+    case 'array':
+      if (!property.items) {
+        throw new Error('Agent array parameters must declare their items');
+      }
+      schema = z.array(propertyToZod(property.items));
+      break;
+    default:
+      throw new Error(`Unsupported agent parameter type: ${(property as any).type}`);
+  }
+  return property.description ? schema.describe(property.description) : schema;
+}
+
+/**
+ * Build a zod schema from an agent function's JSON Schema parameters so the
+ * server validates exactly what the agent was told to send
+ */
+export function parametersToZod(parameters: AgentFunctionDefinition['parameters']): z.ZodType<Record<string, any>> {
+  const required = new Set(parameters.required ?? []);
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const [key, property] of Object.entries(parameters.properties)) {
+    const schema = propertyToZod(property);
+    shape[key] = required.has(key) ? schema : schema.optional();
+  }
+
+  const object = z.object(shape);
+  return parameters.additionalProperties === false ? object.strict() : object.passthrough();
+}
+
+// The agent sends IDs as strings (see the function definitions)
+function parseId(id: string, label: string): number {
+  const parsed = Number(id);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw errors.validation(`Valid ${label} ID is required`);
+  }
+  return parsed;
+}
+
+function parseTodoId(id: string): number {
+  return parseId(id, 'Todo');
+}
+
+// Same rule as requiresItemOwnership: other users' items look like missing ones
+async function getOwnedItem(userId: string, id: number): Promise<Item> {
+  const item = await storage.getItemById(id);
+  if (!item || item.userId !== userId) {
+    throw errors.notFound('Item');
+  }
+  return item;
+}
+
+function toTodo(item: Item) {
+  return {
+    id: item.id,
+    text: item.item,
+    status: item.status,
+    description: item.description,
+    dueDate: item.dueDate,
+    priority: item.priority,
+    recurrence: item.recurrence,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+  };
+}
+
+function toSubtask(subtask: Subtask) {
+  return {
+    id: subtask.id,
+    title: subtask.title,
+    completed: subtask.completed,
+  };
+}
+
+function defineTool(
+  definition: AgentFunctionDefinition,
+  execute: AgentTool['execute']
+): AgentTool {
+  return { definition, schema: parametersToZod(definition.parameters), execute };
+}
+
+const tools: AgentTool[] = [
+  defineTool(getTodosDefinition as AgentFunctionDefinition, async (userId) => {
+    const items = await storage.getItemsByUserId(userId);
+    return {
+      success: true,
+      todos: items.map(toTodo),
+      count: items.length,
+    };
+  }),
+
+  defineTool(createTodoDefinition as AgentFunctionDefinition, async (userId, params) => {
+    const text = String(params.text).trim();
+    if (!text) {
+      throw errors.validation('Todo text is required');
+    }
+
+    await assertEntitlement(userId, 'items');
+
+    const created = await storage.createItem({ userId, item: text, status: 'open' });
+    await itemEvents.created(created, userId, ItemEventSource.AGENT);
+    return {
+      success: true,
+      todo: toTodo(created),
+    };
+  }),
+
+  defineTool(updateTodoStatusDefinition as AgentFunctionDefinition, async (userId, params) => {
+    const item = await getOwnedItem(userId, parseTodoId(params.id));
+    const updated = await storage.updateItemStatus(item.id, params.status as ItemStatus);
+    await itemEvents.statusChanged(item.id, userId, ItemEventSource.AGENT, params.status as ItemStatus, item.status);
+    const next = await scheduleNextOccurrence(item, params.status as ItemStatus, ItemEventSource.AGENT);
+    return {
+      success: true,
+      todo: toTodo(updated),
+      ...(next && { nextTodo: toTodo(next) }),
+    };
+  }),
+
+  defineTool(updateTodoDefinition as AgentFunctionDefinition, async (userId, params) => {
+    const item = await getOwnedItem(userId, parseTodoId(params.id));
+    // Same validation as PATCH /api/items/:id
+    const data = updateItemSchema.parse({
+      item: params.text,
+      description: params.description,
+      dueDate: params.dueDate,
+      priority: params.priority,
+      recurrence: params.recurrence,
+    });
+    const updated = await storage.updateItem(item.id, data);
+    await itemEvents.edited(item, data, userId, ItemEventSource.AGENT);
+    return {
+      success: true,
+      todo: toTodo(updated),
+    };
+  }),
+
+  defineTool(deleteTodoDefinition as AgentFunctionDefinition, async (userId, params) => {
+    const item = await getOwnedItem(userId, parseTodoId(params.id));
+    await storage.deleteItem(item.id);
+    await itemEvents.deleted([item.id], userId, ItemEventSource.AGENT);
+    return {
+      success: true,
+      message: 'Todo moved to trash',
+      deletedId: item.id,
+    };
+  }),
+
+  defineTool(restoreTodoDefinition as AgentFunctionDefinition, async (userId, params) => {
+    const id = parseTodoId(params.id);
+    await assertEntitlement(userId, 'items');
+    const restored = await storage.restoreItem(userId, id);
+    if (!restored) {
+      throw errors.notFound('Deleted item');
+    }
+    await itemEvents.restored(restored.id, userId, ItemEventSource.AGENT);
+    return {
+      success: true,
+      todo: toTodo(restored),
+    };
+  }),
+
+  defineTool(bulkUpdateTodosDefinition as AgentFunctionDefinition, async (userId, params) => {
+    const ids = (params.ids as string[]).map(parseTodoId);
+
+    // Same ownership rule as POST /api/items/bulk: all or nothing
+    const ownedIds = new Set(await storage.getOwnedItemIds(userId, ids));
+    const missingIds = ids.filter((id) => !ownedIds.has(id));
+    if (missingIds.length > 0) {
+      throw errors.notFound('Item', { missingIds });
+    }
+
+    let tagId: number | undefined;
+    if (params.action === 'tag') {
+      const { name } = createTagSchema.parse({ name: params.tag });
+      const tag = await storage.getTagByName(userId, name) ?? await storage.createTag({ userId, name });
+      tagId = tag.id;
+    }
+
+    const action = bulkItemActionSchema.parse({
+      action: params.action,
+      ids,
+      status: params.status,
+      tagId,
+      attached: params.remove === undefined ? undefined : !params.remove,
+    });
+    const count = await applyBulkItemAction(userId, action, ItemEventSource.AGENT);
+    return {
+      success: true,
+      action: action.action,
+      count,
+      ids,
+    };
+  }),
+
+  defineTool(getSubtasksDefinition as AgentFunctionDefinition, async (userId, params) => {
+    const item = await getOwnedItem(userId, parseTodoId(params.id));
+    const subtasks = await storage.getSubtasksByItemId(item.id);
+    return {
+      success: true,
+      todoId: item.id,
+      subtasks: subtasks.map(toSubtask),
+      count: subtasks.length,
+    };
+  }),
+
+  defineTool(addSubtaskDefinition as AgentFunctionDefinition, async (userId, params) => {
+    const item = await getOwnedItem(userId, parseTodoId(params.id));
+    // Same validation as POST /api/items/:id/subtasks
+    const { title } = createSubtaskSchema.parse({ title: params.title });
+    const created = await storage.createSubtask({ itemId: item.id, title });
+    return {
+      success: true,
+      todoId: item.id,
+      subtask: toSubtask(created),
+    };
+  }),
+
+  defineTool(completeSubtaskDefinition as AgentFunctionDefinition, async (userId, params) => {
+    const item = await getOwnedItem(userId, parseTodoId(params.id));
+    const subtask = await storage.getSubtaskById(parseId(params.subtaskId, 'Subtask'));
+    if (!subtask || subtask.itemId !== item.id) {
+      throw errors.notFound('Subtask');
+    }
+    const updated = await storage.updateSubtask(subtask.id, { completed: params.completed ?? true });
+    return {
+      success: true,
+      todoId: item.id,
+      subtask: toSubtask(updated),
+    };
+  }),
+];
+
+export const agentTools: Record<string, AgentTool> = Object.fromEntries(
+  tools.map((tool) => [tool.definition.name, tool])
+);
+
+export function getAgentTool(name: string): AgentTool | undefined {
+  return Object.prototype.hasOwnProperty.call(agentTools, name) ? agentTools[name] : undefined;
+}
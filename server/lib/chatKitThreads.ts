@@ -0,0 +1,104 @@
+import type { AiThread, InsertAiMessage } from '@shared/schema';
+import { storage } from '../storage/index';
+import { errors } from './errors';
+
+const CHATKIT_API_BASE = process.env.CHATKIT_API_BASE || 'https://api.openai.com';
+
+// Title of threads the user has not named; only these are retitled from ChatKit
+export const DEFAULT_THREAD_TITLE = 'New Chat';
+
+const TITLE_MAX_LENGTH = 60;
+const ITEMS_PAGE_SIZE = 100;
+
+// The parts of ChatKit's thread API used here
+interface ChatKitThread {
+  id: string;
+  title: string | null;
+  user: string;
+}
+
+interface ChatKitThreadItem {
+  id: string;
+  type: string;
+  created_at: number;
+  content?: { type: string; text?: string }[];
+}
+
+interface ChatKitItemPage {
+  data: ChatKitThreadItem[];
+  has_more: boolean;
+  last_id: string | null;
+}
+
+export interface ThreadSyncResult {
+  thread: AiThread;
+  saved: number;
+}
+
+async function chatKitGet<T>(path: string): Promise<T> {
+  if (!process.env.OPENAI_API_KEY) {
+    throw errors.internal('AI service not configured');
+  }
+  const response = await fetch(`${CHATKIT_API_BASE}/v1/chatkit${path}`, {
+    headers: {
+      'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
+      'OpenAI-Beta': 'chatkit_beta=v1',
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`ChatKit request failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+async function listThreadItems(threadId: string): Promise<ChatKitThreadItem[]> {
+  const items: ChatKitThreadItem[] = [];
+  let after: string | null = null;
+  do {
+    const query = new URLSearchParams({ order: 'asc', limit: String(ITEMS_PAGE_SIZE), ...(after && { after }) });
+    const page: ChatKitItemPage = await chatKitGet(`/threads/${encodeURIComponent(threadId)}/items?${query}`);
+    items.push(...page.data);
+    after = page.has_more ? page.last_id : null;
+  } while (after);
+  return items;
+}
+
+// User and assistant messages as plain text; tool calls, widgets and tasks are not kept
+function toMessage(threadId: string, item: ChatKitThreadItem): InsertAiMessage | undefined {
+  const role = item.type === 'chatkit.user_message' ? 'user'
+    : item.type === 'chatkit.assistant_message' ? 'assistant'
+    : undefined;
+  const content = (item.content ?? []).map(({ text }) => text ?? '').join('\n').trim();
+  if (!role || !content) return undefined;
+  return { id: item.id, threadId, role, content, createdAt: new Date(item.created_at * 1000) };
+}
+
+function toTitle(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > TITLE_MAX_LENGTH ? `${line.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…` : line;
+}
+
+/**
+ * Copy a thread's messages from ChatKit into ai_messages and, while the thread
+ * still has the default title, title it from ChatKit's title or the first user
+ * message. Messages are keyed by their ChatKit item IDs, so syncing again only
+ * adds what is new.
+ */
+export async function syncChatKitThread(thread: AiThread): Promise<ThreadSyncResult> {
+  const remote = await chatKitGet<ChatKitThread>(`/threads/${encodeURIComponent(thread.id)}`);
+  if (remote.user !== thread.userId) {
+    throw errors.forbidden('Thread belongs to another user');
+  }
+
+  const messages = (await listThreadItems(thread.id))
+    .map((item) => toMessage(thread.id, item))
+    .filter((message): message is InsertAiMessage => message !== undefined);
+  const saved = await storage.saveMessages(thread.id, messages);
+
+  const firstUserMessage = messages.find(({ role }) => role === 'user');
+  const title = toTitle(remote.title || firstUserMessage?.content || '');
+  if (thread.title === DEFAULT_THREAD_TITLE && title) {
+    return { thread: await storage.updateThread(thread.id, { title }), saved };
+  }
+  return { thread, saved };
+}
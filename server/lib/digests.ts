@@ -0,0 +1,102 @@
+import { DigestFrequency, EmailCategory, type User } from '@shared/schema';
+import { formatDueDate } from '@shared/dates';
+import { storage } from '../storage/index';
+import { queueUserEmail } from './emailOutbox';
+import { isEmailCategoryEnabled } from './emailPreferences';
+import { enqueueJob, registerJobHandler, registerPeriodicJob } from './jobs';
+
+export const DIGEST_SCAN_JOB = 'digests.scan';
+export const DIGEST_SEND_JOB = 'digests.send';
+
+/**
+ * How often users are checked for a digest that is due
+ */
+export const DIGEST_SCAN_INTERVAL_MS = 15 * 60 * 1000;
+
+// Digests go out from this local hour on; weekly ones on Mondays
+export const DIGEST_HOUR = 8;
+const WEEKLY_DIGEST_WEEKDAY = 'Mon';
+
+interface LocalTime {
+  date: string;
+  weekday: string;
+  hour: number;
+}
+
+/**
+ * Calendar date (YYYY-MM-DD), short weekday and hour of `now` in a timezone
+ */
+export function getLocalTime(now: Date, timeZone: string): LocalTime {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now).map(({ type, value }) => [type, value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, weekday: parts.weekday, hour: Number(parts.hour) };
+}
+
+/**
+ * The local date a user's digest is due for at `now`, or undefined when none is due
+ */
+export function getDigestDate(
+  user: Pick<User, 'digestFrequency' | 'timezone'> & { emailPreferences?: User['emailPreferences'] | null },
+  now: Date
+): string | undefined {
+  if (user.digestFrequency === DigestFrequency.OFF || user.emailPreferences?.digests === false) return undefined;
+  const local = getLocalTime(now, user.timezone);
+  if (local.hour < DIGEST_HOUR) return undefined;
+  if (user.digestFrequency === DigestFrequency.WEEKLY && local.weekday !== WEEKLY_DIGEST_WEEKDAY) return undefined;
+  return local.date;
+}
+
+/**
+ * Queue the digests that are due. Keys are per user and local date, so each
+ * digest is queued once however often the scan runs.
+ */
+export async function scanDigests(now: Date = new Date()): Promise<number> {
+  const users = await storage.getDigestUsers();
+  let queued = 0;
+  for (const user of users) {
+    const date = getDigestDate(user, now);
+    if (!date) continue;
+
+    const job = await enqueueJob(DIGEST_SEND_JOB, { userId: user.id, date }, { uniqueKey: `digest:${user.id}:${date}` });
+    if (job) queued++;
+  }
+  if (queued > 0) {
+    console.log(`[Digests] Queued ${queued} digest(s)`);
+  }
+  return queued;
+}
+
+/**
+ * Queue the digest email for the local date in the payload
+ */
+export async function sendDigest(payload: Record<string, unknown>): Promise<void> {
+  const user = await storage.getUserById(String(payload.userId));
+  if (!user?.email || !isEmailCategoryEnabled(user, EmailCategory.DIGESTS)) return;
+
+  // Items due before the user's local today are overdue
+  const { counts, overdueCount, overdue } = await storage.getItemDigest(user.id, new Date(`${payload.date}T00:00:00.000Z`));
+  if (counts.open + counts.in_progress + counts.completed === 0) return;
+
+  await queueUserEmail(user, 'digest', {
+    period: user.digestFrequency === DigestFrequency.WEEKLY ? 'weekly' : 'daily',
+    counts: { open: counts.open, inProgress: counts.in_progress, completed: counts.completed },
+    overdueCount,
+    overdue: overdue.map((item) => ({ item: item.item, due: formatDueDate(item.dueDate!, { month: 'short', day: 'numeric' }, 'en-US') })),
+  });
+}
+
+export function registerDigestJobs(): void {
+  registerPeriodicJob(DIGEST_SCAN_JOB, DIGEST_SCAN_INTERVAL_MS, async () => {
+    await scanDigests();
+  });
+  registerJobHandler(DIGEST_SEND_JOB, sendDigest);
+}
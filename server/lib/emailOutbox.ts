@@ -0,0 +1,127 @@
+import type { EmailOutbox, User } from '@shared/schema';
+import { storage } from '../storage/index';
+import { deliverEmail, isPermanentEmailError, type EmailParams } from '../mail';
+import { renderEmail, TEMPLATE_CATEGORIES, type CategorizedTemplateName, type EmailTemplateName, type EmailTemplateVariables } from './emailTemplates';
+import { getUnsubscribeLinks, isEmailCategoryEnabled } from './emailPreferences';
+import { getRetryDelay, registerPeriodicJob } from './jobs';
+
+export const EMAIL_DELIVER_JOB = 'emails.deliver';
+export const EMAIL_CLEANUP_JOB = 'emails.cleanup';
+
+/**
+ * How often the outbox is drained
+ */
+export const EMAIL_DELIVERY_INTERVAL_MS = 60 * 1000;
+
+// Emails claimed at a time, and batches per drain so one run cannot hold the
+// job lock for too long
+const BATCH_SIZE = 20;
+const MAX_BATCHES = 10;
+// An email locked longer than this is assumed abandoned by a stopped instance
+const STALE_LOCK_MS = 10 * 60 * 1000;
+// Delivered emails are kept for a month; failed ones stay until removed by hand
+const SENT_EMAIL_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Store an email for the outbox worker to deliver. Request handlers call this
+ * instead of sending inline, so a provider outage delays email rather than losing it.
+ */
+export async function queueEmail(params: Omit<EmailParams, 'from'>, template?: EmailTemplateName): Promise<EmailOutbox> {
+  return storage.enqueueEmail({
+    to: params.to,
+    subject: params.subject,
+    text: params.text,
+    html: params.html ?? null,
+    replyTo: params.replyTo ?? null,
+    headers: params.headers ?? null,
+    template: template ?? null,
+  });
+}
+
+/**
+ * Render a named template and queue it with both text and HTML parts
+ */
+export async function queueTemplateEmail<K extends EmailTemplateName>(
+  to: string,
+  template: K,
+  variables: EmailTemplateVariables[K],
+): Promise<EmailOutbox> {
+  return queueEmail({ to, ...renderEmail(template, variables) }, template);
+}
+
+/**
+ * Queue a template email to a user, unless they opted out of its category. The
+ * email carries a signed unsubscribe link in its footer and List-Unsubscribe
+ * headers for one-click unsubscribe from mail clients.
+ */
+export async function queueUserEmail<K extends CategorizedTemplateName>(
+  user: User,
+  template: K,
+  variables: EmailTemplateVariables[K],
+): Promise<EmailOutbox | undefined> {
+  const category = TEMPLATE_CATEGORIES[template];
+  if (!user.email || !isEmailCategoryEnabled(user, category)) {
+    return undefined;
+  }
+
+  const { preferencesUrl, oneClickUrl } = getUnsubscribeLinks(user.id, category);
+  return queueEmail({
+    to: user.email,
+    ...renderEmail(template, variables, { unsubscribeUrl: preferencesUrl }),
+    headers: {
+      'List-Unsubscribe': `<${oneClickUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  }, template);
+}
+
+async function deliverQueuedEmail(email: EmailOutbox): Promise<void> {
+  try {
+    const providerMessageId = await deliverEmail({
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html ?? undefined,
+      replyTo: email.replyTo ?? undefined,
+      headers: email.headers ?? undefined,
+    });
+    await storage.markEmailSent(email.id, providerMessageId ?? null);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryAt = !isPermanentEmailError(error) && email.attempts < email.maxAttempts
+      ? new Date(Date.now() + getRetryDelay(email.attempts))
+      : null;
+    console.error(`[Outbox] Email ${email.id} failed (attempt ${email.attempts}/${email.maxAttempts}${retryAt ? '' : ', giving up'}):`, message);
+    await storage.markEmailFailed(email.id, message, retryAt);
+  }
+}
+
+/**
+ * Send every queued email that is due. Returns the number of emails attempted.
+ */
+export async function deliverDueEmails(now: Date = new Date()): Promise<number> {
+  const released = await storage.releaseStaleEmails(new Date(now.getTime() - STALE_LOCK_MS));
+  if (released > 0) {
+    console.log(`[Outbox] Released ${released} stale email(s)`);
+  }
+
+  let attempted = 0;
+  for (let batch = 0; batch < MAX_BATCHES; batch++) {
+    const claimed = await storage.claimDueEmails(now, BATCH_SIZE);
+    for (const email of claimed) {
+      await deliverQueuedEmail(email);
+    }
+    attempted += claimed.length;
+    if (claimed.length < BATCH_SIZE) break;
+  }
+  return attempted;
+}
+
+export function registerEmailOutboxJobs(): void {
+  registerPeriodicJob(EMAIL_DELIVER_JOB, EMAIL_DELIVERY_INTERVAL_MS, async () => {
+    await deliverDueEmails();
+  });
+  registerPeriodicJob(EMAIL_CLEANUP_JOB, 24 * 60 * 60 * 1000, async () => {
+    await storage.deleteSentEmails(new Date(Date.now() - SENT_EMAIL_RETENTION_MS));
+  });
+}
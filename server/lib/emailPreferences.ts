@@ -0,0 +1,95 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { DigestFrequency, EmailCategory, EMAIL_CATEGORIES, type EmailPreferences, type User } from '@shared/schema';
+
+type PreferenceFields = Pick<User, 'emailNotifications' | 'digestOnly' | 'digestFrequency'> & {
+  emailPreferences?: EmailPreferences | null;
+};
+
+/**
+ * Whether per-item emails (like "New Item Created") go to this user
+ */
+export function sendsItemEmails(user: Pick<User, 'emailNotifications' | 'digestOnly' | 'digestFrequency'>): boolean {
+  return user.emailNotifications && !(user.digestOnly && user.digestFrequency !== DigestFrequency.OFF);
+}
+
+/**
+ * Whether a user receives emails of a category. The older account-wide switches
+ * still apply: `emailNotifications` (and digest-only mode) for item and reminder
+ * emails, `digestFrequency` for digests. Billing email is on unless opted out.
+ */
+export function isEmailCategoryEnabled(user: PreferenceFields, category: EmailCategory): boolean {
+  if (user.emailPreferences?.[category] === false) return false;
+  switch (category) {
+    case EmailCategory.ITEM_ACTIVITY:
+      return sendsItemEmails(user);
+    case EmailCategory.REMINDERS:
+      return user.emailNotifications;
+    case EmailCategory.DIGESTS:
+      return user.digestFrequency !== DigestFrequency.OFF;
+    case EmailCategory.BILLING:
+      return true;
+  }
+}
+
+/**
+ * Every category with its stored preference, defaulting to enabled
+ */
+export function resolveEmailPreferences(preferences: EmailPreferences | null | undefined): Record<EmailCategory, boolean> {
+  return Object.fromEntries(
+    EMAIL_CATEGORIES.map((category) => [category, preferences?.[category] !== false])
+  ) as Record<EmailCategory, boolean>;
+}
+
+function getTokenSecret(): string {
+  const secret = process.env.EMAIL_TOKEN_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('EMAIL_TOKEN_SECRET or SESSION_SECRET must be set to sign unsubscribe links');
+  }
+  return secret;
+}
+
+function sign(userId: string, category: EmailCategory): string {
+  return createHmac('sha256', getTokenSecret()).update(`unsubscribe:${userId}:${category}`).digest('base64url');
+}
+
+/**
+ * Signed token for a user's unsubscribe link. It never expires, since people
+ * unsubscribe from old emails too, and it only grants access to email preferences.
+ */
+export function createUnsubscribeToken(userId: string, category: EmailCategory): string {
+  return `${Buffer.from(userId).toString('base64url')}.${category}.${sign(userId, category)}`;
+}
+
+export function verifyUnsubscribeToken(token: string): { userId: string; category: EmailCategory } | null {
+  const [encodedUserId, category, signature] = token.split('.');
+  if (!encodedUserId || !signature || !EMAIL_CATEGORIES.includes(category as EmailCategory)) {
+    return null;
+  }
+
+  const userId = Buffer.from(encodedUserId, 'base64url').toString();
+  const expected = Buffer.from(sign(userId, category as EmailCategory));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+  return { userId, category: category as EmailCategory };
+}
+
+/**
+ * Base URL of the web app for links in emails
+ */
+export function getAppUrl(): string {
+  return process.env.FRONTEND_URL || `http://localhost:${process.env.PORT || '5000'}`;
+}
+
+/**
+ * Links for an email: the preference center page for the footer, and the
+ * one-click endpoint for the List-Unsubscribe header (RFC 8058)
+ */
+export function getUnsubscribeLinks(userId: string, category: EmailCategory): { preferencesUrl: string; oneClickUrl: string } {
+  const token = encodeURIComponent(createUnsubscribeToken(userId, category));
+  return {
+    preferencesUrl: `${getAppUrl()}/email-preferences?token=${token}`,
+    oneClickUrl: `${getAppUrl()}/api/email/unsubscribe?token=${token}`,
+  };
+}
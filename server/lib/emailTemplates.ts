@@ -0,0 +1,212 @@
+import { EmailCategory } from '@shared/schema';
+
+/**
+ * Named transactional email templates. Each one renders a subject plus text and
+ * HTML bodies; variables are escaped in the HTML body by the `html` tag below.
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(value: unknown): string {
+  return String(value).replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+// Markup that was built by `html` and must not be escaped again when nested
+class SafeHtml {
+  constructor(readonly value: string) {}
+}
+
+function interpolate(value: unknown): string {
+  if (value instanceof SafeHtml) return value.value;
+  if (Array.isArray(value)) return value.map(interpolate).join('');
+  if (value === null || value === undefined || value === false) return '';
+  return escapeHtml(value);
+}
+
+/**
+ * Tagged template that escapes every interpolated value unless it is itself `html`
+ */
+function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+  return new SafeHtml(strings.reduce((out, part, i) => out + interpolate(values[i - 1]) + part));
+}
+
+export interface DigestOverdueItem {
+  item: string;
+  due: string;
+}
+
+export interface EmailTemplateVariables {
+  itemCreated: { item: string };
+  subscriptionConfirmed: { plan: string };
+  paymentFailed: { amountDue: string; invoiceUrl?: string | null; gracePeriodEndsAt?: string | null };
+  gracePeriodEnding: { plan: string; endsAt: string; billingUrl: string };
+  planDowngraded: { plan: string; billingUrl: string };
+  reminder: { item: string; due: string };
+  digest: {
+    period: 'daily' | 'weekly';
+    counts: { open: number; inProgress: number; completed: number };
+    overdueCount: number;
+    overdue: DigestOverdueItem[];
+  };
+  // Written by a user to someone outside the app (POST /api/send-email)
+  sharedMessage: { sender: string; senderEmail: string; subject: string; message: string };
+}
+
+export type EmailTemplateName = keyof EmailTemplateVariables;
+
+/**
+ * Templates sent to account holders, which they can opt out of by category
+ */
+export type CategorizedTemplateName = Exclude<EmailTemplateName, 'sharedMessage'>;
+
+/**
+ * The preference category each template is sent under
+ */
+export const TEMPLATE_CATEGORIES: Record<CategorizedTemplateName, EmailCategory> = {
+  itemCreated: EmailCategory.ITEM_ACTIVITY,
+  subscriptionConfirmed: EmailCategory.BILLING,
+  paymentFailed: EmailCategory.BILLING,
+  gracePeriodEnding: EmailCategory.BILLING,
+  planDowngraded: EmailCategory.BILLING,
+  reminder: EmailCategory.REMINDERS,
+  digest: EmailCategory.DIGESTS,
+};
+
+// How the footer names each category
+const CATEGORY_DESCRIPTIONS: Record<EmailCategory, string> = {
+  item_activity: 'item activity',
+  reminders: 'due date reminders',
+  digests: 'progress digests',
+  billing: 'billing updates',
+};
+
+export interface RenderOptions {
+  // Preference center link added as a footer
+  unsubscribeUrl?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+type TemplateRenderers = {
+  [K in EmailTemplateName]: (vars: EmailTemplateVariables[K]) => { subject: string; text: string; html: SafeHtml };
+};
+
+const templates: TemplateRenderers = {
+  itemCreated: ({ item }) => ({
+    subject: 'New Item Created',
+    text: `A new item "${item}" has been created in your list.`,
+    html: html`<p>A new item "<strong>${item}</strong>" has been created in your list.</p>`,
+  }),
+
+  subscriptionConfirmed: ({ plan }) => ({
+    subject: `Welcome to ${plan}`,
+    text: `Thanks for subscribing! Your ${plan} plan is now active and its limits have been lifted.`,
+    html: html`<p>Thanks for subscribing! Your <strong>${plan}</strong> plan is now active and its limits have been lifted.</p>`,
+  }),
+
+  paymentFailed: ({ amountDue, invoiceUrl, gracePeriodEndsAt }) => ({
+    subject: 'Your payment failed',
+    text: [
+      `We couldn't collect your payment of ${amountDue}. We'll retry automatically, but please check your payment method.`,
+      ...(gracePeriodEndsAt ? ['', `Your plan stays active until ${gracePeriodEndsAt} while we retry.`] : []),
+      ...(invoiceUrl ? ['', `Pay the invoice: ${invoiceUrl}`] : []),
+    ].join('\n'),
+    html: html`<p>We couldn't collect your payment of <strong>${amountDue}</strong>. We'll retry automatically, but please check your payment method.</p>${
+      gracePeriodEndsAt && html`<p>Your plan stays active until <strong>${gracePeriodEndsAt}</strong> while we retry.</p>`
+    }${
+      invoiceUrl && html`<p><a href="${invoiceUrl}">Pay the invoice</a></p>`
+    }`,
+  }),
+
+  gracePeriodEnding: ({ plan, endsAt, billingUrl }) => ({
+    subject: `Your ${plan} plan ends ${endsAt}`,
+    text: [
+      `We still couldn't collect your payment. Update your payment method before ${endsAt} to keep your ${plan} plan.`,
+      '',
+      `Update billing: ${billingUrl}`,
+    ].join('\n'),
+    html: html`<p>We still couldn't collect your payment. Update your payment method before <strong>${endsAt}</strong> to keep your ${plan} plan.</p><p><a href="${billingUrl}">Update billing</a></p>`,
+  }),
+
+  planDowngraded: ({ plan, billingUrl }) => ({
+    subject: `Your ${plan} plan has ended`,
+    text: [
+      `We couldn't collect your payment, so your account is now on the Free plan and its limits apply again. Your items are kept.`,
+      '',
+      `Update your payment method to restore ${plan}: ${billingUrl}`,
+    ].join('\n'),
+    html: html`<p>We couldn't collect your payment, so your account is now on the Free plan and its limits apply again. Your items are kept.</p><p><a href="${billingUrl}">Update your payment method to restore ${plan}</a></p>`,
+  }),
+
+  reminder: ({ item, due }) => ({
+    subject: `Reminder: "${item}" is due ${due}`,
+    text: `Your item "${item}" is due on ${due}.`,
+    html: html`<p>Your item "<strong>${item}</strong>" is due on ${due}.</p>`,
+  }),
+
+  digest: ({ period, counts, overdueCount, overdue }) => {
+    const totals = [
+      `Open: ${counts.open}`,
+      `In progress: ${counts.inProgress}`,
+      `Completed: ${counts.completed}`,
+    ];
+    const overdueLines = overdue.map(({ item, due }) => `${item} (due ${due})`);
+    const more = overdueCount - overdue.length;
+    const overdueTitle = overdueCount > 0 ? `Overdue (${overdueCount}):` : 'Nothing is overdue.';
+
+    return {
+      subject: `Your ${period} todo digest`,
+      text: [
+        'Here is where your items stand:',
+        ...totals.map((line) => `- ${line}`),
+        '',
+        overdueTitle,
+        ...overdueLines.map((line) => `- ${line}`),
+        ...(more > 0 ? [`...and ${more} more`] : []),
+      ].join('\n'),
+      html: html`<p>Here is where your items stand:</p><ul>${totals.map((line) => html`<li>${line}</li>`)}</ul><p><strong>${overdueTitle}</strong></p>${
+        overdueLines.length > 0 && html`<ul>${overdueLines.map((line) => html`<li>${line}</li>`)}</ul>`
+      }${more > 0 && html`<p>...and ${more} more</p>`}`,
+    };
+  },
+
+  sharedMessage: ({ sender, senderEmail, subject, message }) => {
+    const note = `${sender} (${senderEmail}) sent you this message. Reply to this email to answer them.`;
+    return {
+      subject,
+      text: `${message}\n\n--\n${note}`,
+      html: html`<p>${message.split('\n').map((line, i) => html`${i > 0 && html`<br>`}${line}`)}</p><hr><p style="font-size:12px;color:#6b7280">${note}</p>`,
+    };
+  },
+};
+
+export function renderEmail<K extends EmailTemplateName>(
+  name: K,
+  vars: EmailTemplateVariables[K],
+  options: RenderOptions = {},
+): RenderedEmail {
+  const { subject, text, html: body } = templates[name](vars);
+  // Subjects are a header, so user text must not break them across lines
+  const rendered = { subject: subject.replace(/[\r\n]+/g, ' '), text, html: body.value };
+  if (!options.unsubscribeUrl || !(name in TEMPLATE_CATEGORIES)) {
+    return rendered;
+  }
+
+  const category = TEMPLATE_CATEGORIES[name as CategorizedTemplateName];
+  const reason = `You are receiving this email because ${CATEGORY_DESCRIPTIONS[category]} emails are on for your account.`;
+  return {
+    ...rendered,
+    text: `${rendered.text}\n\n--\n${reason}\nUnsubscribe or manage your email preferences: ${options.unsubscribeUrl}`,
+    html: rendered.html + html`<hr><p style="font-size:12px;color:#6b7280">${reason} <a href="${options.unsubscribeUrl}">Unsubscribe or manage your email preferences</a>.</p>`.value,
+  };
+}
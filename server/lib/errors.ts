@@ -12,12 +12,15 @@ export class AppError extends Error {
   public readonly status: number;
   public readonly code?: string;
   public readonly isOperational: boolean;
+  // Extra fields merged into the JSON error response (e.g. current quota usage)
+  public readonly data?: Record<string, unknown>;
 
-  constructor(message: string, status: number = 500, code?: string, isOperational: boolean = true) {
+  constructor(message: string, status: number = 500, code?: string, isOperational: boolean = true, data?: Record<string, unknown>) {
     super(message);
     this.status = status;
     this.code = code;
     this.isOperational = isOperational;
+    this.data = data;
 
     // Ensure the name of this error is the same as the class name
     this.name = this.constructor.name;
@@ -46,6 +49,7 @@ export function handleError(error: unknown, res: Response): void {
     res.status(error.status).json({
       error: sanitizeErrorMessage(error.message, error.status),
       code: error.code,
+      ...error.data,
       requestId
     });
     return;
@@ -116,14 +120,14 @@ function sanitizeErrorMessage(message: string, status: number): string {
 
 // Common error factory functions
 export const errors = {
-  notFound: (resource: string = 'Resource') => 
-    new AppError(`${resource} not found`, 404, 'not_found'),
+  notFound: (resource: string = 'Resource', data?: Record<string, unknown>) => 
+    new AppError(`${resource} not found`, 404, 'not_found', true, data),
   
   unauthorized: (message: string = 'Unauthorized') => 
     new AppError(message, 401, 'unauthorized'),
   
-  forbidden: (message: string = 'Access denied') => 
-    new AppError(message, 403, 'forbidden'),
+  forbidden: (message: string = 'Access denied', data?: Record<string, unknown>) => 
+    new AppError(message, 403, 'forbidden', true, data),
   
   validation: (message: string) => 
     new AppError(message, 400, 'validation_error'),
@@ -131,8 +135,8 @@ export const errors = {
   conflict: (message: string) => 
     new AppError(message, 409, 'conflict'),
   
-  tooLarge: (message: string = 'Payload too large') => 
-    new AppError(message, 413, 'payload_too_large'),
+  tooLarge: (message: string = 'Payload too large', data?: Record<string, unknown>) => 
+    new AppError(message, 413, 'payload_too_large', true, data),
   
   rateLimit: (message: string = 'Too many requests') => 
     new AppError(message, 429, 'rate_limit_exceeded'),
@@ -0,0 +1,30 @@
+import type { FileUsage } from '../storage/index';
+import { errors } from './errors';
+
+// A plan's file limits (see PLAN_CATALOG in ./plans)
+export interface FileQuota {
+  maxFiles: number;
+  maxTotalBytes: number;
+  maxFileBytes: number;
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * Throw a structured 403/413 error if storing `size` more bytes would exceed the quota
+ */
+export function assertWithinFileQuota(quota: FileQuota, usage: FileUsage, size: number): void {
+  const details = { usage, limits: quota };
+
+  if (size > quota.maxFileBytes) {
+    throw errors.tooLarge(`File exceeds the ${Math.round(quota.maxFileBytes / MB)}MB per-file limit for your plan`, details);
+  }
+
+  if (usage.fileCount >= quota.maxFiles) {
+    throw errors.forbidden(`File limit reached (${quota.maxFiles} files). Delete files or upgrade your plan.`, details);
+  }
+
+  if (usage.totalBytes + size > quota.maxTotalBytes) {
+    throw errors.tooLarge('Storage limit reached. Delete files or upgrade your plan.', details);
+  }
+}
@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+
+/**
+ * Backend that holds the binary content of uploaded files.
+ * Keys are relative paths such as `users/<userId>/files/<name>`; the
+ * metadata for each key lives in the `files` table.
+ */
+export interface FileStore {
+  readonly driver: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  createReadStream(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Stores file content on the local disk under FILE_STORAGE_DIR (default `./uploads`).
+ * Works out of the box with no external bucket configured.
+ */
+export class LocalDiskFileStore implements FileStore {
+  readonly driver = 'local';
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private resolveKey(key: string): string {
+    const fullPath = path.resolve(this.root, key);
+    // Never allow a key to escape the storage root
+    if (!fullPath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return fullPath;
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const fullPath = this.resolveKey(key);
+    await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.promises.writeFile(fullPath, data);
+  }
+
+  async createReadStream(key: string): Promise<Readable> {
+    const fullPath = this.resolveKey(key);
+    // Surface a missing file before the response headers are sent
+    await fs.promises.access(fullPath, fs.constants.R_OK);
+    return fs.createReadStream(fullPath);
+  }
+
+  async delete(key: string): Promise<void> {
+    const fullPath = this.resolveKey(key);
+    await fs.promises.rm(fullPath, { force: true });
+  }
+}
+
+let store: FileStore | null = null;
+let configuredFor: string | null = null;
+
+export function getFileStore(): FileStore {
+  const driver = process.env.FILE_STORAGE_DRIVER || 'local';
+  const root = process.env.FILE_STORAGE_DIR || './uploads';
+  const signature = `${driver}:${root}`;
+
+  if (store && configuredFor === signature) {
+    return store;
+  }
+
+  switch (driver) {
+    case 'local':
+      store = new LocalDiskFileStore(root);
+      break;
+    default:
+      throw new Error(`Unsupported FILE_STORAGE_DRIVER: ${driver}`);
+  }
+
+  configuredFor = signature;
+  return store;
+}
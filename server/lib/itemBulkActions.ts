@@ -0,0 +1,25 @@
+import { type BulkItemAction, type ItemEventSource } from '@shared/schema';
+import { storage } from '../storage/index';
+import { itemEvents } from './itemEvents';
+import { scheduleNextOccurrence } from './itemRecurrence';
+
+/**
+ * Apply a bulk action to items already checked to belong to the user, record it
+ * in their history and create the next occurrence of recurring items it
+ * completes. Shared by POST /api/items/bulk and the agent's bulkUpdateTodos tool.
+ */
+export async function applyBulkItemAction(userId: string, action: BulkItemAction, source: ItemEventSource): Promise<number> {
+  // History and recurrence need each item's status and rule from before the change
+  const before = action.action === 'set_status' ? await storage.getItemsByIds(userId, action.ids) : [];
+
+  const count = await storage.applyBulkItemAction(userId, action);
+  await itemEvents.bulkApplied(action, userId, source, before);
+
+  if (action.action === 'set_status') {
+    // One at a time, so each new occurrence counts toward the item limit of the next
+    for (const item of before) {
+      await scheduleNextOccurrence(item, action.status, source);
+    }
+  }
+  return count;
+}
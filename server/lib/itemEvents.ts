@@ -0,0 +1,119 @@
+import {
+  ItemEventSource,
+  ItemEventType,
+  type Item,
+  type ItemEventChanges,
+  type ItemStatus,
+  type BulkItemAction,
+} from '@shared/schema';
+import { storage } from '../storage/index';
+
+// Editable fields whose changes are recorded in an item's history
+const TRACKED_FIELDS = ['item', 'description', 'dueDate', 'priority', 'recurrence'] as const;
+
+type TrackedField = typeof TRACKED_FIELDS[number];
+
+export interface ItemEventInput {
+  itemId: number;
+  userId: string;
+  type: ItemEventType;
+  source: ItemEventSource;
+  changes?: ItemEventChanges | null;
+}
+
+// Dates are stored as ISO strings so history compares and serializes consistently
+function normalize(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value ?? null;
+}
+
+/**
+ * Field-by-field diff between an item and an update, leaving out fields that did not change
+ */
+export function diffItem(before: Item, update: Partial<Record<TrackedField, unknown>>): ItemEventChanges {
+  const changes: ItemEventChanges = {};
+  for (const field of TRACKED_FIELDS) {
+    if (update[field] === undefined) continue;
+    const from = normalize(before[field]);
+    const to = normalize(update[field]);
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Record item history. Failures are logged rather than thrown so a history
+ * write never fails the change it describes.
+ */
+export async function recordItemEvents(events: ItemEventInput[]): Promise<void> {
+  if (events.length === 0) return;
+  try {
+    await storage.createItemEvents(events.map((event) => ({ ...event, changes: event.changes ?? null })));
+  } catch (error) {
+    console.error('[ItemEvents] Failed to record item history:', error);
+  }
+}
+
+export function recordItemEvent(event: ItemEventInput): Promise<void> {
+  return recordItemEvents([event]);
+}
+
+/**
+ * Event helpers shared by the item routes (source "ui") and the agent tools (source "agent")
+ */
+export const itemEvents = {
+  created: (item: Item, userId: string, source: ItemEventSource) =>
+    recordItemEvent({
+      itemId: item.id,
+      userId,
+      type: ItemEventType.CREATED,
+      source,
+      changes: { item: { to: item.item }, status: { to: item.status } },
+    }),
+
+  statusChanged: (itemId: number, userId: string, source: ItemEventSource, to: ItemStatus, from?: ItemStatus) =>
+    from === to
+      ? Promise.resolve()
+      : recordItemEvent({
+          itemId,
+          userId,
+          type: ItemEventType.STATUS_CHANGED,
+          source,
+          changes: { status: from === undefined ? { to } : { from, to } },
+        }),
+
+  edited: (before: Item, update: Partial<Record<TrackedField, unknown>>, userId: string, source: ItemEventSource) => {
+    const changes = diffItem(before, update);
+    return Object.keys(changes).length === 0
+      ? Promise.resolve()
+      : recordItemEvent({ itemId: before.id, userId, type: ItemEventType.EDITED, source, changes });
+  },
+
+  deleted: (itemIds: number[], userId: string, source: ItemEventSource) =>
+    recordItemEvents(itemIds.map((itemId) => ({ itemId, userId, type: ItemEventType.DELETED, source }))),
+
+  restored: (itemId: number, userId: string, source: ItemEventSource) =>
+    recordItemEvent({ itemId, userId, type: ItemEventType.RESTORED, source }),
+
+  // Tagging is not part of an item's history. Status changes are diffed against
+  // `before`, the items as they were, so items already in the status are skipped.
+  bulkApplied: (action: BulkItemAction, userId: string, source: ItemEventSource, before: Item[] = []) => {
+    switch (action.action) {
+      case 'set_status':
+        return recordItemEvents(before
+          .filter(({ status }) => status !== action.status)
+          .map(({ id, status }) => ({
+            itemId: id,
+            userId,
+            type: ItemEventType.STATUS_CHANGED,
+            source,
+            changes: { status: { from: status, to: action.status } },
+          })));
+      case 'delete':
+        return itemEvents.deleted(action.ids, userId, source);
+      default:
+        return Promise.resolve();
+    }
+  },
+};
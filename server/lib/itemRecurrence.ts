@@ -0,0 +1,59 @@
+import { ItemStatus, type Item, type ItemEventSource } from '@shared/schema';
+import { anchorRecurrence, formatRecurrence, nextOccurrence, parseRecurrence } from '@shared/recurrence';
+import { storage } from '../storage/index';
+import { itemEvents } from './itemEvents';
+import { hasEntitlement } from './plans';
+
+function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/**
+ * The rule to carry over to the next occurrence. Monthly rules without a day are
+ * pinned to the current due date (or today) on the first completion, so later
+ * occurrences keep the series' day rather than drifting after short months.
+ */
+export function getAnchoredRecurrence(recurrence: string, dueDate: Date | null, now: Date = new Date()): string {
+  const rule = parseRecurrence(recurrence);
+  const anchored = anchorRecurrence(rule, dueDate ? new Date(dueDate) : startOfUtcDay(now));
+  return anchored === rule ? recurrence : formatRecurrence(anchored);
+}
+
+/**
+ * Due date for the next occurrence: the first one after the current due date (or
+ * after today when there is none), skipping occurrences that are already past
+ */
+export function getNextDueDate(recurrence: string, dueDate: Date | null, now: Date = new Date()): Date {
+  const rule = parseRecurrence(getAnchoredRecurrence(recurrence, dueDate, now));
+  const today = startOfUtcDay(now);
+  let next = nextOccurrence(rule, dueDate ? new Date(dueDate) : today);
+  while (next < today) {
+    next = nextOccurrence(rule, next);
+  }
+  return next;
+}
+
+/**
+ * Create the next occurrence when a recurring item is moved to completed. Shared by
+ * PATCH /api/items/:id/status, bulk status changes and the agent's updateTodoStatus
+ * tool; `before` is the item as it was before the status change.
+ */
+export async function scheduleNextOccurrence(before: Item, status: ItemStatus, source: ItemEventSource): Promise<Item | undefined> {
+  if (!before.recurrence || status !== ItemStatus.COMPLETED || before.status === ItemStatus.COMPLETED) {
+    return undefined;
+  }
+
+  // Plans stay within their item limit; the rule is kept so completing the item again can retry
+  if (!(await hasEntitlement(before.userId, 'items'))) {
+    console.log('[Recurrence] Item limit reached, skipping next occurrence of item', before.id);
+    return undefined;
+  }
+
+  const recurrence = getAnchoredRecurrence(before.recurrence, before.dueDate);
+  const dueDate = getNextDueDate(recurrence, before.dueDate);
+  const next = await storage.createNextOccurrence({ ...before, recurrence }, dueDate);
+  if (next) {
+    await itemEvents.created(next, before.userId, source);
+  }
+  return next;
+}
@@ -0,0 +1,39 @@
+import type { Item } from '@shared/schema';
+import { storage } from '../storage/index';
+import { registerPeriodicJob } from './jobs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days a deleted item stays in the trash before the purge job removes it
+ */
+export const TRASH_RETENTION_DAYS = Math.max(1, Number(process.env.ITEM_TRASH_RETENTION_DAYS) || 30);
+
+/**
+ * When a trashed item becomes eligible for purging
+ */
+export function getPurgeAt(item: Pick<Item, 'deletedAt'>): Date | null {
+  return item.deletedAt
+    ? new Date(new Date(item.deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS)
+    : null;
+}
+
+/**
+ * Permanently delete items that have been in the trash longer than the retention period
+ */
+export async function purgeDeletedItems(now: Date = new Date()): Promise<number> {
+  const purged = await storage.purgeDeletedItems(new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS));
+  if (purged > 0) {
+    console.log(`[Trash] Purged ${purged} deleted item(s) older than ${TRASH_RETENTION_DAYS} days`);
+  }
+  return purged;
+}
+
+/**
+ * Purge the trash every few hours through the job scheduler
+ */
+export function registerItemPurgeJob(intervalMs: number = 6 * 60 * 60 * 1000): void {
+  registerPeriodicJob('items.purgeTrash', intervalMs, async () => {
+    await purgeDeletedItems();
+  });
+}
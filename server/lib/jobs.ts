@@ -0,0 +1,132 @@
+import { hostname } from 'os';
+import type { Job } from '@shared/schema';
+import { storage } from '../storage/index';
+
+export type JobHandler = (payload: Record<string, unknown>, job: Job) => Promise<void>;
+
+interface PeriodicJob {
+  type: string;
+  intervalMs: number;
+}
+
+interface EnqueueOptions {
+  runAt?: Date;
+  uniqueKey?: string;
+  maxAttempts?: number;
+}
+
+/**
+ * How often each instance polls the jobs table
+ */
+export const JOB_POLL_INTERVAL_MS = Math.max(1000, Number(process.env.JOB_POLL_INTERVAL_MS) || 30 * 1000);
+
+// Jobs claimed per poll
+const BATCH_SIZE = 20;
+// A running job locked longer than this is assumed abandoned by a stopped instance
+const STALE_LOCK_MS = 10 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// Finished jobs are kept for two weeks. Reminder jobs must outlive the longest
+// reminder lead time, since their unique keys stop a reminder being sent twice.
+const FINISHED_JOB_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+
+const WORKER_ID = `${hostname()}:${process.pid}`;
+
+const handlers = new Map<string, JobHandler>();
+const periodicJobs: PeriodicJob[] = [];
+
+export function registerJobHandler(type: string, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+/**
+ * Run a handler every `intervalMs`. Each interval slot is enqueued under a unique
+ * key, so only one instance runs it even when several are polling.
+ */
+export function registerPeriodicJob(type: string, intervalMs: number, handler: JobHandler): void {
+  registerJobHandler(type, handler);
+  periodicJobs.push({ type, intervalMs });
+}
+
+export async function enqueueJob(type: string, payload: Record<string, unknown> = {}, options: EnqueueOptions = {}): Promise<Job | undefined> {
+  return storage.enqueueJob({
+    type,
+    payload,
+    runAt: options.runAt ?? new Date(),
+    uniqueKey: options.uniqueKey ?? null,
+    ...(options.maxAttempts !== undefined && { maxAttempts: options.maxAttempts }),
+  });
+}
+
+// Exponential backoff: 30s, 1m, 2m, ... capped at an hour
+export function getRetryDelay(attempts: number): number {
+  return Math.min(30 * 1000 * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+async function enqueuePeriodicJobs(now: Date): Promise<void> {
+  for (const { type, intervalMs } of periodicJobs) {
+    const slot = Math.floor(now.getTime() / intervalMs) * intervalMs;
+    // A missed slot is not worth retrying; the next one runs soon enough
+    await enqueueJob(type, {}, { runAt: new Date(slot), uniqueKey: `${type}:${slot}`, maxAttempts: 1 });
+  }
+}
+
+async function runJob(job: Job): Promise<void> {
+  const handler = handlers.get(job.type);
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type ${job.type}`);
+    }
+    await handler(job.payload, job);
+    await storage.completeJob(job.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryAt = handler && job.attempts < job.maxAttempts
+      ? new Date(Date.now() + getRetryDelay(job.attempts))
+      : null;
+    console.error(`[Jobs] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, message);
+    await storage.failJob(job.id, message, retryAt);
+  }
+}
+
+/**
+ * One scheduler tick: enqueue periodic jobs, requeue abandoned ones, then run
+ * everything that is due. Returns the number of jobs run.
+ */
+export async function runDueJobs(now: Date = new Date()): Promise<number> {
+  await enqueuePeriodicJobs(now);
+  const released = await storage.releaseStaleJobs(new Date(now.getTime() - STALE_LOCK_MS));
+  if (released > 0) {
+    console.log(`[Jobs] Released ${released} stale job(s)`);
+  }
+
+  const claimed = await storage.claimDueJobs(WORKER_ID, now, BATCH_SIZE);
+  for (const job of claimed) {
+    await runJob(job);
+  }
+  return claimed.length;
+}
+
+/**
+ * Poll for due jobs on startup and then every `pollMs`. Ticks never overlap, and
+ * the timer does not keep the process alive.
+ */
+export function startJobScheduler(pollMs: number = JOB_POLL_INTERVAL_MS): NodeJS.Timeout {
+  registerPeriodicJob('jobs.cleanup', 24 * 60 * 60 * 1000, async () => {
+    await storage.deleteFinishedJobs(new Date(Date.now() - FINISHED_JOB_RETENTION_MS));
+  });
+
+  let running = false;
+  const tick = () => {
+    if (running) return;
+    running = true;
+    runDueJobs()
+      .catch((error) => console.error('[Jobs] Scheduler tick failed:', error))
+      .finally(() => {
+        running = false;
+      });
+  };
+  tick();
+  const timer = setInterval(tick, pollMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,31 @@
+/**
+ * Opaque keyset cursors for list endpoints.
+ *
+ * A cursor records the sort key of the last row on a page (as Postgres text, so
+ * timestamps keep their microseconds) plus the row ID as a tie-breaker.
+ */
+export interface Cursor {
+  value: string;
+  id: number;
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url');
+}
+
+export function decodeCursor(raw: string): Cursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      typeof decoded[0] === 'string' &&
+      Number.isInteger(decoded[1])
+    ) {
+      return { value: decoded[0], id: decoded[1] };
+    }
+  } catch {
+    // Fall through to invalid cursor
+  }
+  return null;
+}
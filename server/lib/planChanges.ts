@@ -0,0 +1,175 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type Stripe from 'stripe';
+import type { Subscription } from '@shared/schema';
+import { storage } from '../storage/index';
+import { errors } from './errors';
+import { PLAN_CATALOG, getPlanPriceId, type BillingInterval, type Plan } from './plans';
+import { getCurrentSubscription, isPaidSubscriptionStatus, syncStripeSubscription } from './subscriptions';
+
+// The prorated difference is invoiced and charged right away, so the previewed
+// amount is what the customer pays when they confirm
+const PRORATION_BEHAVIOR = 'always_invoice';
+
+// How long a preview can be confirmed at its proration date
+const PREVIEW_MAX_AGE_SECONDS = 5 * 60;
+
+export interface PlanChangeTarget {
+  plan: string;
+  interval: BillingInterval;
+}
+
+export interface PlanChangePreview {
+  plan: Plan['id'];
+  interval: BillingInterval;
+  // Charged when the change is applied. Unused time on the current price is
+  // credited first; credit left over stays on the customer's Stripe balance.
+  amountDue: number;
+  currency: string;
+  // Unix time the preview was prorated at; applying with it charges exactly amountDue
+  prorationDate: number;
+  // Proves the proration date came from this preview; sent back to apply it
+  prorationSignature: string;
+  lines: { description: string | null; amount: number }[];
+}
+
+export interface PlanChangeConfirmation {
+  prorationDate: number;
+  prorationSignature: string;
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET must be set to sign plan change previews');
+  }
+  return secret;
+}
+
+// Proration dates are chosen by the server: one picked by the client could
+// prorate against a date near the end of the period and make upgrades nearly free
+function signProrationDate(userId: string, { plan, interval }: PlanChangeTarget, prorationDate: number): string {
+  return createHmac('sha256', getSigningSecret())
+    .update(`plan-change:${userId}:${plan}:${interval}:${prorationDate}`)
+    .digest('base64url');
+}
+
+function assertValidConfirmation(
+  userId: string,
+  target: PlanChangeTarget,
+  { prorationDate, prorationSignature }: PlanChangeConfirmation,
+  now: Date,
+): void {
+  const expected = Buffer.from(signProrationDate(userId, target, prorationDate));
+  const actual = Buffer.from(prorationSignature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw errors.validation('Invalid plan change preview');
+  }
+
+  const age = Math.floor(now.getTime() / 1000) - prorationDate;
+  if (age < 0 || age > PREVIEW_MAX_AGE_SECONDS) {
+    throw errors.validation('Plan change preview expired. Preview the change again.');
+  }
+}
+
+interface ResolvedPlanChange {
+  plan: Plan;
+  priceId: string;
+  subscriptionId: string;
+  itemId: string;
+}
+
+// The user's active subscription and the price to move it to. Only one-item
+// subscriptions exist: checkout creates them with a single price.
+async function resolvePlanChange(stripe: Stripe, userId: string, { plan: planId, interval }: PlanChangeTarget): Promise<ResolvedPlanChange> {
+  const plan = PLAN_CATALOG.find(({ id }) => id === planId);
+  if (!plan) {
+    throw errors.validation('Unknown plan');
+  }
+  if (!plan.priceIdEnv) {
+    throw errors.validation(`Cancel your subscription in the billing portal to move to the ${plan.name} plan`);
+  }
+  const priceId = getPlanPriceId(plan, interval);
+  if (!priceId) {
+    throw errors.validation('Price ID not configured');
+  }
+
+  const subscriptions = await storage.getSubscriptionsByUserId(userId);
+  const current = getCurrentSubscription(subscriptions);
+  if (!current || !isPaidSubscriptionStatus(current.status)) {
+    throw errors.conflict('No active subscription to change. Subscribe through checkout instead.');
+  }
+  if (current.stripePriceId === priceId) {
+    throw errors.conflict(`Already on the ${plan.name} plan, billed ${interval === 'year' ? 'annually' : 'monthly'}`);
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(current.stripeSubscriptionId);
+  const item = subscription.items?.data?.[0];
+  if (!item) {
+    throw errors.conflict('Subscription has no price to change');
+  }
+
+  return { plan, priceId, subscriptionId: subscription.id, itemId: item.id };
+}
+
+/**
+ * What moving the user's subscription to another plan or interval would cost
+ * now, from Stripe's preview of the prorated invoice
+ */
+export async function previewPlanChange(
+  stripe: Stripe,
+  userId: string,
+  target: PlanChangeTarget,
+  now: Date = new Date(),
+): Promise<PlanChangePreview> {
+  const change = await resolvePlanChange(stripe, userId, target);
+  const prorationDate = Math.floor(now.getTime() / 1000);
+
+  const invoice = await stripe.invoices.createPreview({
+    subscription: change.subscriptionId,
+    subscription_details: {
+      items: [{ id: change.itemId, price: change.priceId }],
+      proration_behavior: PRORATION_BEHAVIOR,
+      proration_date: prorationDate,
+    },
+  });
+
+  return {
+    plan: change.plan.id,
+    interval: target.interval,
+    amountDue: invoice.amount_due,
+    currency: invoice.currency,
+    prorationDate,
+    prorationSignature: signProrationDate(userId, target, prorationDate),
+    lines: invoice.lines.data.map(({ description, amount }) => ({ description, amount })),
+  };
+}
+
+/**
+ * Move the user's subscription to another plan or interval and store the result.
+ * Pass the preview's signed proration date so the charge matches what the user
+ * saw; without one Stripe prorates at the current time. The change is rolled
+ * back by Stripe if the prorated invoice cannot be paid.
+ */
+export async function applyPlanChange(
+  stripe: Stripe,
+  userId: string,
+  target: PlanChangeTarget,
+  confirmation?: PlanChangeConfirmation,
+  now: Date = new Date(),
+): Promise<Subscription | undefined> {
+  if (confirmation) {
+    assertValidConfirmation(userId, target, confirmation, now);
+  }
+  const change = await resolvePlanChange(stripe, userId, target);
+  const prorationDate = confirmation?.prorationDate;
+
+  const updated = await stripe.subscriptions.update(change.subscriptionId, {
+    items: [{ id: change.itemId, price: change.priceId }],
+    proration_behavior: PRORATION_BEHAVIOR,
+    payment_behavior: 'error_if_incomplete',
+    ...(prorationDate && { proration_date: prorationDate }),
+  });
+
+  console.log('[Billing] Changed subscription', updated.id, 'to', change.plan.id, target.interval);
+  return syncStripeSubscription(updated, { fallbackUserId: userId });
+}
@@ -0,0 +1,216 @@
+import { SubscriptionType } from '@shared/schema';
+import { storage } from '../storage/index';
+import { AppError, errors } from './errors';
+import { assertWithinFileQuota, type FileQuota } from './fileQuota';
+
+const MB = 1024 * 1024;
+
+export interface PlanEntitlements {
+  // Items outside the trash; null for no limit
+  maxItems: number | null;
+  files: FileQuota;
+  aiAccess: boolean;
+}
+
+// How often a paid plan is billed, as Stripe's `recurring.interval`
+export type BillingInterval = 'month' | 'year';
+
+export const BILLING_INTERVALS: BillingInterval[] = ['month', 'year'];
+
+export interface PlanPrice {
+  // In the currency's smallest unit, e.g. cents
+  amount: number;
+  currency: string;
+}
+
+export interface Plan {
+  id: SubscriptionType;
+  name: string;
+  description: string;
+  // Shown on the pricing page; Stripe charges whatever the price IDs are set to
+  prices: Record<BillingInterval, PlanPrice>;
+  // Perks beyond the entitlements, which the client lists itself
+  features: string[];
+  entitlements: PlanEntitlements;
+  // Environment variables with the plan's Stripe price ID per interval; the free plan has none
+  priceIdEnv?: Record<BillingInterval, string>;
+}
+
+/**
+ * Every plan, lowest first. Limits are only enforced through these entitlements,
+ * so changing a plan here changes it everywhere, including `GET /api/plans`.
+ */
+export const PLAN_CATALOG: Plan[] = [
+  {
+    id: SubscriptionType.FREE,
+    name: 'Free',
+    description: 'Perfect for getting started',
+    prices: {
+      month: { amount: 0, currency: 'usd' },
+      year: { amount: 0, currency: 'usd' },
+    },
+    features: ['Basic file management', 'Secure cloud storage'],
+    entitlements: {
+      maxItems: 5,
+      files: { maxFiles: 10, maxTotalBytes: 100 * MB, maxFileBytes: 10 * MB },
+      aiAccess: true,
+    },
+  },
+  {
+    id: SubscriptionType.PRO,
+    name: 'Pro',
+    description: 'Everything you need for professional use',
+    prices: {
+      month: { amount: 999, currency: 'usd' },
+      year: { amount: 9990, currency: 'usd' },
+    },
+    features: ['Advanced file management', 'Priority support', 'Secure cloud storage'],
+    entitlements: {
+      maxItems: null,
+      files: { maxFiles: 100, maxTotalBytes: 1024 * MB, maxFileBytes: 50 * MB },
+      aiAccess: true,
+    },
+    priceIdEnv: { month: 'STRIPE_PRICE_ID_PRO', year: 'STRIPE_PRICE_ID_PRO_ANNUAL' },
+  },
+  {
+    id: SubscriptionType.TEAM,
+    name: 'Team',
+    description: 'Room to grow for busy teams',
+    prices: {
+      month: { amount: 2999, currency: 'usd' },
+      year: { amount: 29990, currency: 'usd' },
+    },
+    features: ['Advanced file management', 'Priority support', 'Secure cloud storage'],
+    entitlements: {
+      maxItems: null,
+      files: { maxFiles: 1000, maxTotalBytes: 10 * 1024 * MB, maxFileBytes: 100 * MB },
+      aiAccess: true,
+    },
+    priceIdEnv: { month: 'STRIPE_PRICE_ID_TEAM', year: 'STRIPE_PRICE_ID_TEAM_ANNUAL' },
+  },
+];
+
+/**
+ * A plan by ID, defaulting to the free plan for unknown or missing ones
+ */
+export function getPlan(id?: string | null): Plan {
+  return PLAN_CATALOG.find((plan) => plan.id === id) ?? PLAN_CATALOG[0];
+}
+
+export function isBillingInterval(value: unknown): value is BillingInterval {
+  return BILLING_INTERVALS.includes(value as BillingInterval);
+}
+
+// Read at call time so tests and deploys can change price IDs
+export function getPlanPriceId(plan: Plan, interval: BillingInterval = 'month'): string | undefined {
+  return plan.priceIdEnv ? process.env[plan.priceIdEnv[interval]] || undefined : undefined;
+}
+
+/**
+ * The catalog plan and interval a Stripe price is configured for, if any
+ */
+export function findPlanPrice(priceId?: string | null): { plan: Plan; interval: BillingInterval } | undefined {
+  if (!priceId) return undefined;
+  for (const plan of PLAN_CATALOG) {
+    const interval = BILLING_INTERVALS.find((candidate) => getPlanPriceId(plan, candidate) === priceId);
+    if (interval) return { plan, interval };
+  }
+  return undefined;
+}
+
+/**
+ * The plan a Stripe price belongs to. Prices missing from the catalog grant
+ * nothing and are logged, so a retired price has to be added back to the
+ * catalog's environment variables to keep its subscribers on a paid plan.
+ */
+export function getPlanForPriceId(priceId?: string | null): Plan {
+  const match = findPlanPrice(priceId);
+  if (!match) {
+    console.warn('[Plans] Price is not in the plan catalog, treating it as Free:', priceId);
+    return getPlan(SubscriptionType.FREE);
+  }
+  return match.plan;
+}
+
+/**
+ * Position in the catalog, used to pick the best plan among several subscriptions
+ */
+export function getPlanRank(id: SubscriptionType): number {
+  return PLAN_CATALOG.findIndex((plan) => plan.id === id);
+}
+
+/**
+ * A plan as listed by `GET /api/plans`. Paid prices without a configured
+ * Stripe price ID cannot be bought yet and are marked unavailable.
+ */
+export function toPublicPlan(plan: Plan) {
+  const prices = Object.fromEntries(BILLING_INTERVALS.map((interval) => [interval, {
+    ...plan.prices[interval],
+    available: !plan.priceIdEnv || Boolean(getPlanPriceId(plan, interval)),
+  }])) as Record<BillingInterval, PlanPrice & { available: boolean }>;
+
+  return {
+    id: plan.id,
+    name: plan.name,
+    description: plan.description,
+    prices,
+    features: plan.features,
+    entitlements: plan.entitlements,
+  };
+}
+
+export type Entitlement = 'items' | 'files' | 'ai';
+
+/**
+ * The plan a user is on, from the plan cached on their account
+ */
+export async function getUserPlan(userId: string): Promise<Plan> {
+  const user = await storage.getUserById(userId);
+  return getPlan(user?.subscriptionType);
+}
+
+/**
+ * Throw a structured 403/413 error unless the user's plan allows one more use of
+ * an entitlement: another item, another file, or AI chat. Returns the plan's
+ * entitlements for checks that need the request, like an upload's size.
+ */
+export async function assertEntitlement(userId: string, entitlement: Entitlement): Promise<PlanEntitlements> {
+  const plan = await getUserPlan(userId);
+  const { entitlements } = plan;
+
+  switch (entitlement) {
+    case 'items': {
+      if (entitlements.maxItems === null) break;
+      const items = await storage.getItemsByUserId(userId);
+      if (items.length >= entitlements.maxItems) {
+        throw errors.forbidden('Item limit reached. Please upgrade to Pro plan.');
+      }
+      break;
+    }
+    case 'files': {
+      const usage = await storage.getFileUsageByUserId(userId);
+      assertWithinFileQuota(entitlements.files, usage, 0);
+      break;
+    }
+    case 'ai':
+      if (!entitlements.aiAccess) {
+        throw errors.forbidden(`AI chat is not included in the ${plan.name} plan. Please upgrade your plan.`);
+      }
+      break;
+  }
+
+  return entitlements;
+}
+
+/**
+ * Like assertEntitlement, for callers that skip the work instead of failing
+ */
+export async function hasEntitlement(userId: string, entitlement: Entitlement): Promise<boolean> {
+  try {
+    await assertEntitlement(userId, entitlement);
+    return true;
+  } catch (error) {
+    if (error instanceof AppError) return false;
+    throw error;
+  }
+}
@@ -0,0 +1,75 @@
+import { ItemStatus, MAX_REMINDER_LEAD_MINUTES } from '@shared/schema';
+import { formatDueDate } from '@shared/dates';
+import { storage } from '../storage/index';
+import { queueUserEmail } from './emailOutbox';
+import { enqueueJob, registerJobHandler, registerPeriodicJob } from './jobs';
+
+const MINUTE_MS = 60 * 1000;
+
+export const REMINDER_SCAN_JOB = 'reminders.scan';
+export const REMINDER_SEND_JOB = 'reminders.send';
+
+/**
+ * How often due dates are checked for reminders that should go out
+ */
+export const REMINDER_SCAN_INTERVAL_MS = 5 * MINUTE_MS;
+
+/**
+ * The lead time a reminder is due for: the shortest one the due date already falls
+ * within, so an item created close to its due date gets one email rather than one per lead time
+ */
+export function pickLeadMinutes(dueDate: Date, now: Date, leadMinutes: number[]): number | undefined {
+  const minutesUntilDue = (dueDate.getTime() - now.getTime()) / MINUTE_MS;
+  const matching = leadMinutes.filter((lead) => minutesUntilDue <= lead);
+  return matching.length > 0 ? Math.min(...matching) : undefined;
+}
+
+/**
+ * Queue a reminder for every item that has entered one of its owner's lead times.
+ * Keys include the due date and lead time, so rescans never queue a reminder twice
+ * and moving the due date schedules a new one.
+ */
+export async function scanReminders(now: Date = new Date()): Promise<number> {
+  const due = await storage.getDueItemsForReminders(now, new Date(now.getTime() + MAX_REMINDER_LEAD_MINUTES * MINUTE_MS));
+  let queued = 0;
+  for (const { item, reminderLeadMinutes } of due) {
+    const dueDate = new Date(item.dueDate!);
+    const lead = pickLeadMinutes(dueDate, now, reminderLeadMinutes);
+    if (lead === undefined) continue;
+
+    const job = await enqueueJob(
+      REMINDER_SEND_JOB,
+      { itemId: item.id, dueDate: dueDate.toISOString(), leadMinutes: lead },
+      { uniqueKey: `reminder:${item.id}:${dueDate.toISOString()}:${lead}` }
+    );
+    if (job) queued++;
+  }
+  if (queued > 0) {
+    console.log(`[Reminders] Queued ${queued} reminder(s)`);
+  }
+  return queued;
+}
+
+/**
+ * Queue one reminder email. Items that were completed, deleted or rescheduled since the
+ * reminder was queued, and users who opted out of reminders, are skipped.
+ */
+export async function sendReminder(payload: Record<string, unknown>): Promise<void> {
+  const item = await storage.getItemById(Number(payload.itemId));
+  if (!item || item.status === ItemStatus.COMPLETED || !item.dueDate) return;
+
+  const dueDate = new Date(item.dueDate);
+  if (dueDate.toISOString() !== payload.dueDate) return;
+
+  const user = await storage.getUserById(item.userId);
+  if (!user) return;
+
+  await queueUserEmail(user, 'reminder', { item: item.item, due: formatDueDate(dueDate, { weekday: 'long', month: 'long', day: 'numeric' }, 'en-US') });
+}
+
+export function registerReminderJobs(): void {
+  registerPeriodicJob(REMINDER_SCAN_JOB, REMINDER_SCAN_INTERVAL_MS, async () => {
+    await scanReminders();
+  });
+  registerJobHandler(REMINDER_SEND_JOB, sendReminder);
+}
@@ -0,0 +1,212 @@
+import type Stripe from 'stripe';
+import type { WebhookEvent } from '@shared/schema';
+import { storage } from '../storage/index';
+import { getStripeClient } from './stripe';
+import { queueUserEmail } from './emailOutbox';
+import { formatBillingDate, isInGracePeriod, syncStripeSubscription } from './subscriptions';
+import { getPlanForPriceId } from './plans';
+import { registerJobHandler, registerPeriodicJob } from './jobs';
+import type { CategorizedTemplateName, EmailTemplateVariables } from './emailTemplates';
+
+export const WEBHOOK_PROCESS_JOB = 'webhooks.process';
+export const WEBHOOK_CLEANUP_JOB = 'webhooks.cleanup';
+
+// Deliveries of the same event retried by the job queue before it is left failed
+export const WEBHOOK_MAX_ATTEMPTS = 5;
+
+// An event locked longer than this is assumed abandoned by a stopped instance
+const STALE_LOCK_MS = 10 * 60 * 1000;
+// Processed events are kept for a month, longer than Stripe keeps redelivering
+const PROCESSED_EVENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Events are handled inside the request unless STRIPE_WEBHOOK_MODE=async, which
+ * acknowledges them once recorded and leaves the work to the job queue
+ */
+export function isAsyncWebhookMode(): boolean {
+  return process.env.STRIPE_WEBHOOK_MODE === 'async';
+}
+
+// Billing emails are best effort: failing to queue one must not make Stripe retry the event
+async function sendBillingEmail<K extends CategorizedTemplateName>(userId: string, template: K, variables: EmailTemplateVariables[K]) {
+  try {
+    const user = await storage.getUserById(userId);
+    if (user) {
+      await queueUserEmail(user, template, variables);
+    }
+  } catch (error) {
+    console.error(`[Webhook] Failed to queue ${template} email:`, error);
+  }
+}
+
+function formatAmount(amountInCents: number, currency: string): string {
+  return (amountInCents / 100).toLocaleString('en-US', { style: 'currency', currency: currency.toUpperCase() });
+}
+
+// Fulfillment helper function for checkout sessions
+async function fulfillCheckoutSession(session: Stripe.Checkout.Session, stripe: Stripe) {
+  const userId = session.metadata?.userId;
+  if (!userId) {
+    console.error('[Webhook] No user ID in session metadata');
+    return;
+  }
+
+  try {
+    // Handle subscription completion
+    if (session.mode === 'subscription' && session.subscription) {
+      // Record the new subscription, which upgrades the user
+      const subscriptionId = typeof session.subscription === 'string' ? session.subscription : session.subscription.id;
+      const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+      const saved = await syncStripeSubscription(subscription, { fallbackUserId: userId });
+
+      await sendBillingEmail(userId, 'subscriptionConfirmed', { plan: getPlanForPriceId(saved?.stripePriceId).name });
+    } else if (session.mode === 'payment' && session.payment_intent) {
+      // Handle one-time payment fulfillment
+      // You can add custom logic here based on what was purchased
+      const lineItems = await stripe.checkout.sessions.listLineItems(session.id, {
+        expand: ['data.price.product']
+      });
+      
+      // Optional: Process specific products, send digital goods, etc.
+      // await processOneTimePayment(userId, lineItems);
+    }
+    
+  } catch (error) {
+    console.error('[Webhook] Error fulfilling checkout session:', error);
+    throw error;
+  }
+}
+
+/**
+ * Apply a verified Stripe event. Throws when it should be retried.
+ */
+export async function handleStripeEvent(event: Stripe.Event, stripe: Stripe): Promise<void> {
+  switch (event.type) {
+    // New Checkout Session events
+    case 'checkout.session.completed':
+      const checkoutSession = event.data.object as Stripe.Checkout.Session;
+      
+      // Only fulfill if payment was successful
+      if (checkoutSession.payment_status === 'paid') {
+        await fulfillCheckoutSession(checkoutSession, stripe);
+      }
+      break;
+
+    case 'checkout.session.expired':
+      const expiredSession = event.data.object as Stripe.Checkout.Session;
+      console.log('[Webhook] Checkout session expired:', expiredSession.id);
+      // Optional: Handle expired sessions (analytics, follow-up emails, etc.)
+      break;
+
+    // Subscription lifecycle events: store the subscription's latest
+    // state, which also sets the user's plan. Stripe does not deliver events
+    // in order, so one older than the stored state is ignored.
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      const changedSubscription = event.data.object as Stripe.Subscription;
+      console.log(`[Webhook] Subscription ${event.type.split('.').pop()}:`, changedSubscription.id, changedSubscription.status);
+      await syncStripeSubscription(changedSubscription, { observedAt: new Date(event.created * 1000) });
+      break;
+
+    // Invoice events (for subscription billing)
+    case 'invoice.payment_succeeded':
+      // Note: Stripe v19 types don't include subscription property, but it exists at runtime
+      const paidInvoice = event.data.object as Stripe.Invoice & { subscription?: string | Stripe.Subscription | null };
+
+      // Refresh the subscription, e.g. its new billing period. A recovered
+      // payment makes it active again, which ends any grace period.
+      if (paidInvoice.subscription && typeof paidInvoice.subscription === 'string') {
+        const subscription = await stripe.subscriptions.retrieve(paidInvoice.subscription);
+        await syncStripeSubscription(subscription);
+      }
+      break;
+
+    case 'invoice.payment_failed':
+      // Note: Stripe v19 types don't include subscription property, but it exists at runtime
+      const failedInvoice = event.data.object as Stripe.Invoice & { subscription?: string | Stripe.Subscription | null };
+      console.log('[Webhook] Invoice payment failed:', failedInvoice.id);
+
+      if (failedInvoice.subscription && typeof failedInvoice.subscription === 'string') {
+        const subscription = await stripe.subscriptions.retrieve(failedInvoice.subscription);
+        // Storing the past_due state starts the grace period, so the user is
+        // not downgraded while Stripe retries the payment
+        const saved = await syncStripeSubscription(subscription);
+        const userIdFromFailedInvoice = saved?.userId ?? subscription.metadata.userId;
+
+        if (userIdFromFailedInvoice) {
+          console.log('[Webhook] Invoice payment failed for user:', userIdFromFailedInvoice);
+          await sendBillingEmail(userIdFromFailedInvoice, 'paymentFailed', {
+            amountDue: formatAmount(failedInvoice.amount_due ?? 0, failedInvoice.currency ?? 'usd'),
+            invoiceUrl: failedInvoice.hosted_invoice_url,
+            gracePeriodEndsAt: saved && isInGracePeriod(saved) ? formatBillingDate(saved.gracePeriodEndsAt!) : null,
+          });
+        }
+      }
+      break;
+
+    default:
+      // Silently ignore unhandled events
+      break;
+  }
+}
+
+/**
+ * Store a verified event before it is handled. A redelivered event returns
+ * the existing row, whose status says whether it still needs processing.
+ */
+export async function recordStripeEvent(event: Stripe.Event): Promise<WebhookEvent> {
+  return storage.recordWebhookEvent({
+    id: event.id,
+    type: event.type,
+    payload: event as unknown as Record<string, unknown>,
+    eventCreatedAt: new Date(event.created * 1000),
+  });
+}
+
+/**
+ * Handle a recorded event unless it was already processed or another delivery
+ * is handling it. Failures are stored on the event and rethrown.
+ * Returns whether this call processed the event.
+ */
+export async function processWebhookEvent(eventId: string, event?: Stripe.Event): Promise<boolean> {
+  const stripe = getStripeClient();
+  if (!stripe) {
+    throw new Error('Payments service not configured');
+  }
+
+  const now = new Date();
+  const claimed = await storage.claimWebhookEvent(eventId, now, new Date(now.getTime() - STALE_LOCK_MS));
+  if (!claimed) {
+    return false;
+  }
+
+  try {
+    await handleStripeEvent(event ?? (claimed.payload as unknown as Stripe.Event), stripe);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Webhook] Event ${eventId} failed (attempt ${claimed.attempts}):`, message);
+    await storage.markWebhookEventFailed(eventId, message);
+    throw error;
+  }
+
+  await storage.markWebhookEventProcessed(eventId);
+  return true;
+}
+
+export function registerWebhookJobs(): void {
+  registerJobHandler(WEBHOOK_PROCESS_JOB, async (payload, job) => {
+    try {
+      await processWebhookEvent(String(payload.eventId));
+    } catch (error) {
+      // Out of retries: free the key so a redelivery of the event is queued again
+      if (job.attempts >= job.maxAttempts) {
+        await storage.releaseJobUniqueKey(job.id);
+      }
+      throw error;
+    }
+  });
+  registerPeriodicJob(WEBHOOK_CLEANUP_JOB, 24 * 60 * 60 * 1000, async () => {
+    await storage.deleteProcessedWebhookEvents(new Date(Date.now() - PROCESSED_EVENT_RETENTION_MS));
+  });
+}
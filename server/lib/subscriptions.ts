@@ -0,0 +1,247 @@
+import type Stripe from 'stripe';
+import { SubscriptionStatus, SubscriptionType, type Subscription } from '@shared/schema';
+import { storage } from '../storage/index';
+import { queueUserEmail } from './emailOutbox';
+import { getAppUrl } from './emailPreferences';
+import { enqueueJob, registerJobHandler } from './jobs';
+import { getPlanForPriceId, getPlanRank } from './plans';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const GRACE_REMINDER_JOB = 'billing.gracePeriodReminder';
+export const GRACE_END_JOB = 'billing.gracePeriodEnd';
+
+// Statuses that grant the paid plan
+const PAID_STATUSES: SubscriptionStatus[] = [SubscriptionStatus.ACTIVE, SubscriptionStatus.TRIALING];
+// Statuses after a failed payment, which keep the paid plan until the grace period ends
+const DUNNING_STATUSES: SubscriptionStatus[] = [SubscriptionStatus.PAST_DUE, SubscriptionStatus.UNPAID];
+
+// The "ends soon" email goes out this long before the grace period ends
+const GRACE_REMINDER_LEAD_MS = DAY_MS;
+
+/**
+ * How long the paid plan stays on after a payment fails (BILLING_GRACE_PERIOD_DAYS, default 7).
+ * Zero downgrades as soon as a payment fails.
+ */
+export function getGracePeriodMs(): number {
+  const days = Number(process.env.BILLING_GRACE_PERIOD_DAYS ?? 7);
+  return Number.isFinite(days) && days > 0 ? days * DAY_MS : 0;
+}
+
+export function isPaidSubscriptionStatus(status: SubscriptionStatus): boolean {
+  return PAID_STATUSES.includes(status);
+}
+
+type PlanFields = Pick<Subscription, 'status' | 'gracePeriodEndsAt' | 'stripePriceId'>;
+
+/**
+ * Whether a subscription's payment failed but its grace period has not ended
+ */
+export function isInGracePeriod({ status, gracePeriodEndsAt }: PlanFields, now: Date = new Date()): boolean {
+  return DUNNING_STATUSES.includes(status) && !!gracePeriodEndsAt && gracePeriodEndsAt > now;
+}
+
+function grantsPlan(subscription: PlanFields, now: Date): boolean {
+  return isPaidSubscriptionStatus(subscription.status) || isInGracePeriod(subscription, now);
+}
+
+/**
+ * The plan a user is on given all of their subscriptions: the highest plan
+ * among the ones granting theirs, else Free
+ */
+export function getPlanForSubscriptions(subscriptions: PlanFields[], now: Date = new Date()): SubscriptionType {
+  return subscriptions
+    .filter((subscription) => grantsPlan(subscription, now))
+    .map(({ stripePriceId }) => getPlanForPriceId(stripePriceId).id)
+    .reduce<SubscriptionType>((best, plan) => getPlanRank(plan) > getPlanRank(best) ? plan : best, SubscriptionType.FREE);
+}
+
+/**
+ * The subscription to show a user: the newest one granting the plan, else the newest one
+ */
+export function getCurrentSubscription(subscriptions: Subscription[], now: Date = new Date()): Subscription | undefined {
+  return subscriptions.find((subscription) => grantsPlan(subscription, now)) ?? subscriptions[0];
+}
+
+/**
+ * Dates in billing emails, e.g. "March 8, 2025"
+ */
+export function formatBillingDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { timeZone: 'UTC', month: 'long', day: 'numeric', year: 'numeric' });
+}
+
+// The grace period starts with the first failed payment and is not extended by
+// later ones; any other status ends it
+function getGracePeriodEnd(status: SubscriptionStatus, existing: Subscription | undefined, observedAt: Date): Date | null {
+  if (!DUNNING_STATUSES.includes(status)) return null;
+  if (existing?.gracePeriodEndsAt) return existing.gracePeriodEndsAt;
+
+  const gracePeriodMs = getGracePeriodMs();
+  return gracePeriodMs > 0 ? new Date(observedAt.getTime() + gracePeriodMs) : null;
+}
+
+// Jobs are keyed by the grace period's end, so a later one for the same
+// subscription schedules its own emails
+async function scheduleDunning(subscription: Subscription, now: Date): Promise<void> {
+  const endsAt = subscription.gracePeriodEndsAt!;
+  const payload = { stripeSubscriptionId: subscription.stripeSubscriptionId, gracePeriodEndsAt: endsAt.toISOString() };
+  const key = `${subscription.stripeSubscriptionId}:${endsAt.toISOString()}`;
+
+  const reminderAt = new Date(endsAt.getTime() - GRACE_REMINDER_LEAD_MS);
+  if (reminderAt > now) {
+    await enqueueJob(GRACE_REMINDER_JOB, payload, { runAt: reminderAt, uniqueKey: `grace-reminder:${key}` });
+  }
+  await enqueueJob(GRACE_END_JOB, payload, { runAt: endsAt, uniqueKey: `grace-end:${key}` });
+}
+
+function toDate(seconds: number | null | undefined): Date | null {
+  return seconds ? new Date(seconds * 1000) : null;
+}
+
+function getCustomerId(subscription: Stripe.Subscription): string | null {
+  const { customer } = subscription;
+  if (!customer) return null;
+  return typeof customer === 'string' ? customer : customer.id;
+}
+
+// Checkout and our own API calls tag subscriptions with the user ID; ones made
+// in the Stripe dashboard are matched through the customer instead
+async function resolveUserId(subscription: Stripe.Subscription, fallbackUserId?: string): Promise<string | undefined> {
+  if (subscription.metadata?.userId) return subscription.metadata.userId;
+  if (fallbackUserId) return fallbackUserId;
+
+  const customerId = getCustomerId(subscription);
+  if (!customerId) return undefined;
+  const user = await storage.getUserByStripeCustomerId(customerId);
+  return user?.id;
+}
+
+export interface SyncSubscriptionOptions {
+  fallbackUserId?: string;
+  // When this state was observed: the webhook event's `created` time, or now for
+  // a subscription fetched from the API. Older states than the stored one are ignored.
+  observedAt?: Date;
+}
+
+/**
+ * Store the latest state of a Stripe subscription and update the owner's plan.
+ * Returns undefined when the subscription cannot be matched to a user or a
+ * newer state is already stored.
+ */
+export async function syncStripeSubscription(
+  subscription: Stripe.Subscription,
+  { fallbackUserId, observedAt = new Date() }: SyncSubscriptionOptions = {},
+): Promise<Subscription | undefined> {
+  const userId = await resolveUserId(subscription, fallbackUserId);
+  if (!userId) {
+    console.warn('[Subscriptions] No user found for subscription:', subscription.id);
+    return undefined;
+  }
+
+  const existing = await storage.getSubscriptionByStripeId(subscription.id);
+  if (existing?.lastEventAt && existing.lastEventAt > observedAt) {
+    console.log('[Subscriptions] Ignoring stale update for subscription:', subscription.id);
+    return undefined;
+  }
+
+  // Since Stripe API 2025-03-31 the billing period is set per subscription item
+  const item = subscription.items?.data?.[0];
+  const currentPeriodEnd = item?.current_period_end
+    ?? (subscription as Stripe.Subscription & { current_period_end?: number }).current_period_end;
+
+  const saved = await storage.upsertSubscription({
+    userId,
+    stripeSubscriptionId: subscription.id,
+    stripeCustomerId: getCustomerId(subscription),
+    stripePriceId: item?.price?.id ?? null,
+    status: subscription.status,
+    currentPeriodEnd: toDate(currentPeriodEnd),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end ?? false,
+    trialEnd: toDate(subscription.trial_end),
+    canceledAt: toDate(subscription.canceled_at),
+    gracePeriodEndsAt: getGracePeriodEnd(subscription.status, existing, observedAt),
+    lastEventAt: observedAt,
+  });
+  // A newer event was stored between the check above and the write
+  if (!saved) {
+    return undefined;
+  }
+
+  if (saved.gracePeriodEndsAt && !existing?.gracePeriodEndsAt) {
+    console.log('[Subscriptions] Payment failed, grace period until', saved.gracePeriodEndsAt.toISOString(), 'for subscription:', saved.stripeSubscriptionId);
+    await scheduleDunning(saved, new Date());
+  }
+
+  await refreshUserPlan(userId, saved);
+  return saved;
+}
+
+/**
+ * Recompute the plan cached on the user (`subscriptionType` and `isPremium`)
+ * from their stored subscriptions, including one that was just saved
+ */
+export async function refreshUserPlan(userId: string, saved?: Subscription): Promise<SubscriptionType> {
+  const stored = await storage.getSubscriptionsByUserId(userId);
+  const subscriptions = saved
+    ? [saved, ...stored.filter(({ stripeSubscriptionId }) => stripeSubscriptionId !== saved.stripeSubscriptionId)]
+    : stored;
+
+  const plan = getPlanForSubscriptions(subscriptions);
+  await storage.updateUser(userId, {
+    subscriptionType: plan,
+    isPremium: plan !== SubscriptionType.FREE,
+  });
+  return plan;
+}
+
+// Grace period jobs are skipped once the subscription recovered, was canceled
+// or entered a newer grace period
+async function getSubscriptionInGracePeriod(payload: Record<string, unknown>): Promise<Subscription | undefined> {
+  const subscription = await storage.getSubscriptionByStripeId(String(payload.stripeSubscriptionId));
+  if (!subscription?.gracePeriodEndsAt || subscription.gracePeriodEndsAt.toISOString() !== payload.gracePeriodEndsAt) {
+    return undefined;
+  }
+  return DUNNING_STATUSES.includes(subscription.status) ? subscription : undefined;
+}
+
+/**
+ * Warn the owner that their grace period ends soon
+ */
+export async function sendGracePeriodReminder(payload: Record<string, unknown>): Promise<void> {
+  const subscription = await getSubscriptionInGracePeriod(payload);
+  if (!subscription) return;
+
+  const user = await storage.getUserById(subscription.userId);
+  if (!user) return;
+
+  await queueUserEmail(user, 'gracePeriodEnding', {
+    plan: getPlanForPriceId(subscription.stripePriceId).name,
+    endsAt: formatBillingDate(subscription.gracePeriodEndsAt!),
+    billingUrl: `${getAppUrl()}/settings`,
+  });
+}
+
+/**
+ * Downgrade the owner once the grace period is over, unless another
+ * subscription still grants the plan
+ */
+export async function endGracePeriod(payload: Record<string, unknown>): Promise<void> {
+  const subscription = await getSubscriptionInGracePeriod(payload);
+  if (!subscription) return;
+
+  const plan = await refreshUserPlan(subscription.userId);
+  if (plan !== SubscriptionType.FREE) return;
+
+  const user = await storage.getUserById(subscription.userId);
+  if (!user) return;
+
+  await queueUserEmail(user, 'planDowngraded', {
+    plan: getPlanForPriceId(subscription.stripePriceId).name,
+    billingUrl: `${getAppUrl()}/settings`,
+  });
+}
+
+export function registerDunningJobs(): void {
+  registerJobHandler(GRACE_REMINDER_JOB, sendGracePeriodReminder);
+  registerJobHandler(GRACE_END_JOB, endGracePeriod);
+}
@@ -1,97 +1,118 @@
-import { MailService } from "@sendgrid/mail";
+import { getMailTransport } from "./lib/mailTransport";
 
-const mailService = new MailService();
-let configuredApiKey: string | null = null;
-
-function ensureConfigured() {
-  const apiKey = process.env.SENDGRID_API_KEY;
-  if (!apiKey) {
-    configuredApiKey = null;
-    return null;
-  }
-
-  if (configuredApiKey !== apiKey) {
-    mailService.setApiKey(apiKey);
-    configuredApiKey = apiKey;
-  }
-
-  return apiKey;
-}
-
-interface EmailParams {
+export interface EmailParams {
   to: string;
   from?: string;
   subject: string;
   text: string;
   html?: string;
+  replyTo?: string;
+  headers?: Record<string, string>;
 }
 
-export async function sendEmail(params: EmailParams): Promise<boolean> {
-  try {
-    if (!ensureConfigured()) {
-      console.warn("[SendGrid] SENDGRID_API_KEY not configured; skipping email send.");
-      return false;
-    }
+/**
+ * A delivery failure with a known cause. `permanent` failures (bad parameters,
+ * no transport configured) will not succeed on retry.
+ */
+export class EmailDeliveryError extends Error {
+  constructor(message: string, readonly permanent: boolean) {
+    super(message);
+    this.name = "EmailDeliveryError";
+  }
+}
 
+/**
+ * Whether retrying a failed send is pointless: our own permanent errors, provider
+ * HTTP 4xx responses other than timeouts and rate limits, and SMTP 5xx replies
+ */
+export function isPermanentEmailError(error: unknown): boolean {
+  if (error instanceof EmailDeliveryError) return error.permanent;
+  if (!error || typeof error !== "object") return false;
+
+  const { code, response, responseCode } = error as { code?: unknown; response?: { status?: unknown }; responseCode?: unknown };
+  const status = typeof code === "number" ? code : response?.status;
+  if (typeof status === "number") {
+    return status >= 400 && status < 500 && status !== 408 && status !== 429;
+  }
+  return typeof responseCode === "number" && responseCode >= 500;
+}
+
+/**
+ * Send one email right away through the configured transport and return the
+ * provider's message ID. Throws when the email was not sent.
+ */
+export async function deliverEmail(params: EmailParams): Promise<string | undefined> {
+  const transport = getMailTransport();
+  if (!transport.isConfigured()) {
+    console.warn(`[${transport.label}] ${transport.driver} transport not configured; skipping email send.`);
+    throw new EmailDeliveryError(`Mail transport ${transport.driver} is not configured`, true);
+  }
+
+  try {
     // Log the start of the sendEmail process
     console.debug("Starting sendEmail function", { params });
 
     // Validate email parameters (sender can be provided via env)
     if (!params.to || !params.subject || !params.text) {
       console.error(
-        "SendGrid error: Missing required email parameters",
+        `[${transport.label}] Missing required email parameters`,
         params,
       );
-      return false;
+      throw new EmailDeliveryError("Missing required email parameters", true);
     }
 
     // Log validation success
-    console.log("[SendGrid] Email parameters validation passed", { params });
+    console.log(`[${transport.label}] Email parameters validation passed`, { params });
 
     // Use verified sender from configuration (required by SendGrid)
-    const from = process.env.SENDGRID_FROM || params.from;
+    const from = process.env.MAIL_FROM || process.env.SENDGRID_FROM || params.from;
     if (!from) {
-      console.error("[SendGrid] Missing SENDGRID_FROM environment variable or 'from' param");
-      return false;
+      console.error(`[${transport.label}] Missing MAIL_FROM or SENDGRID_FROM environment variable or 'from' param`);
+      throw new EmailDeliveryError("No sender address configured", true);
     }
-    console.log("[SendGrid] Preparing to send email:", {
+    console.log(`[${transport.label}] Preparing to send email:`, {
       from,
       to: params.to,
       subject: params.subject
     });
 
     // Log email sending action with full details
-    console.log("[SendGrid] Attempting to send email", {
+    console.log(`[${transport.label}] Attempting to send email`, {
       to: params.to,
       from: from,
       subject: params.subject,
       hasText: !!params.text,
       hasHtml: !!params.html,
-      apiKeyPresent: !!process.env.SENDGRID_API_KEY
+      driver: transport.driver
     });
 
     // Send email
-    await mailService.send({
+    const providerMessageId = await transport.send({
       to: params.to,
       from: from, // Use verified sender
       subject: params.subject,
       text: params.text,
       html: params.html || params.text.replace(/\n/g, "<br>"),
+      ...(params.replyTo && { replyTo: params.replyTo }),
+      ...(params.headers && { headers: params.headers }),
     });
 
-    console.log("[SendGrid] Email sent successfully to:", params.to);
-    return true;
+    console.log(`[${transport.label}] Email sent successfully to:`, params.to);
+    return providerMessageId;
   } catch (error) {
-    console.error("[SendGrid] Email sending failed:", error);
-    
+    if (error instanceof EmailDeliveryError) {
+      throw error;
+    }
+    console.error("[Mail] Email sending failed:", error);
+
     if (error instanceof Error) {
-      console.error("[SendGrid] Error details:", {
+      console.error("[Mail] Error details:", {
         name: error.name,
         message: error.message,
         stack: error.stack
       });
     }
-    
+
     if (error && typeof error === 'object' && 'response' in error) {
       const errorWithResponse = error as { response: { status: number; statusText: string; body: any; headers: any } };
       console.error("[SendGrid] API error response:", {
@@ -101,6 +122,19 @@ export async function sendEmail(params: EmailParams): Promise<boolean> {
         headers: errorWithResponse.response.headers
       });
     }
+    throw error;
+  }
+}
+
+/**
+ * Send one email right away, returning whether it was sent. Request handlers
+ * should queue email with `queueEmail` (server/lib/emailOutbox.ts) instead.
+ */
+export async function sendEmail(params: EmailParams): Promise<boolean> {
+  try {
+    await deliverEmail(params);
+    return true;
+  } catch {
     return false;
   }
 }
@@ -95,6 +95,168 @@ export async function requiresItemOwnership(
   }
 }
 
+/**
+ * Middleware to verify ownership of a specific file
+ * Checks that the authenticated user owns the file by ID
+ */
+export async function requiresFileOwnership(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) {
+  const userId = getUserId(req);
+
+  if (!userId) {
+    return res.status(401).json({
+      error: 'Authentication required',
+      code: 'auth/no-token'
+    });
+  }
+
+  const fileId = Number(req.params.id);
+
+  if (isNaN(fileId)) {
+    return res.status(400).json({
+      error: 'Invalid file ID'
+    });
+  }
+
+  try {
+    const file = await storage.getFileById(fileId);
+
+    if (!file) {
+      return res.status(404).json({
+        error: 'File not found'
+      });
+    }
+
+    if (file.userId !== userId) {
+      logSecurity('access_denied', { reason: 'file_not_owned', path: req.path, method: req.method, userId, fileId });
+      return res.status(403).json({
+        error: 'Access denied: You can only access your own files',
+        code: 'auth/access-denied'
+      });
+    }
+
+    // Add file to request for use in route handler
+    (req as any).file = file;
+    next();
+  } catch (error) {
+    console.error('Error checking file ownership:', error);
+    return res.status(500).json({
+      error: 'Failed to verify file ownership'
+    });
+  }
+}
+
+/**
+ * Middleware to verify ownership of a specific tag
+ * Checks that the authenticated user owns the tag by ID
+ */
+export async function requiresTagOwnership(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) {
+  const userId = getUserId(req);
+
+  if (!userId) {
+    return res.status(401).json({
+      error: 'Authentication required',
+      code: 'auth/no-token'
+    });
+  }
+
+  const tagId = Number(req.params.id);
+
+  if (isNaN(tagId)) {
+    return res.status(400).json({
+      error: 'Invalid tag ID'
+    });
+  }
+
+  try {
+    const tag = await storage.getTagById(tagId);
+
+    if (!tag) {
+      return res.status(404).json({
+        error: 'Tag not found'
+      });
+    }
+
+    if (tag.userId !== userId) {
+      logSecurity('access_denied', { reason: 'tag_not_owned', path: req.path, method: req.method, userId, tagId });
+      return res.status(403).json({
+        error: 'Access denied: You can only access your own tags',
+        code: 'auth/access-denied'
+      });
+    }
+
+    // Add tag to request for use in route handler
+    (req as any).tag = tag;
+    next();
+  } catch (error) {
+    console.error('Error checking tag ownership:', error);
+    return res.status(500).json({
+      error: 'Failed to verify tag ownership'
+    });
+  }
+}
+
+/**
+ * Middleware to verify ownership of an AI chat thread
+ * Checks that the authenticated user owns the thread by ID
+ */
+export async function requiresThreadOwnership(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) {
+  const userId = getUserId(req);
+
+  if (!userId) {
+    return res.status(401).json({
+      error: 'Authentication required',
+      code: 'auth/no-token'
+    });
+  }
+
+  const threadId = req.params.id;
+
+  if (!threadId || !/^[A-Za-z0-9_-]{1,128}$/.test(threadId)) {
+    return res.status(400).json({
+      error: 'Invalid thread ID'
+    });
+  }
+
+  try {
+    const thread = await storage.getThreadById(threadId);
+
+    if (!thread) {
+      return res.status(404).json({
+        error: 'Thread not found'
+      });
+    }
+
+    if (thread.userId !== userId) {
+      logSecurity('access_denied', { reason: 'thread_not_owned', path: req.path, method: req.method, userId, threadId });
+      return res.status(403).json({
+        error: 'Access denied: You can only access your own threads',
+        code: 'auth/access-denied'
+      });
+    }
+
+    // Add thread to request for use in route handler
+    (req as any).thread = thread;
+    next();
+  } catch (error) {
+    console.error('Error checking thread ownership:', error);
+    return res.status(500).json({
+      error: 'Failed to verify thread ownership'
+    });
+  }
+}
+
 /**
  * Helper function to check if user exists and optionally match with authenticated user
  */
@@ -0,0 +1,36 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest, getUserId } from './auth';
+import { assertEntitlement, type Entitlement, type PlanEntitlements } from '../lib/plans';
+import { handleError } from '../lib/errors';
+
+/**
+ * Middleware that rejects the request unless the user's plan allows one more
+ * use of an entitlement (see assertEntitlement). The plan's entitlements are
+ * added to the request for checks that need the request body.
+ */
+export function requireEntitlement(entitlement: Entitlement) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const userId = getUserId(req);
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'auth/no-token'
+      });
+    }
+
+    try {
+      (req as any).entitlements = await assertEntitlement(userId, entitlement);
+      next();
+    } catch (error) {
+      handleError(error, res);
+    }
+  };
+}
+
+/**
+ * Entitlements added by requireEntitlement
+ */
+export function getEntitlements(req: AuthenticatedRequest): PlanEntitlements {
+  return (req as any).entitlements;
+}
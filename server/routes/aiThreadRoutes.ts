@@ -0,0 +1,166 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { randomUUID } from "crypto";
+import rateLimit, { ipKeyGenerator } from "express-rate-limit";
+import type { AiThread } from "@shared/schema";
+import { storage } from "../storage/index";
+import { isAuthenticated } from "../replit_integrations/auth";
+import { AuthenticatedRequest, getUserId } from "../middleware/auth";
+import { requiresThreadOwnership } from "../middleware/authHelpers";
+import { requireEntitlement } from "../middleware/entitlements";
+import { handleError, errors } from "../lib/errors";
+import { DEFAULT_THREAD_TITLE, syncChatKitThread } from "../lib/chatKitThreads";
+
+// Thread IDs are either generated here or supplied by ChatKit (e.g. "cthr_...")
+const threadIdPattern = /^[A-Za-z0-9_-]{1,128}$/;
+
+// Validation schemas
+const listThreadsQuerySchema = z.object({
+  archived: z.enum(["true", "false"]).optional().transform((value) => value === "true"),
+});
+
+const createThreadSchema = z.object({
+  id: z.string().regex(threadIdPattern).optional(),
+  title: z.string().min(1).max(200).trim().optional(),
+});
+
+const updateThreadSchema = z.object({
+  title: z.string().min(1).max(200).trim().optional(),
+  archived: z.boolean().optional(),
+}).refine((data) => data.title !== undefined || data.archived !== undefined, {
+  message: "Provide a title or archived flag to update",
+});
+
+const createMessageSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string().min(1).max(20000),
+});
+
+// Per-route limit on top of the global /api limiter
+const threadLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 120,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: any) => req.user?.claims?.sub ?? ipKeyGenerator(req),
+  message: { error: "Too many thread requests, please slow down." },
+});
+
+export async function registerAiThreadRoutes(app: Express) {
+  app.get("/api/ai/threads", isAuthenticated, threadLimiter, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const { archived } = listThreadsQuerySchema.parse(req.query);
+      const threads = await storage.getThreadsByUserId(userId, archived);
+      res.json(threads || []);
+    } catch (error) {
+      console.error("[AI Threads] Error fetching threads:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.post("/api/ai/threads", isAuthenticated, threadLimiter, requireEntitlement("ai"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const { id, title } = createThreadSchema.parse(req.body);
+
+      if (id) {
+        // Registering a ChatKit thread is idempotent for its owner
+        const existing = await storage.getThreadById(id);
+        if (existing) {
+          if (existing.userId !== userId) {
+            throw errors.conflict("Thread already exists");
+          }
+          return res.json(existing);
+        }
+      }
+
+      const thread = await storage.createThread({
+        id: id ?? randomUUID(),
+        userId,
+        title: title ?? DEFAULT_THREAD_TITLE,
+        archived: false,
+      });
+      res.json(thread);
+    } catch (error) {
+      console.error("[AI Threads] Error creating thread:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.patch("/api/ai/threads/:id", isAuthenticated, threadLimiter, requiresThreadOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const thread = (req as any).thread as AiThread;
+      const { title, archived } = updateThreadSchema.parse(req.body);
+
+      const updated = await storage.updateThread(thread.id, {
+        ...(title !== undefined && { title }),
+        ...(archived !== undefined && { archived }),
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("[AI Threads] Error updating thread:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.delete("/api/ai/threads/:id", isAuthenticated, threadLimiter, requiresThreadOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const thread = (req as any).thread as AiThread;
+      await storage.deleteThread(thread.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("[AI Threads] Error deleting thread:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.get("/api/ai/threads/:id/messages", isAuthenticated, threadLimiter, requiresThreadOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const thread = (req as any).thread as AiThread;
+      const messages = await storage.getMessagesByThreadId(thread.id);
+      res.json(messages || []);
+    } catch (error) {
+      console.error("[AI Threads] Error fetching messages:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.post("/api/ai/threads/:id/messages", isAuthenticated, threadLimiter, requireEntitlement("ai"), requiresThreadOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const thread = (req as any).thread as AiThread;
+      const { role, content } = createMessageSchema.parse(req.body);
+
+      const message = await storage.createMessage({
+        id: randomUUID(),
+        threadId: thread.id,
+        role,
+        content,
+      });
+      res.json(message);
+    } catch (error) {
+      console.error("[AI Threads] Error creating message:", error);
+      handleError(error, res);
+    }
+  });
+
+  // Copies the conversation from ChatKit; the AI Agent page calls this after each response
+  app.post("/api/ai/threads/:id/sync", isAuthenticated, threadLimiter, requireEntitlement("ai"), requiresThreadOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const thread = (req as any).thread as AiThread;
+      const result = await syncChatKitThread(thread);
+      res.json(result);
+    } catch (error) {
+      console.error("[AI Threads] Error syncing thread:", error);
+      handleError(error, res);
+    }
+  });
+}
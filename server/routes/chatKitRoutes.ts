@@ -1,8 +1,11 @@
 import type { Express } from "express";
 import { AuthenticatedRequest, getUserId } from "../middleware/auth";
 import { isAuthenticated } from "../replit_integrations/auth";
+import { requireEntitlement } from "../middleware/entitlements";
 import { storage } from "../storage";
 import { randomUUID } from "crypto";
+import { handleError, errors } from "../lib/errors";
+import { getAgentTool } from "../lib/agentTools";
 
 const SESSION_COOKIE_NAME = "chatkit_session_id";
 const SESSION_COOKIE_MAX_AGE = 60 * 60 * 24 * 7; // 7 days
@@ -29,7 +32,7 @@ async function fetchWithRetry(url: string, options: RequestInit, retries = MAX_R
 
 export async function registerChatKitRoutes(app: Express) {
   // Create ChatKit session with user authentication
-  app.post("/api/chatkit/session", isAuthenticated, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/chatkit/session", isAuthenticated, requireEntitlement("ai"), async (req: AuthenticatedRequest, res) => {
     try {
       // Get user ID from Replit Auth session
       const userId = getUserId(req);
@@ -153,4 +156,28 @@ export async function registerChatKitRoutes(app: Express) {
       });
     }
   });
+
+  // Execute an agent function server-side against storage
+  app.post("/api/chatkit/tools/:name", isAuthenticated, requireEntitlement("ai"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required', code: 'auth/no-token' });
+      }
+
+      const tool = getAgentTool(req.params.name);
+      if (!tool) {
+        throw errors.notFound(`Tool ${req.params.name}`);
+      }
+
+      const params = tool.schema.parse(req.body ?? {});
+      console.log('[ChatKit] Executing tool:', { userId, tool: tool.definition.name });
+
+      const result = await tool.execute(userId, params);
+      res.json(result);
+    } catch (error) {
+      console.error("[ChatKit] Tool execution error:", error);
+      handleError(error, res);
+    }
+  });
 }
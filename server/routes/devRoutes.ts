@@ -0,0 +1,46 @@
+import type { Express } from "express";
+import { getMailTransport, MemoryMailTransport } from "../lib/mailTransport";
+import { handleError, errors } from "../lib/errors";
+import { isAuthenticated } from "../replit_integrations/auth";
+
+// Only the in-process sinks remember what they sent
+function getOutboxTransport(): MemoryMailTransport {
+  const transport = getMailTransport();
+  if (!(transport instanceof MemoryMailTransport)) {
+    throw errors.conflict(`The outbox needs MAIL_TRANSPORT=memory or file (current: ${transport.driver})`);
+  }
+  return transport;
+}
+
+/**
+ * Development helpers, for signed-in users only. Registered when ENABLE_DEV_ROUTES=1
+ * and never in production: the outbox holds every user's mail.
+ */
+export async function registerDevRoutes(app: Express) {
+  if (process.env.NODE_ENV === "production" || process.env.ENABLE_DEV_ROUTES !== "1") {
+    return;
+  }
+
+  // Messages sent by this process, newest first
+  app.get("/api/dev/outbox", isAuthenticated, (req, res) => {
+    try {
+      const transport = getOutboxTransport();
+      const to = typeof req.query.to === "string" ? req.query.to : undefined;
+      const messages = transport.list().filter((message) => !to || message.to === to);
+      res.json({ driver: transport.driver, messages });
+    } catch (error) {
+      console.error("[Dev] Error reading outbox:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.delete("/api/dev/outbox", isAuthenticated, (_req, res) => {
+    try {
+      getOutboxTransport().clear();
+      res.status(204).send();
+    } catch (error) {
+      console.error("[Dev] Error clearing outbox:", error);
+      handleError(error, res);
+    }
+  });
+}
@@ -0,0 +1,149 @@
+import type { Express, Request } from "express";
+import { z } from "zod";
+import rateLimit, { ipKeyGenerator } from "express-rate-limit";
+import { emailPreferencesSchema } from "@shared/schema";
+import { storage } from "../storage/index";
+import { isAuthenticated } from "../replit_integrations/auth";
+import { AuthenticatedRequest, getUserId } from "../middleware/auth";
+import { handleError, errors } from "../lib/errors";
+import { logEvent, logSecurity } from "../lib/audit";
+import { resolveEmailPreferences, verifyUnsubscribeToken } from "../lib/emailPreferences";
+import { queueEmail } from "../lib/emailOutbox";
+import { renderEmail } from "../lib/emailTemplates";
+
+// Mail clients post the one-click body `List-Unsubscribe=One-Click` as a form;
+// the preference center posts JSON preferences instead
+const updatePreferencesSchema = z.object({
+  preferences: emailPreferencesSchema.optional(),
+});
+
+// One plain-text message to one recipient; the sender address is always ours
+const sendEmailSchema = z.object({
+  to: z.string().trim().toLowerCase().max(254).email("Invalid recipient email address"),
+  subject: z.string().trim().min(1).max(200),
+  text: z.string().trim().min(1).max(10000),
+});
+
+// Per-user limits on user-written email, on top of the global /api limiter
+function createSendEmailLimiter(windowMs: number, max: number, message: string) {
+  return rateLimit({
+    windowMs,
+    max,
+    standardHeaders: true,
+    legacyHeaders: false,
+    keyGenerator: (req: any) => req.user?.claims?.sub ?? ipKeyGenerator(req),
+    handler: (req: any, res) => {
+      logSecurity("email_rate_limit", {
+        requestId: res.locals?.requestId,
+        userId: req.user?.claims?.sub,
+        ip: req.ip,
+        windowMs,
+        max,
+      });
+      handleError(errors.rateLimit(message), res);
+    },
+  });
+}
+
+const sendEmailBurstLimiter = createSendEmailLimiter(60 * 1000, 5, "Too many emails, please wait a minute.");
+const sendEmailDailyLimiter = createSendEmailLimiter(24 * 60 * 60 * 1000, 50, "Daily email limit reached, please try again tomorrow.");
+
+// The token comes from the link's query string, or the body for form posts
+async function getTokenUser(req: Request) {
+  const token = typeof req.query.token === "string" ? req.query.token : req.body?.token;
+  const verified = typeof token === "string" ? verifyUnsubscribeToken(token) : null;
+  if (!verified) {
+    throw errors.validation("Invalid unsubscribe link");
+  }
+
+  const user = await storage.getUserById(verified.userId);
+  if (!user) {
+    throw errors.notFound("User");
+  }
+  return { user, category: verified.category };
+}
+
+/**
+ * User-written email, plus unsubscribe links and the email preference center.
+ * The unsubscribe routes are unauthenticated: the signed token identifies the user.
+ */
+export async function registerEmailRoutes(app: Express) {
+  // Queue a message from the signed-in user, e.g. sharing a list with a
+  // colleague. Replies go to the user; the From address stays ours.
+  app.post("/api/send-email", isAuthenticated, sendEmailBurstLimiter, sendEmailDailyLimiter, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const parsed = sendEmailSchema.safeParse(req.body);
+      if (!parsed.success) {
+        if (parsed.error.errors.some((issue) => issue.path[0] === "to")) {
+          logSecurity("email_rejected", { reason: "invalid_recipient", userId, ip: req.ip });
+        }
+        throw parsed.error;
+      }
+      const { to, subject, text } = parsed.data;
+
+      const user = await storage.getUserById(userId);
+      if (!user) {
+        throw errors.notFound("User");
+      }
+      if (!user.email) {
+        logSecurity("email_rejected", { reason: "no_sender_email", userId });
+        throw errors.forbidden("Add an email address to your account to send email");
+      }
+
+      const sender = [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email;
+      const email = await queueEmail({
+        to,
+        ...renderEmail("sharedMessage", { sender, senderEmail: user.email, subject, message: text }),
+        replyTo: user.email,
+      }, "sharedMessage");
+
+      console.log("[Email] Queued user email:", { userId, emailId: email.id });
+      logEvent("email.user_sent", { userId, emailId: email.id, recipientDomain: to.split("@")[1] });
+      res.status(202).json({ id: email.id, status: email.status });
+    } catch (error) {
+      console.error("[Email] Error sending user email:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.get("/api/email/unsubscribe", async (req, res) => {
+    try {
+      const { user, category } = await getTokenUser(req);
+      res.json({
+        email: user.email,
+        category,
+        preferences: resolveEmailPreferences(user.emailPreferences),
+      });
+    } catch (error) {
+      console.error("[Email] Error reading email preferences:", error);
+      handleError(error, res);
+    }
+  });
+
+  // Without preferences in the body this is a one-click unsubscribe from the
+  // link's category (RFC 8058)
+  app.post("/api/email/unsubscribe", async (req, res) => {
+    try {
+      const { user, category } = await getTokenUser(req);
+      const { preferences } = updatePreferencesSchema.parse(req.body ?? {});
+
+      const updated = await storage.updateUser(user.id, {
+        emailPreferences: { ...user.emailPreferences, ...(preferences ?? { [category]: false }) },
+      });
+      console.log("[Email] Updated email preferences for user:", user.id);
+
+      res.json({
+        category,
+        preferences: resolveEmailPreferences(updated?.emailPreferences),
+      });
+    } catch (error) {
+      console.error("[Email] Error updating email preferences:", error);
+      handleError(error, res);
+    }
+  });
+}
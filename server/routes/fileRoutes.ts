@@ -0,0 +1,195 @@
+import type { Express, Response, NextFunction } from "express";
+import multer from "multer";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { File } from "@shared/schema";
+import { storage } from "../storage/index";
+import { isAuthenticated } from "../replit_integrations/auth";
+import { AuthenticatedRequest, getUserId } from "../middleware/auth";
+import { requiresFileOwnership } from "../middleware/authHelpers";
+import { requireEntitlement, getEntitlements } from "../middleware/entitlements";
+import { handleError, errors } from "../lib/errors";
+import { getFileStore } from "../lib/fileStore";
+import { assertWithinFileQuota } from "../lib/fileQuota";
+import { PLAN_CATALOG, getPlan } from "../lib/plans";
+
+// Hard ceiling for a single upload: the largest per-file limit of any plan.
+// Each plan's own limit is enforced after parsing.
+const MAX_UPLOAD_BYTES = Math.max(...PLAN_CATALOG.map(({ entitlements }) => entitlements.files.maxFileBytes));
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+});
+
+/**
+ * Parse a single multipart `file` field, mapping multer failures to API errors
+ */
+function parseUpload(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  upload.single("file")(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      if (err.code === "LIMIT_FILE_SIZE") {
+        return handleError(errors.tooLarge(`File exceeds the ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB upload limit`), res);
+      }
+      return handleError(errors.validation(err.message), res);
+    }
+    if (err) {
+      return handleError(err, res);
+    }
+    next();
+  });
+}
+
+/**
+ * Strip directory components and control characters from a client-supplied file name
+ */
+function sanitizeFileName(name: string): string {
+  const base = path.basename(name.replace(/\\/g, "/"));
+  const cleaned = base.replace(/[\u0000-\u001f\u007f]/g, "").trim();
+  return cleaned.slice(0, 255) || "file";
+}
+
+/**
+ * Build a Content-Disposition header with an ASCII fallback and an RFC 5987 encoded name
+ */
+function contentDisposition(fileName: string): string {
+  const asciiName = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  const encodedName = encodeURIComponent(fileName).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodedName}`;
+}
+
+export async function registerFileRoutes(app: Express) {
+  app.get("/api/files", isAuthenticated, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      const files = await storage.getFilesByUserId(userId);
+      res.json(files || []);
+    } catch (error) {
+      console.error("[Files] Error fetching files:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.get("/api/files/usage", isAuthenticated, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const [user, usage] = await Promise.all([
+        storage.getUserById(userId),
+        storage.getFileUsageByUserId(userId),
+      ]);
+      const plan = getPlan(user?.subscriptionType);
+
+      res.json({
+        plan: plan.id,
+        usage,
+        limits: plan.entitlements.files,
+      });
+    } catch (error) {
+      console.error("[Files] Error fetching file usage:", error);
+      handleError(error, res);
+    }
+  });
+
+  // Full accounts are turned away before the upload is read; its size is checked once it is
+  app.post("/api/files/upload", isAuthenticated, requireEntitlement("files"), parseUpload, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const uploaded = req.file;
+      if (!uploaded) {
+        throw errors.validation("No file provided. Send the file in a multipart 'file' field.");
+      }
+
+      const usage = await storage.getFileUsageByUserId(userId);
+      assertWithinFileQuota(getEntitlements(req).files, usage, uploaded.size);
+
+      const originalName = sanitizeFileName(uploaded.originalname);
+      const extension = path.extname(originalName).toLowerCase();
+      const name = `${randomUUID()}${/^\.[a-z0-9]{1,10}$/.test(extension) ? extension : ""}`;
+      const key = `users/${userId}/files/${name}`;
+      const type = uploaded.mimetype || "application/octet-stream";
+
+      const fileStore = getFileStore();
+      await fileStore.put(key, uploaded.buffer, type);
+
+      try {
+        const created = await storage.createFile({
+          userId,
+          name,
+          originalName,
+          path: key,
+          url: "",
+          size: uploaded.size,
+          type,
+        });
+        const file = await storage.updateFile(created.id, { url: `/api/files/${created.id}/download` });
+        console.log("[Files] File uploaded:", { id: file.id, userId, size: file.size });
+        res.json(file);
+      } catch (error) {
+        // Don't leave orphaned content behind if the metadata insert fails
+        await fileStore.delete(key).catch(() => {});
+        throw error;
+      }
+    } catch (error) {
+      console.error("[Files] Error uploading file:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.get("/api/files/:id", isAuthenticated, requiresFileOwnership, async (req: AuthenticatedRequest, res) => {
+    res.json((req as any).file as File);
+  });
+
+  app.get("/api/files/:id/download", isAuthenticated, requiresFileOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const file = (req as any).file as File;
+
+      let stream;
+      try {
+        stream = await getFileStore().createReadStream(file.path);
+      } catch (error) {
+        console.error("[Files] Stored content missing:", { id: file.id, path: file.path, error });
+        throw errors.notFound("File content");
+      }
+
+      res.setHeader("Content-Type", file.type || "application/octet-stream");
+      res.setHeader("Content-Length", String(file.size));
+      res.setHeader("Content-Disposition", contentDisposition(file.originalName));
+
+      stream.on("error", (error) => {
+        console.error("[Files] Error streaming file:", error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      console.error("[Files] Error downloading file:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.delete("/api/files/:id", isAuthenticated, requiresFileOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const file = (req as any).file as File;
+
+      await storage.deleteFile(file.id);
+      await getFileStore().delete(file.path).catch((error) => {
+        console.error("[Files] Failed to remove stored content:", { id: file.id, path: file.path, error });
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("[Files] Error deleting file:", error);
+      handleError(error, res);
+    }
+  });
+}
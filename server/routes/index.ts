@@ -3,8 +3,14 @@ import { createServer } from "http";
 import { setupAuth, registerAuthRoutes } from '../replit_integrations/auth';
 import { registerUserRoutes } from './userRoutes';
 import { registerItemRoutes } from './itemRoutes';
+import { registerTagRoutes } from './tagRoutes';
+import { registerSubtaskRoutes } from './subtaskRoutes';
+import { registerFileRoutes } from './fileRoutes';
 import { registerPaymentRoutes } from './paymentRoutes';
 import { registerChatKitRoutes } from './chatKitRoutes';
+import { registerAiThreadRoutes } from './aiThreadRoutes';
+import { registerEmailRoutes } from './emailRoutes';
+import { registerDevRoutes } from './devRoutes';
 
 export async function registerRoutes(app: Express) {
   const server = createServer(app);
@@ -16,8 +22,14 @@ export async function registerRoutes(app: Express) {
   // Register all route modules (webhooks are registered separately before JSON middleware)
   await registerUserRoutes(app);
   await registerItemRoutes(app);
+  await registerTagRoutes(app);
+  await registerSubtaskRoutes(app);
+  await registerFileRoutes(app);
   await registerPaymentRoutes(app);
   await registerChatKitRoutes(app);
+  await registerAiThreadRoutes(app);
+  await registerEmailRoutes(app);
+  await registerDevRoutes(app);
 
   return server;
 }
@@ -1,22 +1,52 @@
 import type { Express } from "express";
 import { z } from "zod";
 import { storage } from "../storage/index";
-import { sendEmail } from "../mail";
+import { queueUserEmail } from "../lib/emailOutbox";
 import { isAuthenticated } from "../replit_integrations/auth";
 import { AuthenticatedRequest, getUserId } from "../middleware/auth";
 import { requiresItemOwnership } from "../middleware/authHelpers";
+import { requireEntitlement } from "../middleware/entitlements";
 import { handleError, errors } from "../lib/errors";
-import { updateItemStatusSchema } from "@shared/schema";
+import { decodeCursor } from "../lib/pagination";
+import { getPurgeAt } from "../lib/itemTrash";
+import { itemEvents } from "../lib/itemEvents";
+import { scheduleNextOccurrence } from "../lib/itemRecurrence";
+import { applyBulkItemAction } from "../lib/itemBulkActions";
+import { updateItemStatusSchema, updateItemSchema, itemDetailsSchema, reorderItemsSchema, bulkItemActionSchema, ItemEventSource, type Item } from "@shared/schema";
 
 // Validation schemas
 const itemIdSchema = z.object({
   id: z.string().regex(/^\d+$/).transform(Number)
 });
 
-const createItemSchema = z.object({
+const createItemSchema = itemDetailsSchema.extend({
   item: z.string().min(1).max(1000).trim()
 });
 
+// Any of these query params switches GET /api/items to the paginated response
+const listQueryKeys = ["status", "tag", "q", "sort", "order", "limit", "cursor"];
+
+const listItemsQuerySchema = z.object({
+  status: z.enum(["open", "in_progress", "completed"]).optional(),
+  tag: z.coerce.number().int().positive().optional(),
+  q: z.string().trim().max(200).optional().transform((value) => value || undefined),
+  sort: z.enum(["createdAt", "updatedAt", "item", "position"]).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional().transform((value, ctx) => {
+    if (value === undefined) return undefined;
+    const cursor = decodeCursor(value);
+    if (!cursor) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+      return z.NEVER;
+    }
+    return cursor;
+  }),
+});
+
+// Checklist summary attached to each listed item
+const emptyProgress = { total: 0, completed: 0 };
+
 export async function registerItemRoutes(app: Express) {
   app.get("/api/items", isAuthenticated, async (req: AuthenticatedRequest, res) => {
     try {
@@ -24,18 +54,62 @@ export async function registerItemRoutes(app: Express) {
       if (!userId) {
         return res.status(401).json({ error: "User not authenticated" });
       }
-      const items = await storage.getItemsByUserId(userId);
-      res.json(items || []);
+
+      // Existing callers without list params keep the plain-array response
+      if (!listQueryKeys.some((key) => key in req.query)) {
+        const items = await storage.getItemsByUserId(userId) || [];
+        const progressByItem = await storage.getSubtaskProgress(items.map((item) => item.id));
+        return res.json(items.map((item) => ({
+          ...item,
+          subtaskProgress: progressByItem[item.id] ?? emptyProgress,
+        })));
+      }
+
+      const options = listItemsQuerySchema.parse(req.query);
+      const page = await storage.listItems(userId, options);
+      const itemIds = page.items.map((item) => item.id);
+      const [tagsByItem, progressByItem] = await Promise.all([
+        storage.getTagsForItems(itemIds),
+        storage.getSubtaskProgress(itemIds),
+      ]);
+      res.json({
+        items: page.items.map((item) => ({
+          ...item,
+          tags: tagsByItem[item.id] ?? [],
+          subtaskProgress: progressByItem[item.id] ?? emptyProgress,
+        })),
+        pagination: {
+          limit: options.limit,
+          total: page.total,
+          nextCursor: page.nextCursor,
+          hasMore: page.nextCursor !== null,
+        },
+      });
     } catch (error) {
       console.error("Error fetching items:", error);
       handleError(error, res);
     }
   });
 
-  app.post("/api/items", isAuthenticated, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/items/trash", isAuthenticated, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const items = await storage.getDeletedItemsByUserId(userId);
+      res.json((items || []).map((item) => ({ ...item, purgeAt: getPurgeAt(item) })));
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.post("/api/items", isAuthenticated, requireEntitlement("items"), async (req: AuthenticatedRequest, res) => {
     try {
       // Validate request body
-      const { item } = createItemSchema.parse(req.body);
+      const { item, ...details } = createItemSchema.parse(req.body);
       const userId = getUserId(req);
 
       if (!userId) {
@@ -51,27 +125,18 @@ export async function registerItemRoutes(app: Express) {
         subscriptionType: user?.subscriptionType
       });
 
-      const items = await storage.getItemsByUserId(userId);
-      console.log("[Items] Current items count:", items.length);
-
-      if (!user?.subscriptionType?.includes('pro') && items.length >= 5) {
-        console.log("[Items] Free user hit item limit");
-        throw errors.forbidden("Item limit reached. Please upgrade to Pro plan.");
-      }
-
-      const created = await storage.createItem({ userId, item, status: "open" });
+      const created = await storage.createItem({ userId, item, status: "open", ...details });
       console.log("[Items] Item created:", created);
+      await itemEvents.created(created, userId, ItemEventSource.UI);
 
-      // Send email notification if enabled
-      if (user?.emailNotifications && user?.email) {
-        console.log("[Items] Sending email notification to:", user.email);
-        const emailResult = await sendEmail({
-          to: user.email,
-          subject: "New Item Created",
-          text: `A new item "${item}" has been created in your list.`,
-          html: `<p>A new item "<strong>${item}</strong>" has been created in your list.</p>`
-        });
-        console.log("[Items] Email notification result:", emailResult);
+      // Queue an email notification unless the user opted out of item activity emails
+      if (user) {
+        try {
+          await queueUserEmail(user, "itemCreated", { item });
+        } catch (emailError) {
+          // The item was created; a missing notification must not fail the request
+          console.error("[Items] Failed to queue email notification:", emailError);
+        }
       }
 
       res.json(created);
@@ -81,6 +146,60 @@ export async function registerItemRoutes(app: Express) {
     }
   });
 
+  // Rewrite the manual order of the given items; unlisted items keep their positions
+  app.post("/api/items/reorder", isAuthenticated, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const { ids } = reorderItemsSchema.parse(req.body);
+
+      const ownedIds = new Set((await storage.getItemsByUserId(userId)).map((item) => item.id));
+      if (!ids.every((id) => ownedIds.has(id))) {
+        throw errors.notFound("Item");
+      }
+
+      await storage.reorderItems(userId, ids);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error reordering items:", error);
+      handleError(error, res);
+    }
+  });
+
+  // Apply one action to many items; every id must belong to the user
+  app.post("/api/items/bulk", isAuthenticated, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const action = bulkItemActionSchema.parse(req.body);
+
+      const ownedIds = new Set(await storage.getOwnedItemIds(userId, action.ids));
+      const missingIds = action.ids.filter((id) => !ownedIds.has(id));
+      if (missingIds.length > 0) {
+        throw errors.notFound("Item", { missingIds });
+      }
+
+      if (action.action === "tag") {
+        const tag = await storage.getTagById(action.tagId);
+        if (!tag || tag.userId !== userId) {
+          throw errors.notFound("Tag");
+        }
+      }
+
+      const count = await applyBulkItemAction(userId, action, ItemEventSource.UI);
+      res.json({ success: true, action: action.action, count });
+    } catch (error) {
+      console.error("Error applying bulk item action:", error);
+      handleError(error, res);
+    }
+  });
+
   app.patch("/api/items/:id/status", isAuthenticated, requiresItemOwnership, async (req: AuthenticatedRequest, res) => {
     try {
       // Validate item ID parameter
@@ -89,24 +208,85 @@ export async function registerItemRoutes(app: Express) {
       // Validate status in request body
       const { status } = updateItemStatusSchema.parse(req.body);
 
+      const item = (req as any).item as Item;
       const updatedItem = await storage.updateItemStatus(id, status);
-      res.json(updatedItem);
+      await itemEvents.statusChanged(id, item.userId, ItemEventSource.UI, status, item.status);
+
+      // Completing a recurring item creates its next occurrence
+      const nextItem = await scheduleNextOccurrence(item, status, ItemEventSource.UI);
+      res.json(nextItem ? { ...updatedItem, nextItem } : updatedItem);
     } catch (error) {
       console.error("Error updating item status:", error);
       handleError(error, res);
     }
   });
 
+  app.patch("/api/items/:id", isAuthenticated, requiresItemOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      // Validate item ID parameter
+      const { id } = itemIdSchema.parse(req.params);
+
+      // Validate editable fields in request body
+      const data = updateItemSchema.parse(req.body);
+
+      const item = (req as any).item as Item;
+      const updatedItem = await storage.updateItem(id, data);
+      await itemEvents.edited(item, data, item.userId, ItemEventSource.UI);
+      res.json(updatedItem);
+    } catch (error) {
+      console.error("Error updating item:", error);
+      handleError(error, res);
+    }
+  });
+
+  // Moves the item to the trash; see POST /api/items/:id/restore
   app.delete("/api/items/:id", isAuthenticated, requiresItemOwnership, async (req: AuthenticatedRequest, res) => {
     try {
       // Validate item ID parameter
       const { id } = itemIdSchema.parse(req.params);
 
+      const item = (req as any).item as Item;
       await storage.deleteItem(id);
+      await itemEvents.deleted([id], item.userId, ItemEventSource.UI);
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting item:", error);
       handleError(error, res);
     }
   });
+
+  // Trashed items aren't visible to requiresItemOwnership, so ownership is part of the restore itself.
+  // Restoring counts against the same plan limit as creating.
+  app.post("/api/items/:id/restore", isAuthenticated, requireEntitlement("items"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const { id } = itemIdSchema.parse(req.params);
+
+      const restored = await storage.restoreItem(userId, id);
+      if (!restored) {
+        throw errors.notFound("Deleted item");
+      }
+      await itemEvents.restored(id, userId, ItemEventSource.UI);
+      res.json(restored);
+    } catch (error) {
+      console.error("Error restoring item:", error);
+      handleError(error, res);
+    }
+  });
+
+  // Newest first; trashed items have no history view until restored
+  app.get("/api/items/:id/history", isAuthenticated, requiresItemOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const item = (req as any).item as Item;
+      const events = await storage.getItemEventsByItemId(item.id);
+      res.json(events || []);
+    } catch (error) {
+      console.error("Error fetching item history:", error);
+      handleError(error, res);
+    }
+  });
 }
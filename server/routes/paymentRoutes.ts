@@ -1,11 +1,106 @@
 import type { Express } from "express";
+import { z } from "zod";
 import { storage } from "../storage/index";
 import Stripe from "stripe";
 import { isAuthenticated } from "../replit_integrations/auth";
 import { AuthenticatedRequest, getUserId } from "../middleware/auth";
 import { getStripeClient } from "../lib/stripe";
+import { handleError } from "../lib/errors";
+import { getCurrentSubscription, getPlanForSubscriptions } from "../lib/subscriptions";
+import { BILLING_INTERVALS, PLAN_CATALOG, findPlanPrice, getPlanPriceId, isBillingInterval, toPublicPlan, type BillingInterval } from "../lib/plans";
+import { applyPlanChange, previewPlanChange } from "../lib/planChanges";
+import { SubscriptionType } from "@shared/schema";
+
+// `preview` only prices the change; without it the change is applied, at the
+// preview's signed proration date when one is passed
+const changePlanSchema = z.object({
+  plan: z.string(),
+  interval: z.enum(BILLING_INTERVALS as [BillingInterval, ...BillingInterval[]]).default("month"),
+  preview: z.boolean().optional(),
+  prorationDate: z.number().int().positive().optional(),
+  prorationSignature: z.string().optional(),
+}).refine((body) => (body.prorationDate === undefined) === (body.prorationSignature === undefined), {
+  message: "prorationDate and prorationSignature must be sent together",
+  path: ["prorationSignature"],
+});
+
+// Response of GET /api/billing/subscription, also returned after a plan change
+async function getBillingState(userId: string) {
+  const subscriptions = await storage.getSubscriptionsByUserId(userId);
+  const current = getCurrentSubscription(subscriptions);
+
+  return {
+    plan: getPlanForSubscriptions(subscriptions),
+    subscription: current ? {
+      status: current.status,
+      priceId: current.stripePriceId,
+      // null for prices missing from the catalog
+      interval: findPlanPrice(current.stripePriceId)?.interval ?? null,
+      currentPeriodEnd: current.currentPeriodEnd,
+      cancelAtPeriodEnd: current.cancelAtPeriodEnd,
+      trialEnd: current.trialEnd,
+      canceledAt: current.canceledAt,
+      gracePeriodEndsAt: current.gracePeriodEndsAt,
+    } : null,
+  };
+}
 
 export async function registerPaymentRoutes(app: Express) {
+  // The plan catalog with prices and entitlements; public so the pricing page works signed out
+  app.get("/api/plans", (_req, res) => {
+    res.json(PLAN_CATALOG.map(toPublicPlan));
+  });
+
+  // The user's plan and the subscription behind it, as last reported by Stripe
+  app.get("/api/billing/subscription", isAuthenticated, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      res.json(await getBillingState(userId));
+    } catch (error) {
+      console.error("[Billing] Error fetching subscription:", error);
+      handleError(error, res);
+    }
+  });
+
+  // Move an active subscription to another plan or billing interval. Returns the
+  // prorated amount with `preview: true`, else applies the change and returns
+  // the updated billing state.
+  app.post("/api/billing/change-plan", isAuthenticated, async (req: AuthenticatedRequest, res) => {
+    try {
+      const stripe = getStripeClient();
+      if (!stripe) {
+        return res.status(503).json({ error: 'Payments service not configured' });
+      }
+
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const { preview, prorationDate, prorationSignature, ...target } = changePlanSchema.parse(req.body);
+      if (preview) {
+        return res.json(await previewPlanChange(stripe, userId, target));
+      }
+
+      const confirmation = prorationDate !== undefined && prorationSignature !== undefined
+        ? { prorationDate, prorationSignature }
+        : undefined;
+      await applyPlanChange(stripe, userId, target, confirmation);
+      res.json(await getBillingState(userId));
+    } catch (error) {
+      console.error("[Billing] Error changing plan:", error);
+      // Declined payments for the prorated invoice and other Stripe errors
+      if (error instanceof Stripe.errors.StripeError) {
+        return res.status(400).json({ error: error.message });
+      }
+      handleError(error, res);
+    }
+  });
+
   // New Stripe Checkout endpoint - replaces complex payment method flow
   app.post("/api/create-checkout-session", isAuthenticated, async (req: AuthenticatedRequest, res) => {
     try {
@@ -15,7 +110,7 @@ export async function registerPaymentRoutes(app: Express) {
       }
 
       console.log('[Checkout] Creating checkout session');
-      const { mode = 'subscription', priceId, successUrl, cancelUrl } = req.body;
+      const { mode = 'subscription', plan, interval = 'month', priceId, successUrl, cancelUrl } = req.body;
       const userId = getUserId(req);
 
       if (!userId) {
@@ -47,8 +142,21 @@ export async function registerPaymentRoutes(app: Express) {
         console.log('[Checkout] Created new Stripe customer:', customerId);
       }
 
-      // Determine price ID - use provided priceId or default to PRO subscription
-      const sessionPriceId = priceId || process.env.STRIPE_PRICE_ID_PRO;
+      // Determine price ID - use provided priceId, else the chosen plan's (Pro by default)
+      // for the chosen interval (monthly by default). Subscriptions must use catalog
+      // prices: any other price on the Stripe account would grant nothing.
+      if (mode === 'subscription' && priceId && !findPlanPrice(priceId)) {
+        console.warn('[Checkout] Rejected price outside the plan catalog:', priceId);
+        return res.status(400).json({ error: "Unknown price" });
+      }
+      const sessionPlan = PLAN_CATALOG.find(({ id, priceIdEnv }) => id === (plan ?? SubscriptionType.PRO) && priceIdEnv);
+      if (!priceId && !sessionPlan) {
+        return res.status(400).json({ error: "Unknown plan" });
+      }
+      if (!isBillingInterval(interval)) {
+        return res.status(400).json({ error: "Unknown billing interval" });
+      }
+      const sessionPriceId = priceId || getPlanPriceId(sessionPlan!, interval);
       if (!sessionPriceId) {
         return res.status(400).json({ error: "Price ID not configured" });
       }
@@ -0,0 +1,101 @@
+import type { Express } from "express";
+import { z } from "zod";
+import type { Item, Subtask } from "@shared/schema";
+import { createSubtaskSchema, updateSubtaskSchema, reorderSubtasksSchema } from "@shared/schema";
+import { storage } from "../storage/index";
+import { isAuthenticated } from "../replit_integrations/auth";
+import { AuthenticatedRequest } from "../middleware/auth";
+import { requiresItemOwnership } from "../middleware/authHelpers";
+import { handleError, errors } from "../lib/errors";
+
+// Validation schemas
+const subtaskParamsSchema = z.object({
+  subtaskId: z.string().regex(/^\d+$/).transform(Number)
+});
+
+// Subtasks are only reachable through the item that owns them
+async function getItemSubtask(item: Item, subtaskId: number): Promise<Subtask> {
+  const subtask = await storage.getSubtaskById(subtaskId);
+  if (!subtask || subtask.itemId !== item.id) {
+    throw errors.notFound("Subtask");
+  }
+  return subtask;
+}
+
+export async function registerSubtaskRoutes(app: Express) {
+  app.get("/api/items/:id/subtasks", isAuthenticated, requiresItemOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const item = (req as any).item as Item;
+      const subtasks = await storage.getSubtasksByItemId(item.id);
+      res.json(subtasks || []);
+    } catch (error) {
+      console.error("[Subtasks] Error fetching subtasks:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.post("/api/items/:id/subtasks", isAuthenticated, requiresItemOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const item = (req as any).item as Item;
+      const { title } = createSubtaskSchema.parse(req.body);
+
+      const subtask = await storage.createSubtask({ itemId: item.id, title });
+      res.json(subtask);
+    } catch (error) {
+      console.error("[Subtasks] Error creating subtask:", error);
+      handleError(error, res);
+    }
+  });
+
+  // Replace the checklist order; ids must list every subtask of the item exactly once
+  app.put("/api/items/:id/subtasks/order", isAuthenticated, requiresItemOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const item = (req as any).item as Item;
+      const { ids } = reorderSubtasksSchema.parse(req.body);
+
+      const current = await storage.getSubtasksByItemId(item.id);
+      const currentIds = new Set(current.map((subtask) => subtask.id));
+      if (ids.length !== currentIds.size || new Set(ids).size !== ids.length || !ids.every((id) => currentIds.has(id))) {
+        throw errors.validation("ids must list each of the item's subtasks exactly once");
+      }
+
+      const subtasks = await storage.reorderSubtasks(item.id, ids);
+      res.json(subtasks);
+    } catch (error) {
+      console.error("[Subtasks] Error reordering subtasks:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.patch("/api/items/:id/subtasks/:subtaskId", isAuthenticated, requiresItemOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const item = (req as any).item as Item;
+      const { subtaskId } = subtaskParamsSchema.parse(req.params);
+      const { title, completed } = updateSubtaskSchema.parse(req.body);
+
+      const subtask = await getItemSubtask(item, subtaskId);
+      const updated = await storage.updateSubtask(subtask.id, {
+        ...(title !== undefined && { title }),
+        ...(completed !== undefined && { completed }),
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("[Subtasks] Error updating subtask:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.delete("/api/items/:id/subtasks/:subtaskId", isAuthenticated, requiresItemOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const item = (req as any).item as Item;
+      const { subtaskId } = subtaskParamsSchema.parse(req.params);
+
+      const subtask = await getItemSubtask(item, subtaskId);
+      await storage.deleteSubtask(subtask.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("[Subtasks] Error deleting subtask:", error);
+      handleError(error, res);
+    }
+  });
+}
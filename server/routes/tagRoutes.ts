@@ -0,0 +1,122 @@
+import type { Express } from "express";
+import { z } from "zod";
+import type { Item, Tag } from "@shared/schema";
+import { createTagSchema, updateTagSchema } from "@shared/schema";
+import { storage } from "../storage/index";
+import { isAuthenticated } from "../replit_integrations/auth";
+import { AuthenticatedRequest, getUserId } from "../middleware/auth";
+import { requiresItemOwnership, requiresTagOwnership } from "../middleware/authHelpers";
+import { handleError, errors } from "../lib/errors";
+
+// Validation schemas
+const itemTagParamsSchema = z.object({
+  tagId: z.string().regex(/^\d+$/).transform(Number)
+});
+
+export async function registerTagRoutes(app: Express) {
+  app.get("/api/tags", isAuthenticated, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const tags = await storage.getTagsByUserId(userId);
+      res.json(tags || []);
+    } catch (error) {
+      console.error("[Tags] Error fetching tags:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.post("/api/tags", isAuthenticated, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const { name, color } = createTagSchema.parse(req.body);
+
+      if (await storage.getTagByName(userId, name)) {
+        throw errors.conflict("A tag with this name already exists");
+      }
+
+      const tag = await storage.createTag({
+        userId,
+        name,
+        ...(color !== undefined && { color }),
+      });
+      res.json(tag);
+    } catch (error) {
+      console.error("[Tags] Error creating tag:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.patch("/api/tags/:id", isAuthenticated, requiresTagOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const tag = (req as any).tag as Tag;
+      const { name, color } = updateTagSchema.parse(req.body);
+
+      if (name !== undefined && name !== tag.name) {
+        const existing = await storage.getTagByName(tag.userId, name);
+        if (existing) {
+          throw errors.conflict("A tag with this name already exists");
+        }
+      }
+
+      const updated = await storage.updateTag(tag.id, {
+        ...(name !== undefined && { name }),
+        ...(color !== undefined && { color }),
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("[Tags] Error updating tag:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.delete("/api/tags/:id", isAuthenticated, requiresTagOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const tag = (req as any).tag as Tag;
+      await storage.deleteTag(tag.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("[Tags] Error deleting tag:", error);
+      handleError(error, res);
+    }
+  });
+
+  // Attach a tag to an item (idempotent)
+  app.put("/api/items/:id/tags/:tagId", isAuthenticated, requiresItemOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const item = (req as any).item as Item;
+      const { tagId } = itemTagParamsSchema.parse(req.params);
+
+      const tag = await storage.getTagById(tagId);
+      if (!tag || tag.userId !== item.userId) {
+        throw errors.notFound("Tag");
+      }
+
+      await storage.addTagToItem(item.id, tag.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("[Tags] Error attaching tag:", error);
+      handleError(error, res);
+    }
+  });
+
+  app.delete("/api/items/:id/tags/:tagId", isAuthenticated, requiresItemOwnership, async (req: AuthenticatedRequest, res) => {
+    try {
+      const item = (req as any).item as Item;
+      const { tagId } = itemTagParamsSchema.parse(req.params);
+
+      await storage.removeTagFromItem(item.id, tagId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("[Tags] Error detaching tag:", error);
+      handleError(error, res);
+    }
+  });
+}
@@ -1,6 +1,6 @@
 import type { Express } from "express";
 import { storage } from "../storage/index";
-import { insertUserSchema } from "@shared/schema";
+import { insertUserSchema, reminderLeadMinutesSchema, timezoneSchema, emailPreferencesSchema } from "@shared/schema";
 import Stripe from "stripe";
 import { isAuthenticated } from "../replit_integrations/auth";
 import { AuthenticatedRequest, getUserId } from "../middleware/auth";
@@ -32,7 +32,12 @@ const identifyUserInPostHog = (email: string, userId: string, additionalProperti
 const updateProfileSchema = z.object({
   firstName: z.string().min(1).max(50).optional(),
   lastName: z.string().min(1).max(50).optional(),
-  emailNotifications: z.boolean().optional()
+  emailNotifications: z.boolean().optional(),
+  reminderLeadMinutes: reminderLeadMinutesSchema.optional(),
+  digestFrequency: z.enum(["off", "daily", "weekly"]).optional(),
+  timezone: timezoneSchema.optional(),
+  digestOnly: z.boolean().optional(),
+  emailPreferences: emailPreferencesSchema.optional()
 });
 
 export async function registerUserRoutes(app: Express) {
@@ -197,7 +202,7 @@ export async function registerUserRoutes(app: Express) {
     try {
       // Validate request body
       const validatedData = updateProfileSchema.parse(req.body);
-      const { firstName, lastName, emailNotifications } = validatedData;
+      const { firstName, lastName, emailNotifications, reminderLeadMinutes, digestFrequency, timezone, digestOnly, emailPreferences } = validatedData;
       const userId = getUserId(req);
 
       if (!userId) {
@@ -214,6 +219,12 @@ export async function registerUserRoutes(app: Express) {
         ...(firstName !== undefined && { firstName }),
         ...(lastName !== undefined && { lastName }),
         ...(emailNotifications !== undefined && { emailNotifications }),
+        ...(reminderLeadMinutes !== undefined && { reminderLeadMinutes }),
+        ...(digestFrequency !== undefined && { digestFrequency }),
+        ...(timezone !== undefined && { timezone }),
+        ...(digestOnly !== undefined && { digestOnly }),
+        // Categories left out of the request keep their current setting
+        ...(emailPreferences !== undefined && { emailPreferences: { ...user.emailPreferences, ...emailPreferences } }),
       });
 
       res.json(updatedUser);
@@ -244,6 +255,11 @@ export async function registerUserRoutes(app: Express) {
         firstName: user.firstName,
         lastName: user.lastName,
         emailNotifications: user.emailNotifications,
+        reminderLeadMinutes: user.reminderLeadMinutes,
+        digestFrequency: user.digestFrequency,
+        timezone: user.timezone,
+        digestOnly: user.digestOnly,
+        emailPreferences: user.emailPreferences,
         isPremium: user.isPremium,
         profileImageUrl: user.profileImageUrl
       });
@@ -1,48 +1,19 @@
 import type { Express, Request, Response } from "express";
-import { storage } from "../storage/index";
 import Stripe from "stripe";
-import express from 'express';
+import { WebhookEventStatus } from "@shared/schema";
 import { logSecurity } from '../lib/audit';
 import { getStripeClient } from '../lib/stripe';
+import { enqueueJob } from '../lib/jobs';
+import {
+  isAsyncWebhookMode,
+  processWebhookEvent,
+  recordStripeEvent,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_PROCESS_JOB,
+} from '../lib/stripeWebhooks';
 
 // Read endpoint secret at request time to allow for testing
 
-// Fulfillment helper function for checkout sessions
-async function fulfillCheckoutSession(session: Stripe.Checkout.Session, stripe: Stripe) {
-  const userId = session.metadata?.userId;
-  if (!userId) {
-    console.error('[Webhook] No user ID in session metadata');
-    return;
-  }
-
-  try {
-    // Handle subscription completion
-    if (session.mode === 'subscription' && session.subscription) {
-      // Update user subscription status
-      await storage.updateUser(userId, {
-        subscriptionType: 'pro'
-      });
-      
-      // Optional: Send confirmation email, update user permissions, etc.
-      // await sendSubscriptionConfirmationEmail(userId);
-      
-    } else if (session.mode === 'payment' && session.payment_intent) {
-      // Handle one-time payment fulfillment
-      // You can add custom logic here based on what was purchased
-      const lineItems = await stripe.checkout.sessions.listLineItems(session.id, {
-        expand: ['data.price.product']
-      });
-      
-      // Optional: Process specific products, send digital goods, etc.
-      // await processOneTimePayment(userId, lineItems);
-    }
-    
-  } catch (error) {
-    console.error('[Webhook] Error fulfilling checkout session:', error);
-    throw error;
-  }
-}
-
 export async function registerWebhookRoutes(app: Express) {
   // Raw body parsing for Stripe webhooks is now handled at top level
   // before global express.json() middleware
@@ -76,101 +47,23 @@ export async function registerWebhookRoutes(app: Express) {
     }
 
     try {
-      // Handle the event
-      switch (event.type) {
-        // New Checkout Session events
-        case 'checkout.session.completed':
-          const checkoutSession = event.data.object as Stripe.Checkout.Session;
-          
-          // Only fulfill if payment was successful
-          if (checkoutSession.payment_status === 'paid') {
-            await fulfillCheckoutSession(checkoutSession, stripe);
-          }
-          break;
-
-        case 'checkout.session.expired':
-          const expiredSession = event.data.object as Stripe.Checkout.Session;
-          console.log('[Webhook] Checkout session expired:', expiredSession.id);
-          // Optional: Handle expired sessions (analytics, follow-up emails, etc.)
-          break;
-
-        // Subscription lifecycle events
-        case 'customer.subscription.created':
-          const newSubscription = event.data.object as Stripe.Subscription;
-          console.log('[Webhook] Subscription created:', newSubscription.id);
-          // Note: For checkout sessions, fulfillment is handled in checkout.session.completed
-          break;
-
-        case 'customer.subscription.updated':
-          const updatedSubscription = event.data.object as Stripe.Subscription;
-          
-          const userIdFromSub = updatedSubscription.metadata.userId;
-          if (userIdFromSub) {
-            // Handle subscription status changes
-            if (updatedSubscription.status === 'active') {
-              await storage.updateUser(userIdFromSub, {
-                subscriptionType: 'pro'
-              });
-            } else if (['canceled', 'unpaid', 'past_due'].includes(updatedSubscription.status)) {
-              await storage.updateUser(userIdFromSub, {
-                subscriptionType: 'free'
-              });
-            }
-          }
-          break;
-
-        case 'customer.subscription.deleted':
-          const deletedSubscription = event.data.object as Stripe.Subscription;
-          
-          const userIdFromDeleted = deletedSubscription.metadata.userId;
-          if (userIdFromDeleted) {
-            await storage.updateUser(userIdFromDeleted, {
-              subscriptionType: 'free'
-            });
-          }
-          break;
-
-        // Invoice events (for subscription billing)
-        case 'invoice.payment_succeeded':
-          // Note: Stripe v19 types don't include subscription property, but it exists at runtime
-          const paidInvoice = event.data.object as Stripe.Invoice & { subscription?: string | Stripe.Subscription | null };
-
-          // Ensure subscription is marked as active
-          if (paidInvoice.subscription && typeof paidInvoice.subscription === 'string') {
-            const subscription = await stripe.subscriptions.retrieve(paidInvoice.subscription);
-            const userIdFromInvoice = subscription.metadata.userId;
-
-            if (userIdFromInvoice) {
-              await storage.updateUser(userIdFromInvoice, {
-                subscriptionType: 'pro'
-              });
-            }
-          }
-          break;
-
-        case 'invoice.payment_failed':
-          // Note: Stripe v19 types don't include subscription property, but it exists at runtime
-          const failedInvoice = event.data.object as Stripe.Invoice & { subscription?: string | Stripe.Subscription | null };
-          console.log('[Webhook] Invoice payment failed:', failedInvoice.id);
-
-          // Optional: Handle failed invoice payments (send notification, etc.)
-          if (failedInvoice.subscription && typeof failedInvoice.subscription === 'string') {
-            const subscription = await stripe.subscriptions.retrieve(failedInvoice.subscription);
-            const userIdFromFailedInvoice = subscription.metadata.userId;
-
-            if (userIdFromFailedInvoice) {
-              // Don't immediately downgrade - Stripe will retry payment
-              console.log('[Webhook] Invoice payment failed for user:', userIdFromFailedInvoice);
-            }
-          }
-          break;
+      // Stripe retries deliveries, so every event is recorded once by its ID
+      const recorded = await recordStripeEvent(event);
+      if (recorded.status === WebhookEventStatus.PROCESSED) {
+        return res.json({ received: true, duplicate: true });
+      }
 
-        default:
-          // Silently ignore unhandled events
-          break;
+      if (isAsyncWebhookMode()) {
+        await enqueueJob(WEBHOOK_PROCESS_JOB, { eventId: event.id }, {
+          uniqueKey: `webhook:${event.id}`,
+          maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+        });
+        return res.json({ received: true });
       }
 
-      res.json({ received: true });
+      // False when another delivery of the same event is being handled
+      const processed = await processWebhookEvent(event.id, event);
+      res.json(processed ? { received: true } : { received: true, duplicate: true });
     } catch (err) {
       console.error('[Webhook] Error processing event:', err);
       res.status(500).json({ error: 'Failed to process webhook' });
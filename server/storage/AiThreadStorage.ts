@@ -0,0 +1,89 @@
+import {
+  type AiThread,
+  type InsertAiThread,
+  type AiMessage,
+  type InsertAiMessage,
+  aiThreads,
+  aiMessages,
+} from "@shared/schema";
+import { and, asc, desc, eq } from "drizzle-orm";
+import { db } from "../db";
+
+interface UpdateAiThreadData {
+  title?: string;
+  archived?: boolean;
+}
+
+export class AiThreadStorage {
+  async getThreadsByUserId(userId: string, archived: boolean = false): Promise<AiThread[]> {
+    return db
+      .select()
+      .from(aiThreads)
+      .where(and(eq(aiThreads.userId, userId), eq(aiThreads.archived, archived)))
+      .orderBy(desc(aiThreads.updatedAt));
+  }
+
+  async getThreadById(id: string): Promise<AiThread | undefined> {
+    const [thread] = await db.select().from(aiThreads).where(eq(aiThreads.id, id));
+    return thread;
+  }
+
+  async createThread(thread: InsertAiThread): Promise<AiThread> {
+    const [newThread] = await db.insert(aiThreads).values(thread).returning();
+    return newThread;
+  }
+
+  async updateThread(id: string, data: UpdateAiThreadData): Promise<AiThread> {
+    const [updatedThread] = await db
+      .update(aiThreads)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(aiThreads.id, id))
+      .returning();
+    return updatedThread;
+  }
+
+  async deleteThread(id: string): Promise<void> {
+    // Messages are removed by the ON DELETE CASCADE on ai_messages.thread_id
+    await db.delete(aiThreads).where(eq(aiThreads.id, id));
+  }
+
+  async getMessagesByThreadId(threadId: string): Promise<AiMessage[]> {
+    return db
+      .select()
+      .from(aiMessages)
+      .where(eq(aiMessages.threadId, threadId))
+      .orderBy(asc(aiMessages.createdAt));
+  }
+
+  async createMessage(message: InsertAiMessage): Promise<AiMessage> {
+    return db.transaction(async (tx) => {
+      const [newMessage] = await tx.insert(aiMessages).values(message).returning();
+      await tx
+        .update(aiThreads)
+        .set({ updatedAt: new Date() })
+        .where(eq(aiThreads.id, message.threadId));
+      return newMessage;
+    });
+  }
+
+  // Skips messages already stored under the same ID; returns how many were added
+  async saveMessages(threadId: string, messages: InsertAiMessage[]): Promise<number> {
+    if (messages.length === 0) return 0;
+    return db.transaction(async (tx) => {
+      const inserted = await tx
+        .insert(aiMessages)
+        .values(messages)
+        .onConflictDoNothing()
+        .returning({ id: aiMessages.id });
+      if (inserted.length > 0) {
+        await tx
+          .update(aiThreads)
+          .set({ updatedAt: new Date() })
+          .where(eq(aiThreads.id, threadId));
+      }
+      return inserted.length;
+    });
+  }
+}
+
+export { UpdateAiThreadData };
@@ -0,0 +1,82 @@
+import { type EmailOutbox, type InsertEmailOutbox, emailOutbox, EmailStatus } from "@shared/schema";
+import { and, asc, eq, inArray, lt, lte, sql } from "drizzle-orm";
+import { db } from "../db";
+
+export class EmailOutboxStorage {
+  async enqueueEmail(email: InsertEmailOutbox): Promise<EmailOutbox> {
+    const [created] = await db.insert(emailOutbox).values(email).returning();
+    return created;
+  }
+
+  /**
+   * Lock up to `limit` emails that are due for an attempt. SKIP LOCKED lets
+   * several instances drain the outbox without sending an email twice.
+   */
+  async claimDueEmails(now: Date, limit: number): Promise<EmailOutbox[]> {
+    return db.transaction(async (tx) => {
+      const due = await tx
+        .select({ id: emailOutbox.id })
+        .from(emailOutbox)
+        .where(and(eq(emailOutbox.status, EmailStatus.PENDING), lte(emailOutbox.nextAttemptAt, now)))
+        .orderBy(asc(emailOutbox.nextAttemptAt), asc(emailOutbox.id))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+      if (due.length === 0) {
+        return [];
+      }
+
+      return tx
+        .update(emailOutbox)
+        .set({
+          status: EmailStatus.SENDING,
+          attempts: sql`${emailOutbox.attempts} + 1`,
+          lockedAt: now,
+          updatedAt: now,
+        })
+        .where(inArray(emailOutbox.id, due.map(({ id }) => id)))
+        .returning();
+    });
+  }
+
+  async markEmailSent(id: number, providerMessageId: string | null): Promise<void> {
+    const now = new Date();
+    await db
+      .update(emailOutbox)
+      .set({ status: EmailStatus.SENT, providerMessageId, sentAt: now, lockedAt: null, lastError: null, updatedAt: now })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // Schedules another attempt at `retryAt`, or dead-letters the email when there is no retry
+  async markEmailFailed(id: number, error: string, retryAt: Date | null): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set({
+        status: retryAt ? EmailStatus.PENDING : EmailStatus.FAILED,
+        ...(retryAt && { nextAttemptAt: retryAt }),
+        lastError: error,
+        lockedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // Requeue emails whose worker stopped mid-send. They may be delivered twice,
+  // which is better than never.
+  async releaseStaleEmails(lockedBefore: Date): Promise<number> {
+    const released = await db
+      .update(emailOutbox)
+      .set({ status: EmailStatus.PENDING, lockedAt: null, updatedAt: new Date() })
+      .where(and(eq(emailOutbox.status, EmailStatus.SENDING), lt(emailOutbox.lockedAt, lockedBefore)))
+      .returning({ id: emailOutbox.id });
+    return released.length;
+  }
+
+  // Failed emails are kept for inspection; only delivered ones are deleted
+  async deleteSentEmails(sentBefore: Date): Promise<number> {
+    const deleted = await db
+      .delete(emailOutbox)
+      .where(and(eq(emailOutbox.status, EmailStatus.SENT), lt(emailOutbox.sentAt, sentBefore)))
+      .returning({ id: emailOutbox.id });
+    return deleted.length;
+  }
+}
@@ -0,0 +1,59 @@
+import { type File, type InsertFile, files } from "@shared/schema";
+import { desc, eq, sql } from "drizzle-orm";
+import { db } from "../db";
+
+interface UpdateFileData {
+  url?: string;
+  originalName?: string;
+}
+
+interface FileUsage {
+  fileCount: number;
+  totalBytes: number;
+}
+
+export class FileStorage {
+  async getFilesByUserId(userId: string): Promise<File[]> {
+    return db
+      .select()
+      .from(files)
+      .where(eq(files.userId, userId))
+      .orderBy(desc(files.createdAt));
+  }
+
+  async getFileById(id: number): Promise<File | undefined> {
+    const [file] = await db.select().from(files).where(eq(files.id, id));
+    return file;
+  }
+
+  async getFileUsageByUserId(userId: string): Promise<FileUsage> {
+    const [usage] = await db
+      .select({
+        fileCount: sql<number>`count(*)`.mapWith(Number),
+        totalBytes: sql<number>`coalesce(sum(${files.size}), 0)`.mapWith(Number),
+      })
+      .from(files)
+      .where(eq(files.userId, userId));
+    return usage ?? { fileCount: 0, totalBytes: 0 };
+  }
+
+  async createFile(file: InsertFile): Promise<File> {
+    const [newFile] = await db.insert(files).values(file).returning();
+    return newFile;
+  }
+
+  async updateFile(id: number, data: UpdateFileData): Promise<File> {
+    const [updatedFile] = await db
+      .update(files)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(files.id, id))
+      .returning();
+    return updatedFile;
+  }
+
+  async deleteFile(id: number): Promise<void> {
+    await db.delete(files).where(eq(files.id, id));
+  }
+}
+
+export { UpdateFileData, FileUsage };
@@ -0,0 +1,20 @@
+import { type ItemEvent, type InsertItemEvent, itemEvents } from "@shared/schema";
+import { desc, eq } from "drizzle-orm";
+import { db } from "../db";
+
+export class ItemEventStorage {
+  async getItemEventsByItemId(itemId: number): Promise<ItemEvent[]> {
+    return db
+      .select()
+      .from(itemEvents)
+      .where(eq(itemEvents.itemId, itemId))
+      .orderBy(desc(itemEvents.createdAt), desc(itemEvents.id));
+  }
+
+  async createItemEvents(events: InsertItemEvent[]): Promise<ItemEvent[]> {
+    if (events.length === 0) {
+      return [];
+    }
+    return db.insert(itemEvents).values(events).returning();
+  }
+}
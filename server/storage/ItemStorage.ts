@@ -1,22 +1,275 @@
-import { type Item, type InsertItem, items, type ItemStatus } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { type Item, type InsertItem, items, itemTags, subtasks, users, type ItemStatus, type ItemPriority, type BulkItemAction } from "@shared/schema";
+import { and, asc, desc, eq, gt, ilike, inArray, isNotNull, isNull, lt, lte, ne, or, sql, type SQL } from "drizzle-orm";
 import { db } from "../db";
+import { encodeCursor, type Cursor } from "../lib/pagination";
+
+const sortColumns = {
+  createdAt: items.createdAt,
+  updatedAt: items.updatedAt,
+  item: items.item,
+  position: items.position,
+} as const;
+
+type ItemSortField = keyof typeof sortColumns;
+
+interface ListItemsOptions {
+  status?: ItemStatus;
+  tag?: number;
+  q?: string;
+  sort: ItemSortField;
+  order: "asc" | "desc";
+  limit: number;
+  cursor?: Cursor;
+}
+
+interface ItemPage {
+  items: Item[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// Treat LIKE wildcards in user input literally
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+interface UpdateItemData {
+  item?: string;
+  description?: string | null;
+  dueDate?: Date | null;
+  priority?: ItemPriority | null;
+  recurrence?: string | null;
+}
+
+// An open item with an upcoming due date, with what is needed to email its owner
+interface DueItemReminder {
+  item: Item;
+  email: string;
+  reminderLeadMinutes: number[];
+}
+
+// Status counts and overdue items for a user's progress digest
+interface ItemDigest {
+  counts: Record<ItemStatus, number>;
+  overdueCount: number;
+  overdue: Item[];
+}
+
+// Overdue items listed in a digest; the rest are only counted
+const DIGEST_OVERDUE_LIMIT = 10;
+
+// Items in the trash are hidden from everything except the trash view and restore
+const notDeleted = isNull(items.deletedAt);
 
 export class ItemStorage {
   async getItemsByUserId(userId: string): Promise<Item[]> {
-    return db.select().from(items).where(eq(items.userId, userId));
+    return db
+      .select()
+      .from(items)
+      .where(and(eq(items.userId, userId), notDeleted))
+      .orderBy(asc(items.position), asc(items.id));
+  }
+
+  async getDeletedItemsByUserId(userId: string): Promise<Item[]> {
+    return db
+      .select()
+      .from(items)
+      .where(and(eq(items.userId, userId), isNotNull(items.deletedAt)))
+      .orderBy(desc(items.deletedAt), desc(items.id));
+  }
+
+  async listItems(userId: string, options: ListItemsOptions): Promise<ItemPage> {
+    const column = sortColumns[options.sort];
+    const direction = options.order === "asc" ? asc : desc;
+
+    const filters: SQL[] = [eq(items.userId, userId), notDeleted];
+    if (options.status) {
+      filters.push(eq(items.status, options.status));
+    }
+    if (options.tag !== undefined) {
+      const tagged = db.select({ itemId: itemTags.itemId }).from(itemTags).where(eq(itemTags.tagId, options.tag));
+      filters.push(inArray(items.id, tagged));
+    }
+    if (options.q) {
+      const pattern = `%${escapeLike(options.q)}%`;
+      filters.push(or(ilike(items.item, pattern), ilike(items.description, pattern))!);
+    }
+
+    const pageFilters = [...filters];
+    if (options.cursor) {
+      // Row comparison keeps (sort key, id) ordering stable across pages
+      const value = options.sort === "item"
+        ? sql`${options.cursor.value}`
+        : options.sort === "position"
+          ? sql`${options.cursor.value}::integer`
+          : sql`${options.cursor.value}::timestamp`;
+      const comparator = sql.raw(options.order === "asc" ? ">" : "<");
+      pageFilters.push(sql`(${column}, ${items.id}) ${comparator} (${value}, ${options.cursor.id})`);
+    }
+
+    const rows = await db
+      .select({ item: items, sortKey: sql<string>`${column}::text` })
+      .from(items)
+      .where(and(...pageFilters))
+      .orderBy(direction(column), direction(items.id))
+      .limit(options.limit + 1);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)`.mapWith(Number) })
+      .from(items)
+      .where(and(...filters));
+
+    const page = rows.slice(0, options.limit);
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map((row) => row.item),
+      total,
+      nextCursor: rows.length > options.limit && last
+        ? encodeCursor({ value: last.sortKey, id: last.item.id })
+        : null,
+    };
   }
 
   async getItemById(id: number): Promise<Item | undefined> {
-    const [item] = await db.select().from(items).where(eq(items.id, id));
+    const [item] = await db.select().from(items).where(and(eq(items.id, id), notDeleted));
     return item;
   }
 
   async createItem(item: InsertItem): Promise<Item> {
-    const [newItem] = await db.insert(items).values(item).returning();
+    // New items go to the end of the user's list
+    const [newItem] = await db
+      .insert(items)
+      .values({
+        ...item,
+        position: sql`(select coalesce(max(${items.position}), -1) + 1 from ${items} where ${items.userId} = ${item.userId})`,
+      })
+      .returning();
     return newItem;
   }
 
+  /**
+   * Create the next occurrence of a recurring item, due on `dueDate`, with the
+   * item's subtasks copied unchecked. The rule and tags move to the new item, so
+   * completing the same item twice cannot create two occurrences; returns
+   * undefined if the rule was already moved.
+   */
+  async createNextOccurrence(item: Item, dueDate: Date): Promise<Item | undefined> {
+    return db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(items)
+        .set({ recurrence: null, updatedAt: new Date() })
+        .where(and(eq(items.id, item.id), isNotNull(items.recurrence), notDeleted))
+        .returning({ id: items.id });
+      if (!claimed) {
+        return undefined;
+      }
+
+      const [next] = await tx
+        .insert(items)
+        .values({
+          userId: item.userId,
+          item: item.item,
+          status: "open",
+          description: item.description,
+          priority: item.priority,
+          recurrence: item.recurrence,
+          dueDate,
+          position: sql`(select coalesce(max(${items.position}), -1) + 1 from ${items} where ${items.userId} = ${item.userId})`,
+        })
+        .returning();
+
+      const tagRows = await tx.select({ tagId: itemTags.tagId }).from(itemTags).where(eq(itemTags.itemId, item.id));
+      if (tagRows.length > 0) {
+        await tx.insert(itemTags).values(tagRows.map(({ tagId }) => ({ itemId: next.id, tagId })));
+      }
+
+      const subtaskRows = await tx
+        .select({ title: subtasks.title, position: subtasks.position })
+        .from(subtasks)
+        .where(eq(subtasks.itemId, item.id));
+      if (subtaskRows.length > 0) {
+        await tx.insert(subtasks).values(subtaskRows.map(({ title, position }) => ({ itemId: next.id, title, position })));
+      }
+      return next;
+    });
+  }
+
+  // Unfinished items due in (from, to] whose owners have email notifications on
+  async getDueItemsForReminders(from: Date, to: Date): Promise<DueItemReminder[]> {
+    const rows = await db
+      .select({ item: items, email: users.email, reminderLeadMinutes: users.reminderLeadMinutes })
+      .from(items)
+      .innerJoin(users, eq(items.userId, users.id))
+      .where(and(
+        notDeleted,
+        ne(items.status, "completed"),
+        gt(items.dueDate, from),
+        lte(items.dueDate, to),
+        eq(users.emailNotifications, true),
+        isNotNull(users.email)
+      ))
+      .orderBy(asc(items.dueDate), asc(items.id));
+    return rows.map((row) => ({ ...row, email: row.email! }));
+  }
+
+  async getItemDigest(userId: string, overdueBefore: Date): Promise<ItemDigest> {
+    const owned = and(eq(items.userId, userId), notDeleted);
+    const rows = await db
+      .select({ status: items.status, count: sql<number>`count(*)::int` })
+      .from(items)
+      .where(owned)
+      .groupBy(items.status);
+
+    const counts: Record<ItemStatus, number> = { open: 0, in_progress: 0, completed: 0 };
+    for (const { status, count } of rows) {
+      counts[status] = count;
+    }
+
+    const isOverdue = and(owned, ne(items.status, "completed"), lt(items.dueDate, overdueBefore));
+    const [{ overdueCount }] = await db
+      .select({ overdueCount: sql<number>`count(*)::int` })
+      .from(items)
+      .where(isOverdue);
+    const overdue = await db
+      .select()
+      .from(items)
+      .where(isOverdue)
+      .orderBy(asc(items.dueDate), asc(items.id))
+      .limit(DIGEST_OVERDUE_LIMIT);
+
+    return { counts, overdueCount, overdue };
+  }
+
+  async reorderItems(userId: string, ids: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      // Lock the list so concurrent reorders apply one after the other
+      const rows = await tx
+        .select({ id: items.id })
+        .from(items)
+        .where(and(eq(items.userId, userId), notDeleted))
+        .orderBy(asc(items.position), asc(items.id))
+        .for("update");
+
+      // The moved items keep the slots they already occupy, so reordering a
+      // filtered view leaves everything outside it in place
+      const moved = new Set(ids);
+      const queue = [...ids];
+      const ordered = rows.map((row) => moved.has(row.id) ? queue.shift()! : row.id);
+
+      // Renumber the whole list in one statement
+      const values = sql.join(
+        ordered.map((id, position) => sql`(${id}::integer, ${position}::integer)`),
+        sql`, `
+      );
+      await tx.execute(sql`
+        update ${items} set position = v.position
+        from (values ${values}) as v(id, position)
+        where ${items.id} = v.id and ${items.userId} = ${userId}
+      `);
+    });
+  }
+
   async updateItemStatus(id: number, status: ItemStatus): Promise<Item> {
     const [updatedItem] = await db
       .update(items)
@@ -26,7 +279,100 @@ export class ItemStorage {
     return updatedItem;
   }
 
+  async updateItem(id: number, data: UpdateItemData): Promise<Item> {
+    const [updatedItem] = await db
+      .update(items)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(items.id, id))
+      .returning();
+    return updatedItem;
+  }
+
+  // Moves the item to the trash; purgeDeletedItems removes it for good later
   async deleteItem(id: number): Promise<void> {
-    await db.delete(items).where(eq(items.id, id));
+    await db
+      .update(items)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(items.id, id), notDeleted));
   }
-}
\ No newline at end of file
+
+  async restoreItem(userId: string, id: number): Promise<Item | undefined> {
+    const [restoredItem] = await db
+      .update(items)
+      .set({ deletedAt: null, updatedAt: new Date() })
+      .where(and(eq(items.id, id), eq(items.userId, userId), isNotNull(items.deletedAt)))
+      .returning();
+    return restoredItem;
+  }
+
+  async purgeDeletedItems(deletedBefore: Date): Promise<number> {
+    const rows = await db
+      .delete(items)
+      .where(and(isNotNull(items.deletedAt), lt(items.deletedAt, deletedBefore)))
+      .returning({ id: items.id });
+    return rows.length;
+  }
+
+  async getOwnedItemIds(userId: string, ids: number[]): Promise<number[]> {
+    const rows = await db
+      .select({ id: items.id })
+      .from(items)
+      .where(and(eq(items.userId, userId), inArray(items.id, ids), notDeleted));
+    return rows.map((row) => row.id);
+  }
+
+  async getItemsByIds(userId: string, ids: number[]): Promise<Item[]> {
+    return db
+      .select()
+      .from(items)
+      .where(and(eq(items.userId, userId), inArray(items.id, ids), notDeleted));
+  }
+
+  async applyBulkItemAction(userId: string, action: BulkItemAction): Promise<number> {
+    // Every statement is scoped to the user as well, so ids that are not
+    // theirs are skipped even if ownership changed after it was checked
+    const owned = and(eq(items.userId, userId), inArray(items.id, action.ids), notDeleted);
+
+    return db.transaction(async (tx) => {
+      switch (action.action) {
+        case "set_status": {
+          const rows = await tx
+            .update(items)
+            .set({ status: action.status, updatedAt: new Date() })
+            .where(owned)
+            .returning({ id: items.id });
+          return rows.length;
+        }
+        case "delete": {
+          // Same soft delete as deleteItem
+          const rows = await tx
+            .update(items)
+            .set({ deletedAt: new Date() })
+            .where(owned)
+            .returning({ id: items.id });
+          return rows.length;
+        }
+        case "tag": {
+          const ownedRows = await tx.select({ id: items.id }).from(items).where(owned);
+          const ownedIds = ownedRows.map((row) => row.id);
+          if (ownedIds.length === 0) {
+            return 0;
+          }
+          if (action.attached) {
+            await tx
+              .insert(itemTags)
+              .values(ownedIds.map((itemId) => ({ itemId, tagId: action.tagId })))
+              .onConflictDoNothing();
+          } else {
+            await tx
+              .delete(itemTags)
+              .where(and(eq(itemTags.tagId, action.tagId), inArray(itemTags.itemId, ownedIds)));
+          }
+          return ownedIds.length;
+        }
+      }
+    });
+  }
+}
+
+export { DueItemReminder, ItemDigest, UpdateItemData, ListItemsOptions, ItemPage, ItemSortField };
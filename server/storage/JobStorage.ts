@@ -0,0 +1,93 @@
+import { type Job, type InsertJob, jobs, JobStatus } from "@shared/schema";
+import { and, asc, eq, inArray, lt, lte, sql } from "drizzle-orm";
+import { db } from "../db";
+
+export class JobStorage {
+  // Returns undefined when a job with the same uniqueKey already exists
+  async enqueueJob(job: InsertJob): Promise<Job | undefined> {
+    const [created] = await db.insert(jobs).values(job).onConflictDoNothing().returning();
+    return created;
+  }
+
+  /**
+   * Lock up to `limit` due jobs for this worker. SKIP LOCKED lets several
+   * instances poll the same table without claiming a job twice.
+   */
+  async claimDueJobs(workerId: string, now: Date, limit: number): Promise<Job[]> {
+    return db.transaction(async (tx) => {
+      const due = await tx
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(and(eq(jobs.status, JobStatus.PENDING), lte(jobs.runAt, now)))
+        .orderBy(asc(jobs.runAt), asc(jobs.id))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+      if (due.length === 0) {
+        return [];
+      }
+
+      return tx
+        .update(jobs)
+        .set({
+          status: JobStatus.RUNNING,
+          attempts: sql`${jobs.attempts} + 1`,
+          lockedBy: workerId,
+          lockedAt: now,
+          updatedAt: now,
+        })
+        .where(inArray(jobs.id, due.map(({ id }) => id)))
+        .returning();
+    });
+  }
+
+  async completeJob(id: number): Promise<void> {
+    await db
+      .update(jobs)
+      .set({ status: JobStatus.COMPLETED, lockedBy: null, lockedAt: null, updatedAt: new Date() })
+      .where(eq(jobs.id, id));
+  }
+
+  // Puts the job back in the queue at `retryAt`, or marks it failed when there is no retry
+  async failJob(id: number, error: string, retryAt: Date | null): Promise<void> {
+    await db
+      .update(jobs)
+      .set({
+        status: retryAt ? JobStatus.PENDING : JobStatus.FAILED,
+        ...(retryAt && { runAt: retryAt }),
+        lastError: error,
+        lockedBy: null,
+        lockedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(jobs.id, id));
+  }
+
+  // Lets a job with the same key be enqueued again, e.g. once this one is out of retries
+  async releaseJobUniqueKey(id: number): Promise<void> {
+    await db
+      .update(jobs)
+      .set({ uniqueKey: null, updatedAt: new Date() })
+      .where(eq(jobs.id, id));
+  }
+
+  // Requeue jobs whose worker stopped before finishing them
+  async releaseStaleJobs(lockedBefore: Date): Promise<number> {
+    const released = await db
+      .update(jobs)
+      .set({ status: JobStatus.PENDING, lockedBy: null, lockedAt: null, updatedAt: new Date() })
+      .where(and(eq(jobs.status, JobStatus.RUNNING), lt(jobs.lockedAt, lockedBefore)))
+      .returning({ id: jobs.id });
+    return released.length;
+  }
+
+  async deleteFinishedJobs(finishedBefore: Date): Promise<number> {
+    const deleted = await db
+      .delete(jobs)
+      .where(and(
+        inArray(jobs.status, [JobStatus.COMPLETED, JobStatus.FAILED]),
+        lt(jobs.updatedAt, finishedBefore)
+      ))
+      .returning({ id: jobs.id });
+    return deleted.length;
+  }
+}
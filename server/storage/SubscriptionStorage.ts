@@ -0,0 +1,43 @@
+import { type Subscription, type InsertSubscription, subscriptions } from "@shared/schema";
+import { desc, eq, isNull, lte, or, sql } from "drizzle-orm";
+import { db } from "../db";
+
+export class SubscriptionStorage {
+  /**
+   * Webhooks can arrive more than once and out of order, so writes are keyed by
+   * the Stripe ID and skipped when the stored state is newer than `lastEventAt`.
+   * Returns undefined when the write was skipped.
+   */
+  async upsertSubscription(subscription: InsertSubscription): Promise<Subscription | undefined> {
+    const [saved] = await db
+      .insert(subscriptions)
+      .values(subscription)
+      .onConflictDoUpdate({
+        target: subscriptions.stripeSubscriptionId,
+        set: {
+          ...subscription,
+          updatedAt: new Date(),
+        },
+        setWhere: or(isNull(subscriptions.lastEventAt), lte(subscriptions.lastEventAt, sql`excluded.last_event_at`)),
+      })
+      .returning();
+    return saved;
+  }
+
+  async getSubscriptionByStripeId(stripeSubscriptionId: string): Promise<Subscription | undefined> {
+    const [subscription] = await db
+      .select()
+      .from(subscriptions)
+      .where(eq(subscriptions.stripeSubscriptionId, stripeSubscriptionId));
+    return subscription;
+  }
+
+  // Newest first
+  async getSubscriptionsByUserId(userId: string): Promise<Subscription[]> {
+    return db
+      .select()
+      .from(subscriptions)
+      .where(eq(subscriptions.userId, userId))
+      .orderBy(desc(subscriptions.createdAt), desc(subscriptions.id));
+  }
+}
@@ -0,0 +1,89 @@
+import { type Subtask, type InsertSubtask, subtasks } from "@shared/schema";
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "../db";
+
+interface UpdateSubtaskData {
+  title?: string;
+  completed?: boolean;
+}
+
+interface SubtaskProgress {
+  total: number;
+  completed: number;
+}
+
+export class SubtaskStorage {
+  async getSubtasksByItemId(itemId: number): Promise<Subtask[]> {
+    return db
+      .select()
+      .from(subtasks)
+      .where(eq(subtasks.itemId, itemId))
+      .orderBy(asc(subtasks.position), asc(subtasks.id));
+  }
+
+  async getSubtaskById(id: number): Promise<Subtask | undefined> {
+    const [subtask] = await db.select().from(subtasks).where(eq(subtasks.id, id));
+    return subtask;
+  }
+
+  async createSubtask(subtask: InsertSubtask): Promise<Subtask> {
+    // New subtasks go to the end of the item's checklist
+    const [newSubtask] = await db
+      .insert(subtasks)
+      .values({
+        ...subtask,
+        position: sql`(select coalesce(max(${subtasks.position}), -1) + 1 from ${subtasks} where ${subtasks.itemId} = ${subtask.itemId})`,
+      })
+      .returning();
+    return newSubtask;
+  }
+
+  async updateSubtask(id: number, data: UpdateSubtaskData): Promise<Subtask> {
+    const [updatedSubtask] = await db
+      .update(subtasks)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(subtasks.id, id))
+      .returning();
+    return updatedSubtask;
+  }
+
+  async deleteSubtask(id: number): Promise<void> {
+    await db.delete(subtasks).where(eq(subtasks.id, id));
+  }
+
+  async reorderSubtasks(itemId: number, ids: number[]): Promise<Subtask[]> {
+    await db.transaction(async (tx) => {
+      for (let position = 0; position < ids.length; position++) {
+        await tx
+          .update(subtasks)
+          .set({ position, updatedAt: new Date() })
+          .where(and(eq(subtasks.id, ids[position]), eq(subtasks.itemId, itemId)));
+      }
+    });
+    return this.getSubtasksByItemId(itemId);
+  }
+
+  async getSubtaskProgress(itemIds: number[]): Promise<Record<number, SubtaskProgress>> {
+    const progressByItem: Record<number, SubtaskProgress> = {};
+    if (itemIds.length === 0) {
+      return progressByItem;
+    }
+
+    const rows = await db
+      .select({
+        itemId: subtasks.itemId,
+        total: sql<number>`count(*)::int`,
+        completed: sql<number>`(count(*) filter (where ${subtasks.completed}))::int`,
+      })
+      .from(subtasks)
+      .where(inArray(subtasks.itemId, itemIds))
+      .groupBy(subtasks.itemId);
+
+    for (const { itemId, total, completed } of rows) {
+      progressByItem[itemId] = { total, completed };
+    }
+    return progressByItem;
+  }
+}
+
+export { UpdateSubtaskData, SubtaskProgress };
@@ -0,0 +1,77 @@
+import { type Tag, type InsertTag, tags, itemTags } from "@shared/schema";
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { db } from "../db";
+
+interface UpdateTagData {
+  name?: string;
+  color?: string;
+}
+
+export class TagStorage {
+  async getTagsByUserId(userId: string): Promise<Tag[]> {
+    return db.select().from(tags).where(eq(tags.userId, userId)).orderBy(asc(tags.name));
+  }
+
+  async getTagById(id: number): Promise<Tag | undefined> {
+    const [tag] = await db.select().from(tags).where(eq(tags.id, id));
+    return tag;
+  }
+
+  async getTagByName(userId: string, name: string): Promise<Tag | undefined> {
+    const [tag] = await db
+      .select()
+      .from(tags)
+      .where(and(eq(tags.userId, userId), eq(tags.name, name)));
+    return tag;
+  }
+
+  async createTag(tag: InsertTag): Promise<Tag> {
+    const [newTag] = await db.insert(tags).values(tag).returning();
+    return newTag;
+  }
+
+  async updateTag(id: number, data: UpdateTagData): Promise<Tag> {
+    const [updatedTag] = await db
+      .update(tags)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(tags.id, id))
+      .returning();
+    return updatedTag;
+  }
+
+  async deleteTag(id: number): Promise<void> {
+    // Item links are removed by the ON DELETE CASCADE on item_tags.tag_id
+    await db.delete(tags).where(eq(tags.id, id));
+  }
+
+  async getTagsForItems(itemIds: number[]): Promise<Record<number, Tag[]>> {
+    const tagsByItem: Record<number, Tag[]> = {};
+    if (itemIds.length === 0) {
+      return tagsByItem;
+    }
+
+    const rows = await db
+      .select({ itemId: itemTags.itemId, tag: tags })
+      .from(itemTags)
+      .innerJoin(tags, eq(itemTags.tagId, tags.id))
+      .where(inArray(itemTags.itemId, itemIds))
+      .orderBy(asc(tags.name));
+
+    for (const { itemId, tag } of rows) {
+      (tagsByItem[itemId] ??= []).push(tag);
+    }
+    return tagsByItem;
+  }
+
+  async addTagToItem(itemId: number, tagId: number): Promise<void> {
+    await db.insert(itemTags).values({ itemId, tagId }).onConflictDoNothing();
+  }
+
+  async removeTagFromItem(itemId: number, tagId: number): Promise<void> {
+    await db
+      .delete(itemTags)
+      .where(and(eq(itemTags.itemId, itemId), eq(itemTags.tagId, tagId)));
+  }
+}
+
+export { UpdateTagData };
@@ -1,12 +1,18 @@
-import { type User, type InsertUser, users } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { type User, type InsertUser, type DigestFrequency, type EmailPreferences, type SubscriptionType, users } from "@shared/schema";
+import { and, eq, isNotNull, ne } from "drizzle-orm";
 import { db } from "../db";
 
 interface UpdateUserData {
   firstName?: string;
   lastName?: string;
   emailNotifications?: boolean;
-  subscriptionType?: "free" | "pro";
+  reminderLeadMinutes?: number[];
+  digestFrequency?: DigestFrequency;
+  timezone?: string;
+  digestOnly?: boolean;
+  emailPreferences?: EmailPreferences;
+  subscriptionType?: SubscriptionType;
+  isPremium?: boolean;
   stripeCustomerId?: string;
 }
 
@@ -21,6 +27,11 @@ export class UserStorage {
     return user;
   }
 
+  async getUserByStripeCustomerId(stripeCustomerId: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.stripeCustomerId, stripeCustomerId));
+    return user;
+  }
+
   async createUser(user: InsertUser): Promise<User> {
     const [newUser] = await db.insert(users).values(user).returning();
     return newUser;
@@ -41,6 +52,14 @@ export class UserStorage {
     return user;
   }
 
+  // Users who opted into a progress digest and have an email address
+  async getDigestUsers(): Promise<User[]> {
+    return db
+      .select()
+      .from(users)
+      .where(and(ne(users.digestFrequency, "off"), isNotNull(users.email)));
+  }
+
   async updateUser(id: string, data: UpdateUserData): Promise<User> {
     const [updatedUser] = await db
       .update(users)
@@ -0,0 +1,92 @@
+import { type WebhookEvent, type InsertWebhookEvent, webhookEvents, WebhookEventStatus } from "@shared/schema";
+import { and, asc, eq, gte, inArray, lt, or, sql } from "drizzle-orm";
+import { db } from "../db";
+
+export interface ListWebhookEventsOptions {
+  status?: WebhookEventStatus;
+  since?: Date;
+  limit: number;
+}
+
+export class WebhookEventStorage {
+  // Returns the stored row, which already exists when Stripe redelivers an event
+  async recordWebhookEvent(event: InsertWebhookEvent): Promise<WebhookEvent> {
+    const [created] = await db
+      .insert(webhookEvents)
+      .values(event)
+      .onConflictDoNothing({ target: webhookEvents.id })
+      .returning();
+    if (created) {
+      return created;
+    }
+
+    const [existing] = await db.select().from(webhookEvents).where(eq(webhookEvents.id, event.id));
+    return existing;
+  }
+
+  async getWebhookEvent(id: string): Promise<WebhookEvent | undefined> {
+    const [event] = await db.select().from(webhookEvents).where(eq(webhookEvents.id, id));
+    return event;
+  }
+
+  /**
+   * Lock an event for processing. Returns undefined when it was already processed
+   * or another delivery holds a lock taken after `lockedBefore`.
+   */
+  async claimWebhookEvent(id: string, now: Date, lockedBefore: Date): Promise<WebhookEvent | undefined> {
+    const [claimed] = await db
+      .update(webhookEvents)
+      .set({
+        status: WebhookEventStatus.PROCESSING,
+        attempts: sql`${webhookEvents.attempts} + 1`,
+        lockedAt: now,
+        updatedAt: now,
+      })
+      .where(and(
+        eq(webhookEvents.id, id),
+        or(
+          inArray(webhookEvents.status, [WebhookEventStatus.PENDING, WebhookEventStatus.FAILED]),
+          and(eq(webhookEvents.status, WebhookEventStatus.PROCESSING), lt(webhookEvents.lockedAt, lockedBefore)),
+        ),
+      ))
+      .returning();
+    return claimed;
+  }
+
+  async markWebhookEventProcessed(id: string): Promise<void> {
+    const now = new Date();
+    await db
+      .update(webhookEvents)
+      .set({ status: WebhookEventStatus.PROCESSED, processedAt: now, lockedAt: null, lastError: null, updatedAt: now })
+      .where(eq(webhookEvents.id, id));
+  }
+
+  async markWebhookEventFailed(id: string, error: string): Promise<void> {
+    await db
+      .update(webhookEvents)
+      .set({ status: WebhookEventStatus.FAILED, lastError: error, lockedAt: null, updatedAt: new Date() })
+      .where(eq(webhookEvents.id, id));
+  }
+
+  // Oldest first, so replays apply events in the order they were received
+  async listWebhookEvents({ status, since, limit }: ListWebhookEventsOptions): Promise<WebhookEvent[]> {
+    return db
+      .select()
+      .from(webhookEvents)
+      .where(and(
+        status ? eq(webhookEvents.status, status) : undefined,
+        since ? gte(webhookEvents.createdAt, since) : undefined,
+      ))
+      .orderBy(asc(webhookEvents.eventCreatedAt), asc(webhookEvents.id))
+      .limit(limit);
+  }
+
+  // Only processed events are deleted; failed ones wait for a replay
+  async deleteProcessedWebhookEvents(processedBefore: Date): Promise<number> {
+    const deleted = await db
+      .delete(webhookEvents)
+      .where(and(eq(webhookEvents.status, WebhookEventStatus.PROCESSED), lt(webhookEvents.processedAt, processedBefore)))
+      .returning({ id: webhookEvents.id });
+    return deleted.length;
+  }
+}
@@ -1,12 +1,57 @@
 import { UserStorage } from './UserStorage';
-import { ItemStorage } from './ItemStorage';
-import { type Item, type InsertItem, type ItemStatus, type User, type InsertUser } from "@shared/schema";
+import { ItemStorage, type UpdateItemData, type ListItemsOptions, type ItemPage, type ItemSortField, type DueItemReminder, type ItemDigest } from './ItemStorage';
+import { TagStorage, type UpdateTagData } from './TagStorage';
+import { ItemEventStorage } from './ItemEventStorage';
+import { SubtaskStorage, type UpdateSubtaskData, type SubtaskProgress } from './SubtaskStorage';
+import { FileStorage, type UpdateFileData, type FileUsage } from './FileStorage';
+import { AiThreadStorage, type UpdateAiThreadData } from './AiThreadStorage';
+import { JobStorage } from './JobStorage';
+import { EmailOutboxStorage } from './EmailOutboxStorage';
+import { SubscriptionStorage } from './SubscriptionStorage';
+import { WebhookEventStorage, type ListWebhookEventsOptions } from './WebhookEventStorage';
+import {
+  type Item,
+  type InsertItem,
+  type ItemStatus,
+  type BulkItemAction,
+  type ItemEvent,
+  type InsertItemEvent,
+  type Tag,
+  type InsertTag,
+  type Subtask,
+  type InsertSubtask,
+  type User,
+  type DigestFrequency,
+  type SubscriptionType,
+  type EmailPreferences,
+  type InsertUser,
+  type File,
+  type InsertFile,
+  type AiThread,
+  type InsertAiThread,
+  type AiMessage,
+  type InsertAiMessage,
+  type Job,
+  type InsertJob,
+  type EmailOutbox,
+  type InsertEmailOutbox,
+  type Subscription,
+  type InsertSubscription,
+  type WebhookEvent,
+  type InsertWebhookEvent,
+} from "@shared/schema";
 
 interface UpdateUserData {
   firstName?: string;
   lastName?: string;
   emailNotifications?: boolean;
-  subscriptionType?: "free" | "pro";
+  reminderLeadMinutes?: number[];
+  digestFrequency?: DigestFrequency;
+  timezone?: string;
+  digestOnly?: boolean;
+  emailPreferences?: EmailPreferences;
+  subscriptionType?: SubscriptionType;
+  isPremium?: boolean;
   stripeCustomerId?: string;
 }
 
@@ -14,24 +59,130 @@ export interface IStorage {
   // User operations
   getUserById(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByStripeCustomerId(stripeCustomerId: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   upsertUser(user: InsertUser): Promise<User>;
   updateUser(id: string, data: UpdateUserData): Promise<User>;
+  getDigestUsers(): Promise<User[]>;
 
   // Item operations
   getItemsByUserId(userId: string): Promise<Item[]>;
+  getDeletedItemsByUserId(userId: string): Promise<Item[]>;
+  listItems(userId: string, options: ListItemsOptions): Promise<ItemPage>;
+  getItemById(id: number): Promise<Item | undefined>;
   createItem(item: InsertItem): Promise<Item>;
+  reorderItems(userId: string, ids: number[]): Promise<void>;
   updateItemStatus(id: number, status: ItemStatus): Promise<Item>;
+  createNextOccurrence(item: Item, dueDate: Date): Promise<Item | undefined>;
+  updateItem(id: number, data: UpdateItemData): Promise<Item>;
   deleteItem(id: number): Promise<void>;
+  restoreItem(userId: string, id: number): Promise<Item | undefined>;
+  purgeDeletedItems(deletedBefore: Date): Promise<number>;
+  getOwnedItemIds(userId: string, ids: number[]): Promise<number[]>;
+  getItemsByIds(userId: string, ids: number[]): Promise<Item[]>;
+  applyBulkItemAction(userId: string, action: BulkItemAction): Promise<number>;
+  getDueItemsForReminders(from: Date, to: Date): Promise<DueItemReminder[]>;
+  getItemDigest(userId: string, overdueBefore: Date): Promise<ItemDigest>;
+
+  // Item history operations
+  getItemEventsByItemId(itemId: number): Promise<ItemEvent[]>;
+  createItemEvents(events: InsertItemEvent[]): Promise<ItemEvent[]>;
+
+  // Tag operations
+  getTagsByUserId(userId: string): Promise<Tag[]>;
+  getTagById(id: number): Promise<Tag | undefined>;
+  getTagByName(userId: string, name: string): Promise<Tag | undefined>;
+  createTag(tag: InsertTag): Promise<Tag>;
+  updateTag(id: number, data: UpdateTagData): Promise<Tag>;
+  deleteTag(id: number): Promise<void>;
+  getTagsForItems(itemIds: number[]): Promise<Record<number, Tag[]>>;
+  addTagToItem(itemId: number, tagId: number): Promise<void>;
+  removeTagFromItem(itemId: number, tagId: number): Promise<void>;
+
+  // Subtask operations
+  getSubtasksByItemId(itemId: number): Promise<Subtask[]>;
+  getSubtaskById(id: number): Promise<Subtask | undefined>;
+  createSubtask(subtask: InsertSubtask): Promise<Subtask>;
+  updateSubtask(id: number, data: UpdateSubtaskData): Promise<Subtask>;
+  deleteSubtask(id: number): Promise<void>;
+  reorderSubtasks(itemId: number, ids: number[]): Promise<Subtask[]>;
+  getSubtaskProgress(itemIds: number[]): Promise<Record<number, SubtaskProgress>>;
+
+  // File operations
+  getFilesByUserId(userId: string): Promise<File[]>;
+  getFileById(id: number): Promise<File | undefined>;
+  getFileUsageByUserId(userId: string): Promise<FileUsage>;
+  createFile(file: InsertFile): Promise<File>;
+  updateFile(id: number, data: UpdateFileData): Promise<File>;
+  deleteFile(id: number): Promise<void>;
+
+  // AI thread operations
+  getThreadsByUserId(userId: string, archived?: boolean): Promise<AiThread[]>;
+  getThreadById(id: string): Promise<AiThread | undefined>;
+  createThread(thread: InsertAiThread): Promise<AiThread>;
+  updateThread(id: string, data: UpdateAiThreadData): Promise<AiThread>;
+  deleteThread(id: string): Promise<void>;
+  getMessagesByThreadId(threadId: string): Promise<AiMessage[]>;
+  createMessage(message: InsertAiMessage): Promise<AiMessage>;
+  saveMessages(threadId: string, messages: InsertAiMessage[]): Promise<number>;
+
+  // Job operations
+  enqueueJob(job: InsertJob): Promise<Job | undefined>;
+  claimDueJobs(workerId: string, now: Date, limit: number): Promise<Job[]>;
+  completeJob(id: number): Promise<void>;
+  failJob(id: number, error: string, retryAt: Date | null): Promise<void>;
+  releaseJobUniqueKey(id: number): Promise<void>;
+  releaseStaleJobs(lockedBefore: Date): Promise<number>;
+  deleteFinishedJobs(finishedBefore: Date): Promise<number>;
+
+  // Email outbox operations
+  enqueueEmail(email: InsertEmailOutbox): Promise<EmailOutbox>;
+  claimDueEmails(now: Date, limit: number): Promise<EmailOutbox[]>;
+  markEmailSent(id: number, providerMessageId: string | null): Promise<void>;
+  markEmailFailed(id: number, error: string, retryAt: Date | null): Promise<void>;
+  releaseStaleEmails(lockedBefore: Date): Promise<number>;
+  deleteSentEmails(sentBefore: Date): Promise<number>;
+
+  // Subscription operations
+  upsertSubscription(subscription: InsertSubscription): Promise<Subscription | undefined>;
+  getSubscriptionByStripeId(stripeSubscriptionId: string): Promise<Subscription | undefined>;
+  getSubscriptionsByUserId(userId: string): Promise<Subscription[]>;
+
+  // Webhook event operations
+  recordWebhookEvent(event: InsertWebhookEvent): Promise<WebhookEvent>;
+  getWebhookEvent(id: string): Promise<WebhookEvent | undefined>;
+  claimWebhookEvent(id: string, now: Date, lockedBefore: Date): Promise<WebhookEvent | undefined>;
+  markWebhookEventProcessed(id: string): Promise<void>;
+  markWebhookEventFailed(id: string, error: string): Promise<void>;
+  listWebhookEvents(options: ListWebhookEventsOptions): Promise<WebhookEvent[]>;
+  deleteProcessedWebhookEvents(processedBefore: Date): Promise<number>;
 }
 
 export class PostgresStorage implements IStorage {
   private userStorage: UserStorage;
   private itemStorage: ItemStorage;
+  private itemEventStorage: ItemEventStorage;
+  private tagStorage: TagStorage;
+  private subtaskStorage: SubtaskStorage;
+  private fileStorage: FileStorage;
+  private aiThreadStorage: AiThreadStorage;
+  private jobStorage: JobStorage;
+  private emailOutboxStorage: EmailOutboxStorage;
+  private subscriptionStorage: SubscriptionStorage;
+  private webhookEventStorage: WebhookEventStorage;
 
   constructor() {
     this.userStorage = new UserStorage();
     this.itemStorage = new ItemStorage();
+    this.itemEventStorage = new ItemEventStorage();
+    this.tagStorage = new TagStorage();
+    this.subtaskStorage = new SubtaskStorage();
+    this.fileStorage = new FileStorage();
+    this.aiThreadStorage = new AiThreadStorage();
+    this.jobStorage = new JobStorage();
+    this.emailOutboxStorage = new EmailOutboxStorage();
+    this.subscriptionStorage = new SubscriptionStorage();
+    this.webhookEventStorage = new WebhookEventStorage();
   }
 
   // User operations
@@ -43,6 +194,10 @@ export class PostgresStorage implements IStorage {
     return this.userStorage.getUserByEmail(email);
   }
 
+  async getUserByStripeCustomerId(stripeCustomerId: string): Promise<User | undefined> {
+    return this.userStorage.getUserByStripeCustomerId(stripeCustomerId);
+  }
+
   async createUser(user: InsertUser): Promise<User> {
     return this.userStorage.createUser(user);
   }
@@ -55,23 +210,308 @@ export class PostgresStorage implements IStorage {
     return this.userStorage.updateUser(id, data);
   }
 
+  async getDigestUsers(): Promise<User[]> {
+    return this.userStorage.getDigestUsers();
+  }
+
   // Item operations
   async getItemsByUserId(userId: string): Promise<Item[]> {
     return this.itemStorage.getItemsByUserId(userId);
   }
 
+  async getDeletedItemsByUserId(userId: string): Promise<Item[]> {
+    return this.itemStorage.getDeletedItemsByUserId(userId);
+  }
+
+  async listItems(userId: string, options: ListItemsOptions): Promise<ItemPage> {
+    return this.itemStorage.listItems(userId, options);
+  }
+
+  async getItemById(id: number): Promise<Item | undefined> {
+    return this.itemStorage.getItemById(id);
+  }
+
   async createItem(item: InsertItem): Promise<Item> {
     return this.itemStorage.createItem(item);
   }
 
+  async reorderItems(userId: string, ids: number[]): Promise<void> {
+    return this.itemStorage.reorderItems(userId, ids);
+  }
+
   async updateItemStatus(id: number, status: ItemStatus): Promise<Item> {
     return this.itemStorage.updateItemStatus(id, status);
   }
 
+  async createNextOccurrence(item: Item, dueDate: Date): Promise<Item | undefined> {
+    return this.itemStorage.createNextOccurrence(item, dueDate);
+  }
+
+  async updateItem(id: number, data: UpdateItemData): Promise<Item> {
+    return this.itemStorage.updateItem(id, data);
+  }
+
   async deleteItem(id: number): Promise<void> {
     return this.itemStorage.deleteItem(id);
   }
+
+  async restoreItem(userId: string, id: number): Promise<Item | undefined> {
+    return this.itemStorage.restoreItem(userId, id);
+  }
+
+  async purgeDeletedItems(deletedBefore: Date): Promise<number> {
+    return this.itemStorage.purgeDeletedItems(deletedBefore);
+  }
+
+  async getOwnedItemIds(userId: string, ids: number[]): Promise<number[]> {
+    return this.itemStorage.getOwnedItemIds(userId, ids);
+  }
+
+  async getItemsByIds(userId: string, ids: number[]): Promise<Item[]> {
+    return this.itemStorage.getItemsByIds(userId, ids);
+  }
+
+  async applyBulkItemAction(userId: string, action: BulkItemAction): Promise<number> {
+    return this.itemStorage.applyBulkItemAction(userId, action);
+  }
+
+  async getDueItemsForReminders(from: Date, to: Date): Promise<DueItemReminder[]> {
+    return this.itemStorage.getDueItemsForReminders(from, to);
+  }
+
+  async getItemDigest(userId: string, overdueBefore: Date): Promise<ItemDigest> {
+    return this.itemStorage.getItemDigest(userId, overdueBefore);
+  }
+
+  // Item history operations
+  async getItemEventsByItemId(itemId: number): Promise<ItemEvent[]> {
+    return this.itemEventStorage.getItemEventsByItemId(itemId);
+  }
+
+  async createItemEvents(events: InsertItemEvent[]): Promise<ItemEvent[]> {
+    return this.itemEventStorage.createItemEvents(events);
+  }
+
+  // Tag operations
+  async getTagsByUserId(userId: string): Promise<Tag[]> {
+    return this.tagStorage.getTagsByUserId(userId);
+  }
+
+  async getTagById(id: number): Promise<Tag | undefined> {
+    return this.tagStorage.getTagById(id);
+  }
+
+  async getTagByName(userId: string, name: string): Promise<Tag | undefined> {
+    return this.tagStorage.getTagByName(userId, name);
+  }
+
+  async createTag(tag: InsertTag): Promise<Tag> {
+    return this.tagStorage.createTag(tag);
+  }
+
+  async updateTag(id: number, data: UpdateTagData): Promise<Tag> {
+    return this.tagStorage.updateTag(id, data);
+  }
+
+  async deleteTag(id: number): Promise<void> {
+    return this.tagStorage.deleteTag(id);
+  }
+
+  async getTagsForItems(itemIds: number[]): Promise<Record<number, Tag[]>> {
+    return this.tagStorage.getTagsForItems(itemIds);
+  }
+
+  async addTagToItem(itemId: number, tagId: number): Promise<void> {
+    return this.tagStorage.addTagToItem(itemId, tagId);
+  }
+
+  async removeTagFromItem(itemId: number, tagId: number): Promise<void> {
+    return this.tagStorage.removeTagFromItem(itemId, tagId);
+  }
+
+  // Subtask operations
+  async getSubtasksByItemId(itemId: number): Promise<Subtask[]> {
+    return this.subtaskStorage.getSubtasksByItemId(itemId);
+  }
+
+  async getSubtaskById(id: number): Promise<Subtask | undefined> {
+    return this.subtaskStorage.getSubtaskById(id);
+  }
+
+  async createSubtask(subtask: InsertSubtask): Promise<Subtask> {
+    return this.subtaskStorage.createSubtask(subtask);
+  }
+
+  async updateSubtask(id: number, data: UpdateSubtaskData): Promise<Subtask> {
+    return this.subtaskStorage.updateSubtask(id, data);
+  }
+
+  async deleteSubtask(id: number): Promise<void> {
+    return this.subtaskStorage.deleteSubtask(id);
+  }
+
+  async reorderSubtasks(itemId: number, ids: number[]): Promise<Subtask[]> {
+    return this.subtaskStorage.reorderSubtasks(itemId, ids);
+  }
+
+  async getSubtaskProgress(itemIds: number[]): Promise<Record<number, SubtaskProgress>> {
+    return this.subtaskStorage.getSubtaskProgress(itemIds);
+  }
+
+  // File operations
+  async getFilesByUserId(userId: string): Promise<File[]> {
+    return this.fileStorage.getFilesByUserId(userId);
+  }
+
+  async getFileById(id: number): Promise<File | undefined> {
+    return this.fileStorage.getFileById(id);
+  }
+
+  async getFileUsageByUserId(userId: string): Promise<FileUsage> {
+    return this.fileStorage.getFileUsageByUserId(userId);
+  }
+
+  async createFile(file: InsertFile): Promise<File> {
+    return this.fileStorage.createFile(file);
+  }
+
+  async updateFile(id: number, data: UpdateFileData): Promise<File> {
+    return this.fileStorage.updateFile(id, data);
+  }
+
+  async deleteFile(id: number): Promise<void> {
+    return this.fileStorage.deleteFile(id);
+  }
+
+  // AI thread operations
+  async getThreadsByUserId(userId: string, archived?: boolean): Promise<AiThread[]> {
+    return this.aiThreadStorage.getThreadsByUserId(userId, archived);
+  }
+
+  async getThreadById(id: string): Promise<AiThread | undefined> {
+    return this.aiThreadStorage.getThreadById(id);
+  }
+
+  async createThread(thread: InsertAiThread): Promise<AiThread> {
+    return this.aiThreadStorage.createThread(thread);
+  }
+
+  async updateThread(id: string, data: UpdateAiThreadData): Promise<AiThread> {
+    return this.aiThreadStorage.updateThread(id, data);
+  }
+
+  async deleteThread(id: string): Promise<void> {
+    return this.aiThreadStorage.deleteThread(id);
+  }
+
+  async getMessagesByThreadId(threadId: string): Promise<AiMessage[]> {
+    return this.aiThreadStorage.getMessagesByThreadId(threadId);
+  }
+
+  async createMessage(message: InsertAiMessage): Promise<AiMessage> {
+    return this.aiThreadStorage.createMessage(message);
+  }
+
+  async saveMessages(threadId: string, messages: InsertAiMessage[]): Promise<number> {
+    return this.aiThreadStorage.saveMessages(threadId, messages);
+  }
+
+  // Job operations
+  async enqueueJob(job: InsertJob): Promise<Job | undefined> {
+    return this.jobStorage.enqueueJob(job);
+  }
+
+  async claimDueJobs(workerId: string, now: Date, limit: number): Promise<Job[]> {
+    return this.jobStorage.claimDueJobs(workerId, now, limit);
+  }
+
+  async completeJob(id: number): Promise<void> {
+    return this.jobStorage.completeJob(id);
+  }
+
+  async failJob(id: number, error: string, retryAt: Date | null): Promise<void> {
+    return this.jobStorage.failJob(id, error, retryAt);
+  }
+
+  async releaseJobUniqueKey(id: number): Promise<void> {
+    return this.jobStorage.releaseJobUniqueKey(id);
+  }
+
+  async releaseStaleJobs(lockedBefore: Date): Promise<number> {
+    return this.jobStorage.releaseStaleJobs(lockedBefore);
+  }
+
+  async deleteFinishedJobs(finishedBefore: Date): Promise<number> {
+    return this.jobStorage.deleteFinishedJobs(finishedBefore);
+  }
+
+  // Email outbox operations
+  async enqueueEmail(email: InsertEmailOutbox): Promise<EmailOutbox> {
+    return this.emailOutboxStorage.enqueueEmail(email);
+  }
+
+  async claimDueEmails(now: Date, limit: number): Promise<EmailOutbox[]> {
+    return this.emailOutboxStorage.claimDueEmails(now, limit);
+  }
+
+  async markEmailSent(id: number, providerMessageId: string | null): Promise<void> {
+    return this.emailOutboxStorage.markEmailSent(id, providerMessageId);
+  }
+
+  async markEmailFailed(id: number, error: string, retryAt: Date | null): Promise<void> {
+    return this.emailOutboxStorage.markEmailFailed(id, error, retryAt);
+  }
+
+  async releaseStaleEmails(lockedBefore: Date): Promise<number> {
+    return this.emailOutboxStorage.releaseStaleEmails(lockedBefore);
+  }
+
+  async deleteSentEmails(sentBefore: Date): Promise<number> {
+    return this.emailOutboxStorage.deleteSentEmails(sentBefore);
+  }
+
+  // Subscription operations
+  async upsertSubscription(subscription: InsertSubscription): Promise<Subscription | undefined> {
+    return this.subscriptionStorage.upsertSubscription(subscription);
+  }
+
+  async getSubscriptionByStripeId(stripeSubscriptionId: string): Promise<Subscription | undefined> {
+    return this.subscriptionStorage.getSubscriptionByStripeId(stripeSubscriptionId);
+  }
+
+  async getSubscriptionsByUserId(userId: string): Promise<Subscription[]> {
+    return this.subscriptionStorage.getSubscriptionsByUserId(userId);
+  }
+
+  // Webhook event operations
+  async recordWebhookEvent(event: InsertWebhookEvent): Promise<WebhookEvent> {
+    return this.webhookEventStorage.recordWebhookEvent(event);
+  }
+
+  async getWebhookEvent(id: string): Promise<WebhookEvent | undefined> {
+    return this.webhookEventStorage.getWebhookEvent(id);
+  }
+
+  async claimWebhookEvent(id: string, now: Date, lockedBefore: Date): Promise<WebhookEvent | undefined> {
+    return this.webhookEventStorage.claimWebhookEvent(id, now, lockedBefore);
+  }
+
+  async markWebhookEventProcessed(id: string): Promise<void> {
+    return this.webhookEventStorage.markWebhookEventProcessed(id);
+  }
+
+  async markWebhookEventFailed(id: string, error: string): Promise<void> {
+    return this.webhookEventStorage.markWebhookEventFailed(id, error);
+  }
+
+  async listWebhookEvents(options: ListWebhookEventsOptions): Promise<WebhookEvent[]> {
+    return this.webhookEventStorage.listWebhookEvents(options);
+  }
+
+  async deleteProcessedWebhookEvents(processedBefore: Date): Promise<number> {
+    return this.webhookEventStorage.deleteProcessedWebhookEvents(processedBefore);
+  }
 }
 
 export const storage = new PostgresStorage();
-export { UpdateUserData };
+export { UpdateUserData, UpdateItemData, DueItemReminder, ItemDigest, ListItemsOptions, ItemPage, ItemSortField, UpdateTagData, UpdateSubtaskData, SubtaskProgress, UpdateFileData, FileUsage, UpdateAiThreadData, ListWebhookEventsOptions };
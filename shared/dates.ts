@@ -0,0 +1,13 @@
+// Date formatting shared by the client and the server's emails.
+
+/**
+ * Format an item due date. Due dates are stored as UTC midnight, so they are
+ * formatted in UTC: in a local time zone west of UTC they would show the day before.
+ */
+export function formatDueDate(
+  dueDate: Date | string,
+  options: Intl.DateTimeFormatOptions = {},
+  locale?: string,
+): string {
+  return new Date(dueDate).toLocaleDateString(locale, { ...options, timeZone: "UTC" });
+}
@@ -0,0 +1,198 @@
+// Item recurrence rules, stored as a subset of iCalendar RRULE: FREQ (DAILY,
+// WEEKLY or MONTHLY), INTERVAL, BYDAY (weekly only) and BYMONTHDAY (monthly only).
+// Kept free of server dependencies so the client can describe rules too.
+
+export const RECURRENCE_FREQUENCIES = ["daily", "weekly", "monthly"] as const;
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+// Monday first, matching how weeks are counted for INTERVAL
+export const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export const MAX_RECURRENCE_INTERVAL = 365;
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays?: Weekday[];
+  monthDay?: number;
+}
+
+const SUPPORTED_PARTS = ["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseInteger(value: string, name: string, max: number): number {
+  const number = /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!Number.isInteger(number) || number < 1 || number > max) {
+    throw new Error(`${name} must be a whole number from 1 to ${max}`);
+  }
+  return number;
+}
+
+/**
+ * Parse an RRULE string (with or without the "RRULE:" prefix). Throws an Error
+ * describing the problem when the rule is outside the supported subset.
+ */
+export function parseRecurrence(rrule: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of rrule.trim().replace(/^RRULE:/i, "").split(";")) {
+    if (!part) continue;
+    const [key, value, ...rest] = part.split("=");
+    const name = key.trim().toUpperCase();
+    if (!value || rest.length > 0) {
+      throw new Error(`Invalid recurrence part "${part}"`);
+    }
+    if (!SUPPORTED_PARTS.includes(name)) {
+      throw new Error(`Unsupported recurrence part ${name}`);
+    }
+    if (parts.has(name)) {
+      throw new Error(`Duplicate recurrence part ${name}`);
+    }
+    parts.set(name, value.trim().toUpperCase());
+  }
+
+  const frequency = parts.get("FREQ")?.toLowerCase() as RecurrenceFrequency | undefined;
+  if (!frequency || !RECURRENCE_FREQUENCIES.includes(frequency)) {
+    throw new Error("FREQ must be DAILY, WEEKLY or MONTHLY");
+  }
+
+  const rule: RecurrenceRule = { frequency, interval: 1 };
+
+  const interval = parts.get("INTERVAL");
+  if (interval !== undefined) {
+    rule.interval = parseInteger(interval, "INTERVAL", MAX_RECURRENCE_INTERVAL);
+  }
+
+  const byDay = parts.get("BYDAY");
+  if (byDay !== undefined) {
+    if (frequency !== "weekly") {
+      throw new Error("BYDAY is only supported for weekly rules");
+    }
+    const days = byDay.split(",").map((day) => day.trim());
+    for (const day of days) {
+      if (!WEEKDAYS.includes(day as Weekday)) {
+        throw new Error(`Invalid weekday "${day}"`);
+      }
+    }
+    rule.weekdays = WEEKDAYS.filter((day) => days.includes(day));
+  }
+
+  const byMonthDay = parts.get("BYMONTHDAY");
+  if (byMonthDay !== undefined) {
+    if (frequency !== "monthly") {
+      throw new Error("BYMONTHDAY is only supported for monthly rules");
+    }
+    rule.monthDay = parseInteger(byMonthDay, "BYMONTHDAY", 31);
+  }
+
+  return rule;
+}
+
+// Normalized RRULE for a rule, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE"
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.weekdays?.length) parts.push(`BYDAY=${rule.weekdays.join(",")}`);
+  if (rule.monthDay !== undefined) parts.push(`BYMONTHDAY=${rule.monthDay}`);
+  return parts.join(";");
+}
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+  SU: "Sun",
+};
+
+const UNITS: Record<RecurrenceFrequency, [string, string]> = {
+  daily: ["Daily", "days"],
+  weekly: ["Weekly", "weeks"],
+  monthly: ["Monthly", "months"],
+};
+
+// Short human-readable label, e.g. "Every 2 weeks on Mon, Wed"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const [single, plural] = UNITS[rule.frequency];
+  let label = rule.interval === 1 ? single : `Every ${rule.interval} ${plural}`;
+  if (rule.weekdays?.length) {
+    label += ` on ${rule.weekdays.map((day) => WEEKDAY_NAMES[day]).join(", ")}`;
+  }
+  if (rule.monthDay !== undefined) {
+    label += ` on day ${rule.monthDay}`;
+  }
+  return label;
+}
+
+/**
+ * Pin a monthly rule without BYMONTHDAY to the day of `anchor`, the series' first
+ * due date. Otherwise each occurrence takes its day from the previous one, and a
+ * series starting on the 31st would stay on the 28th after February.
+ */
+export function anchorRecurrence(rule: RecurrenceRule, anchor: Date): RecurrenceRule {
+  return rule.frequency === "monthly" && rule.monthDay === undefined
+    ? { ...rule, monthDay: anchor.getUTCDate() }
+    : rule;
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+// 0 for Monday through 6 for Sunday
+function weekdayIndex(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * The first occurrence strictly after `after`, as a UTC midnight like stored due
+ * dates. `after` is treated as an occurrence, so weekly intervals count from its week.
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: Date): Date {
+  const from = startOfUtcDay(after);
+
+  switch (rule.frequency) {
+    case "daily":
+      return addDays(from, rule.interval);
+
+    case "weekly": {
+      if (!rule.weekdays?.length) {
+        return addDays(from, 7 * rule.interval);
+      }
+      const days = new Set(rule.weekdays.map((day) => WEEKDAYS.indexOf(day)));
+      const weekStart = addDays(from, -weekdayIndex(from));
+      let candidate = addDays(from, 1);
+      for (;;) {
+        const weeks = Math.floor((candidate.getTime() - weekStart.getTime()) / (7 * DAY_MS));
+        if (weeks % rule.interval === 0 && days.has(weekdayIndex(candidate))) {
+          return candidate;
+        }
+        candidate = addDays(candidate, 1);
+      }
+    }
+
+    case "monthly": {
+      const day = rule.monthDay ?? from.getUTCDate();
+      let year = from.getUTCFullYear();
+      let month = from.getUTCMonth();
+      // A later BYMONTHDAY can still fall in the current month
+      if (from.getUTCDate() >= Math.min(day, daysInMonth(year, month))) {
+        month += rule.interval;
+        year += Math.floor(month / 12);
+        month %= 12;
+      }
+      return new Date(Date.UTC(year, month, Math.min(day, daysInMonth(year, month))));
+    }
+  }
+}
@@ -1,16 +1,22 @@
 
-import { pgTable, text, serial, boolean, timestamp, varchar, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, varchar, jsonb, index, uniqueIndex, primaryKey } from "drizzle-orm/pg-core";
 import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { parseRecurrence, formatRecurrence, RECURRENCE_FREQUENCIES, WEEKDAYS, MAX_RECURRENCE_INTERVAL } from "./recurrence";
 
+// Plans in the catalog (server/lib/plans.ts), lowest first
 export const SubscriptionType = {
   FREE: "free",
-  PRO: "pro"
+  PRO: "pro",
+  TEAM: "team"
 } as const;
 
 export type SubscriptionType = typeof SubscriptionType[keyof typeof SubscriptionType];
 
+// Adding a plan here adds it to the users.subscription_type column
+export const SUBSCRIPTION_TYPES = Object.values(SubscriptionType) as [SubscriptionType, ...SubscriptionType[]];
+
 // Session storage table for Replit Auth
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
 export const sessions = pgTable(
@@ -23,6 +29,29 @@ export const sessions = pgTable(
   (table) => [index("IDX_session_expire").on(table.expire)]
 );
 
+export const DigestFrequency = {
+  OFF: "off",
+  DAILY: "daily",
+  WEEKLY: "weekly"
+} as const;
+
+export type DigestFrequency = typeof DigestFrequency[keyof typeof DigestFrequency];
+
+// Kinds of email a user can opt out of separately
+export const EmailCategory = {
+  ITEM_ACTIVITY: "item_activity",
+  REMINDERS: "reminders",
+  DIGESTS: "digests",
+  BILLING: "billing"
+} as const;
+
+export type EmailCategory = typeof EmailCategory[keyof typeof EmailCategory];
+
+export const EMAIL_CATEGORIES = Object.values(EmailCategory);
+
+// Categories missing from a user's preferences are enabled
+export type EmailPreferences = Partial<Record<EmailCategory, boolean>>;
+
 // User storage table for Replit Auth
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
 export const users = pgTable("users", {
@@ -36,8 +65,16 @@ export const users = pgTable("users", {
   state: text("state").notNull().default(""),
   postalCode: text("postal_code").notNull().default(""),
   isPremium: boolean("is_premium").notNull().default(false),
-  subscriptionType: text("subscription_type", { enum: ["free", "pro"] }).notNull().default("free"),
+  subscriptionType: text("subscription_type", { enum: SUBSCRIPTION_TYPES }).notNull().default(SubscriptionType.FREE),
   emailNotifications: boolean("email_notifications").notNull().default(false),
+  // How long before an item's due date to email a reminder, in minutes
+  reminderLeadMinutes: jsonb("reminder_lead_minutes").$type<number[]>().notNull().default([1440]),
+  // Progress digest email schedule, sent in the morning of the user's timezone
+  digestFrequency: text("digest_frequency", { enum: ["off", "daily", "weekly"] }).notNull().default("off"),
+  timezone: text("timezone").notNull().default("UTC"),
+  // Skip per-item emails while a digest is on
+  digestOnly: boolean("digest_only").notNull().default(false),
+  emailPreferences: jsonb("email_preferences").$type<EmailPreferences>().notNull().default({}),
   stripeCustomerId: text("stripe_customer_id"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -51,14 +88,115 @@ export const ItemStatus = {
 
 export type ItemStatus = typeof ItemStatus[keyof typeof ItemStatus];
 
+export const ItemPriority = {
+  LOW: "low",
+  MEDIUM: "medium",
+  HIGH: "high"
+} as const;
+
+export type ItemPriority = typeof ItemPriority[keyof typeof ItemPriority];
+
 export const items = pgTable("items", {
   id: serial("id").primaryKey(),
   item: text("item").notNull(),
   userId: text("user_id").notNull().references(() => users.id),
   status: text("status", { enum: ["open", "in_progress", "completed"] }).notNull().default("open"),
+  description: text("description"),
+  dueDate: timestamp("due_date"),
+  priority: text("priority", { enum: ["low", "medium", "high"] }),
+  // Normalized RRULE (see shared/recurrence.ts); completing the item creates the next occurrence
+  recurrence: text("recurrence"),
+  // Manual list order, ascending; new items are appended
+  position: integer("position").notNull().default(0),
+  // Set when the item is moved to the trash; purged after the retention period
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => [
+  // Keyset pagination on GET /api/items sorts within a user's rows
+  index("IDX_items_user_created").on(table.userId, table.createdAt, table.id),
+  index("IDX_items_user_updated").on(table.userId, table.updatedAt, table.id),
+  index("IDX_items_user_item").on(table.userId, table.item, table.id),
+  index("IDX_items_user_position").on(table.userId, table.position, table.id),
+  index("IDX_items_user_status").on(table.userId, table.status),
+  index("IDX_items_deleted_at").on(table.deletedAt),
+  // Trigram indexes for the ?q= substring search (needs the pg_trgm extension)
+  index("IDX_items_item_trgm").using("gin", table.item.op("gin_trgm_ops")),
+  index("IDX_items_description_trgm").using("gin", table.description.op("gin_trgm_ops")),
+]);
+
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  color: text("color").notNull().default("#6b7280"),
+  userId: text("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [uniqueIndex("UQ_tags_user_name").on(table.userId, table.name)]);
+
+export const itemTags = pgTable("item_tags", {
+  itemId: integer("item_id").notNull().references(() => items.id, { onDelete: 'cascade' }),
+  tagId: integer("tag_id").notNull().references(() => tags.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.itemId, table.tagId] }),
+  index("IDX_item_tags_tag_id").on(table.tagId),
+]);
+
+export const subtasks = pgTable("subtasks", {
+  id: serial("id").primaryKey(),
+  itemId: integer("item_id").notNull().references(() => items.id, { onDelete: 'cascade' }),
+  title: text("title").notNull(),
+  completed: boolean("completed").notNull().default(false),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [index("IDX_subtasks_item_position").on(table.itemId, table.position)]);
+
+export const ItemEventType = {
+  CREATED: "created",
+  STATUS_CHANGED: "status_changed",
+  EDITED: "edited",
+  DELETED: "deleted",
+  RESTORED: "restored"
+} as const;
+
+export type ItemEventType = typeof ItemEventType[keyof typeof ItemEventType];
+
+// Where a change was made: the app UI or a ChatKit agent tool call
+export const ItemEventSource = {
+  UI: "ui",
+  AGENT: "agent"
+} as const;
+
+export type ItemEventSource = typeof ItemEventSource[keyof typeof ItemEventSource];
+
+// Field name to its value before and after the change
+export type ItemEventChanges = Record<string, { from?: unknown; to?: unknown }>;
+
+export const itemEvents = pgTable("item_events", {
+  id: serial("id").primaryKey(),
+  itemId: integer("item_id").notNull().references(() => items.id, { onDelete: 'cascade' }),
+  // Who made the change
+  userId: text("user_id").notNull().references(() => users.id),
+  type: text("type", { enum: ["created", "status_changed", "edited", "deleted", "restored"] }).notNull(),
+  source: text("source", { enum: ["ui", "agent"] }).notNull(),
+  changes: jsonb("changes").$type<ItemEventChanges>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("IDX_item_events_item_created").on(table.itemId, table.createdAt)]);
+
+export const files = pgTable("files", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  originalName: text("original_name").notNull(),
+  path: text("path").notNull(),
+  url: text("url").notNull(),
+  size: integer("size").notNull(),
+  type: text("type").notNull(),
+  userId: text("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [index("IDX_files_user_id").on(table.userId)]);
 
 export const aiThreads = pgTable("ai_threads", {
   id: text("id").primaryKey(),
@@ -77,16 +215,202 @@ export const aiMessages = pgTable("ai_messages", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+export const JobStatus = {
+  PENDING: "pending",
+  RUNNING: "running",
+  COMPLETED: "completed",
+  FAILED: "failed"
+} as const;
+
+export type JobStatus = typeof JobStatus[keyof typeof JobStatus];
+
+// Background jobs run by the in-process scheduler (server/lib/jobs.ts)
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}),
+  status: text("status", { enum: ["pending", "running", "completed", "failed"] }).notNull().default("pending"),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  lastError: text("last_error"),
+  // Instance holding the job while it runs; stale locks are released after a timeout
+  lockedBy: text("locked_by"),
+  lockedAt: timestamp("locked_at"),
+  // Enqueueing a job whose key already exists is a no-op
+  uniqueKey: text("unique_key"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_jobs_status_run_at").on(table.status, table.runAt),
+  uniqueIndex("UQ_jobs_unique_key").on(table.uniqueKey),
+]);
+
+export const EmailStatus = {
+  PENDING: "pending",
+  SENDING: "sending",
+  SENT: "sent",
+  FAILED: "failed"
+} as const;
+
+export type EmailStatus = typeof EmailStatus[keyof typeof EmailStatus];
+
+// Outgoing emails, delivered and retried by the outbox worker (server/lib/emailOutbox.ts)
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  to: text("to").notNull(),
+  subject: text("subject").notNull(),
+  text: text("text").notNull(),
+  html: text("html"),
+  // Extra headers such as List-Unsubscribe
+  headers: jsonb("headers").$type<Record<string, string>>(),
+  // Where replies go when the sender is not the app, e.g. a user sharing a list
+  replyTo: text("reply_to"),
+  // Template the message was rendered from, for debugging
+  template: text("template"),
+  status: text("status", { enum: ["pending", "sending", "sent", "failed"] }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lastError: text("last_error"),
+  lockedAt: timestamp("locked_at"),
+  // Message ID returned by the mail provider, for tracing deliveries
+  providerMessageId: text("provider_message_id"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_email_outbox_status_next_attempt_at").on(table.status, table.nextAttemptAt),
+]);
+
+// Stripe subscription statuses, see https://docs.stripe.com/billing/subscriptions/overview#subscription-statuses
+export const SubscriptionStatus = {
+  INCOMPLETE: "incomplete",
+  INCOMPLETE_EXPIRED: "incomplete_expired",
+  TRIALING: "trialing",
+  ACTIVE: "active",
+  PAST_DUE: "past_due",
+  CANCELED: "canceled",
+  UNPAID: "unpaid",
+  PAUSED: "paused"
+} as const;
+
+export type SubscriptionStatus = typeof SubscriptionStatus[keyof typeof SubscriptionStatus];
+
+export const SUBSCRIPTION_STATUSES = Object.values(SubscriptionStatus) as [SubscriptionStatus, ...SubscriptionStatus[]];
+
+// Stripe subscriptions as last reported by webhooks. A user's plan is derived
+// from these rows (server/lib/subscriptions.ts) and cached on users.subscriptionType.
+export const subscriptions = pgTable("subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  stripeSubscriptionId: text("stripe_subscription_id").notNull().unique(),
+  stripeCustomerId: text("stripe_customer_id"),
+  stripePriceId: text("stripe_price_id"),
+  status: text("status", { enum: SUBSCRIPTION_STATUSES }).notNull(),
+  currentPeriodEnd: timestamp("current_period_end"),
+  // Set when the user canceled; the plan lasts until currentPeriodEnd
+  cancelAtPeriodEnd: boolean("cancel_at_period_end").notNull().default(false),
+  trialEnd: timestamp("trial_end"),
+  canceledAt: timestamp("canceled_at"),
+  // Set when a payment first fails; the plan is kept until then while Stripe retries
+  gracePeriodEndsAt: timestamp("grace_period_ends_at"),
+  // When Stripe reported the stored state; older webhook events are ignored
+  lastEventAt: timestamp("last_event_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_subscriptions_user_id").on(table.userId),
+]);
+
+export const WebhookEventStatus = {
+  PENDING: "pending",
+  PROCESSING: "processing",
+  PROCESSED: "processed",
+  FAILED: "failed"
+} as const;
+
+export type WebhookEventStatus = typeof WebhookEventStatus[keyof typeof WebhookEventStatus];
+
+// Every Stripe event we accepted, keyed by Stripe's event ID so redeliveries
+// are not applied twice (server/lib/stripeWebhooks.ts)
+export const webhookEvents = pgTable("webhook_events", {
+  id: text("id").primaryKey(),
+  type: text("type").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  // When Stripe created the event, which orders changes to the same object
+  eventCreatedAt: timestamp("event_created_at").notNull(),
+  status: text("status", { enum: ["pending", "processing", "processed", "failed"] }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  lockedAt: timestamp("locked_at"),
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_webhook_events_status_created_at").on(table.status, table.createdAt),
+]);
+
 export const usersRelations = relations(users, ({ many }) => ({
   items: many(items),
+  tags: many(tags),
+  files: many(files),
   aiThreads: many(aiThreads),
+  subscriptions: many(subscriptions),
 }));
 
-export const itemsRelations = relations(items, ({ one }) => ({
+export const itemsRelations = relations(items, ({ one, many }) => ({
   user: one(users, {
     fields: [items.userId],
     references: [users.id],
   }),
+  itemTags: many(itemTags),
+  subtasks: many(subtasks),
+  events: many(itemEvents),
+}));
+
+export const tagsRelations = relations(tags, ({ one, many }) => ({
+  user: one(users, {
+    fields: [tags.userId],
+    references: [users.id],
+  }),
+  itemTags: many(itemTags),
+}));
+
+export const itemTagsRelations = relations(itemTags, ({ one }) => ({
+  item: one(items, {
+    fields: [itemTags.itemId],
+    references: [items.id],
+  }),
+  tag: one(tags, {
+    fields: [itemTags.tagId],
+    references: [tags.id],
+  }),
+}));
+
+export const subtasksRelations = relations(subtasks, ({ one }) => ({
+  item: one(items, {
+    fields: [subtasks.itemId],
+    references: [items.id],
+  }),
+}));
+
+export const itemEventsRelations = relations(itemEvents, ({ one }) => ({
+  item: one(items, {
+    fields: [itemEvents.itemId],
+    references: [items.id],
+  }),
+  user: one(users, {
+    fields: [itemEvents.userId],
+    references: [users.id],
+  }),
+}));
+
+export const filesRelations = relations(files, ({ one }) => ({
+  user: one(users, {
+    fields: [files.userId],
+    references: [users.id],
+  }),
 }));
 
 export const aiThreadsRelations = relations(aiThreads, ({ one, many }) => ({
@@ -104,6 +428,13 @@ export const aiMessagesRelations = relations(aiMessages, ({ one }) => ({
   }),
 }));
 
+export const subscriptionsRelations = relations(subscriptions, ({ one }) => ({
+  user: one(users, {
+    fields: [subscriptions.userId],
+    references: [users.id],
+  }),
+}));
+
 export const insertUserSchema = createInsertSchema(users, {
   id: (schema) => schema,
   email: (schema) => schema.email().optional(),
@@ -119,6 +450,29 @@ export const insertUserSchema = createInsertSchema(users, {
   emailNotifications: (schema) => schema.default(false),
 });
 
+// Reminder emails go out between 5 minutes and 7 days before an item is due
+export const MAX_REMINDER_LEAD_MINUTES = 7 * 24 * 60;
+
+export const reminderLeadMinutesSchema = z.array(z.number().int().min(5).max(MAX_REMINDER_LEAD_MINUTES)).max(5)
+  .refine((leads) => new Set(leads).size === leads.length, { message: "Reminder times must not contain duplicates" });
+
+export const emailPreferencesSchema = z.object({
+  item_activity: z.boolean().optional(),
+  reminders: z.boolean().optional(),
+  digests: z.boolean().optional(),
+  billing: z.boolean().optional(),
+}).strict();
+
+// IANA timezone name, e.g. "Europe/Berlin"
+export const timezoneSchema = z.string().max(64).refine((timeZone) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: "Invalid timezone" });
+
 export const insertItemSchema = createInsertSchema(items, {
   status: (schema) => schema.default("open"),
 });
@@ -127,6 +481,120 @@ export const updateItemStatusSchema = z.object({
   status: z.enum(["open", "in_progress", "completed"]),
 });
 
+const recurrenceRuleSchema = z.object({
+  frequency: z.enum(RECURRENCE_FREQUENCIES),
+  interval: z.number().int().min(1).max(MAX_RECURRENCE_INTERVAL).default(1),
+  weekdays: z.array(z.enum(WEEKDAYS)).min(1).max(7).optional(),
+  monthDay: z.number().int().min(1).max(31).optional(),
+});
+
+// A rule object or an RRULE string, stored as a normalized RRULE
+export const recurrenceSchema = z.union([z.string().max(200), recurrenceRuleSchema]).transform((value, ctx) => {
+  try {
+    return formatRecurrence(parseRecurrence(typeof value === "string" ? value : formatRecurrence(value)));
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    return z.NEVER;
+  }
+});
+
+// Optional details shared by item create and edit; null clears a field
+export const itemDetailsSchema = z.object({
+  description: z.string().max(5000).trim().nullable().optional(),
+  dueDate: z.coerce.date().nullable().optional(),
+  priority: z.enum(["low", "medium", "high"]).nullable().optional(),
+  recurrence: recurrenceSchema.nullable().optional(),
+});
+
+export const updateItemSchema = itemDetailsSchema.extend({
+  item: z.string().min(1).max(1000).trim().optional(),
+}).refine((data) => Object.values(data).some((value) => value !== undefined), {
+  message: "Provide at least one field to update",
+});
+
+// New order for some or all of a user's items, first to last
+export const reorderItemsSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(1000),
+}).refine((data) => new Set(data.ids).size === data.ids.length, {
+  message: "ids must not contain duplicates",
+});
+
+const bulkItemIds = z.array(z.number().int().positive()).min(1).max(500)
+  .refine((ids) => new Set(ids).size === ids.length, { message: "ids must not contain duplicates" });
+
+// One action applied to many of a user's items at once
+export const bulkItemActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("set_status"),
+    ids: bulkItemIds,
+    status: z.enum(["open", "in_progress", "completed"]),
+  }),
+  z.object({
+    action: z.literal("delete"),
+    ids: bulkItemIds,
+  }),
+  z.object({
+    action: z.literal("tag"),
+    ids: bulkItemIds,
+    tagId: z.number().int().positive(),
+    // false detaches the tag instead
+    attached: z.boolean().default(true),
+  }),
+]);
+
+export type BulkItemAction = z.infer<typeof bulkItemActionSchema>;
+
+export const insertTagSchema = createInsertSchema(tags);
+
+const tagFields = {
+  name: z.string().min(1).max(50).trim(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #3b82f6"),
+};
+
+export const createTagSchema = z.object({
+  name: tagFields.name,
+  color: tagFields.color.optional(),
+});
+
+export const updateTagSchema = z.object({
+  name: tagFields.name.optional(),
+  color: tagFields.color.optional(),
+}).refine((data) => data.name !== undefined || data.color !== undefined, {
+  message: "Provide a name or color to update",
+});
+
+export const insertSubtaskSchema = createInsertSchema(subtasks);
+
+const subtaskTitle = z.string().trim().min(1).max(500);
+
+export const createSubtaskSchema = z.object({
+  title: subtaskTitle,
+});
+
+export const updateSubtaskSchema = z.object({
+  title: subtaskTitle.optional(),
+  completed: z.boolean().optional(),
+}).refine((data) => data.title !== undefined || data.completed !== undefined, {
+  message: "Provide a title or completed flag to update",
+});
+
+// Full ordering of an item's subtasks, first to last
+export const reorderSubtasksSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1),
+});
+
+export const insertItemEventSchema = createInsertSchema(itemEvents);
+
+export const insertFileSchema = createInsertSchema(files);
+
+export const insertJobSchema = createInsertSchema(jobs);
+
+export const insertEmailOutboxSchema = createInsertSchema(emailOutbox);
+
+export const insertSubscriptionSchema = createInsertSchema(subscriptions);
+
+export const insertWebhookEventSchema = createInsertSchema(webhookEvents);
+
 export const insertAiThreadSchema = createInsertSchema(aiThreads, {
   title: (schema) => schema.default("New Chat"),
   archived: (schema) => schema.default(false),
@@ -141,11 +609,36 @@ export type User = typeof users.$inferSelect;
 export type InsertItem = z.infer<typeof insertItemSchema>;
 export type Item = typeof items.$inferSelect;
 // @ts-expect-error - Zod v3/v4 typing conflict with drizzle-zod
+export type InsertTag = z.infer<typeof insertTagSchema>;
+export type Tag = typeof tags.$inferSelect;
+export type ItemTag = typeof itemTags.$inferSelect;
+// @ts-expect-error - Zod v3/v4 typing conflict with drizzle-zod
+export type InsertSubtask = z.infer<typeof insertSubtaskSchema>;
+export type Subtask = typeof subtasks.$inferSelect;
+// @ts-expect-error - Zod v3/v4 typing conflict with drizzle-zod
+export type InsertItemEvent = z.infer<typeof insertItemEventSchema>;
+export type ItemEvent = typeof itemEvents.$inferSelect;
+// @ts-expect-error - Zod v3/v4 typing conflict with drizzle-zod
+export type InsertFile = z.infer<typeof insertFileSchema>;
+export type File = typeof files.$inferSelect;
+// @ts-expect-error - Zod v3/v4 typing conflict with drizzle-zod
 export type InsertAiThread = z.infer<typeof insertAiThreadSchema>;
 export type AiThread = typeof aiThreads.$inferSelect;
 // @ts-expect-error - Zod v3/v4 typing conflict with drizzle-zod
 export type InsertAiMessage = z.infer<typeof insertAiMessageSchema>;
 export type AiMessage = typeof aiMessages.$inferSelect;
+// @ts-expect-error - Zod v3/v4 typing conflict with drizzle-zod
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;
+// @ts-expect-error - Zod v3/v4 typing conflict with drizzle-zod
+export type InsertEmailOutbox = z.infer<typeof insertEmailOutboxSchema>;
+export type EmailOutbox = typeof emailOutbox.$inferSelect;
+// @ts-expect-error - Zod v3/v4 typing conflict with drizzle-zod
+export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
+export type Subscription = typeof subscriptions.$inferSelect;
+// @ts-expect-error - Zod v3/v4 typing conflict with drizzle-zod
+export type InsertWebhookEvent = z.infer<typeof insertWebhookEventSchema>;
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
 
 // Re-export for Replit Auth compatibility
 export type UpsertUser = InsertUser;